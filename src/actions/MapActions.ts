@@ -1,5 +1,8 @@
 import AppDispatcher from '../dispatcher/AppDispatcher';
 import { ActionTypes } from '../dispatcher/constants';
+import type { CitySnapshot } from '../game_modules/snapshot';
+import type { RoadEdit } from '../game_modules/road_editor';
+import type { CityLayers } from '../game_modules/mapgen';
 
 export const MapActions = {
     generate(seed: number | string) {
@@ -14,5 +17,27 @@ export const MapActions = {
             actionType: ActionTypes.MAP_FACTOR_TARGET_ZOOM,
             factor: factor
         });
+    },
+
+    loadSnapshot(snapshot: CitySnapshot) {
+        AppDispatcher.handleLogicAction({
+            actionType: ActionTypes.MAP_LOAD_SNAPSHOT,
+            snapshot: snapshot
+        });
+    },
+
+    editRoad(edit: RoadEdit) {
+        AppDispatcher.handleViewAction({
+            actionType: ActionTypes.MAP_EDIT_ROAD,
+            edit: edit
+        });
+    },
+
+    /** Troca camadas do usuário (chaves presentes substituem as atuais); valem a partir da próxima geração */
+    setLayers(layers: CityLayers) {
+        AppDispatcher.handleViewAction({
+            actionType: ActionTypes.MAP_SET_LAYERS,
+            layers: layers
+        });
     }
 };
\ No newline at end of file
@@ -2,13 +2,18 @@ import React, { useState, useEffect, useCallback, useRef } from 'react';
 import * as PIXI from 'pixi.js';
 import { config, roadWidthM, highwayWidthM } from '../game_modules/config';
 import { MapActions } from '../actions/MapActions';
+import { parseSnapshot } from '../game_modules/snapshot';
 import GameCanvas from './GameCanvas';
 import TextureLoader from './TextureLoader';
 import TextureGallery from './TextureGallery';
 import ToggleButton from './ToggleButton';
 import MapStore from '../stores/MapStore';
+import * as util from '../generic_modules/utility';
 import NoiseZoning from '../overlays/NoiseZoning';
 import OverlayToggle from './OverlayToggle';
+import InspectorPanel from './InspectorPanel';
+import ZoneImportPanel from './ZoneImportPanel';
+import ImageFieldsPanel from './ImageFieldsPanel';
 import { CRACK_PATTERNS, CrackPatternAssignments } from '../lib/crackPatterns';
 // Controles avançados removidos: sem overlay/zonas aleatórias aqui
 
@@ -51,8 +56,10 @@ const App: React.FC = () => {
             return false;
         }
     });
+    const [cameraFollow, setCameraFollow] = useState<boolean>(() => !!(config as any).render.cameraFollow);
     const [uiTick, setUiTick] = useState(0); // força re-render para atualizar HUD
     const [outlineMode, setOutlineMode] = useState((config as any).render.roadOutlineMode);
+    const [roadTool, setRoadTool] = useState(config.editor.tool);
     // Fonte de cor das bordas dos quarteirões: 'base'|'gap'|'outline'|'custom'
     const [blockEdgeColorSource, setBlockEdgeColorSource] = useState<'base'|'gap'|'outline'|'custom'>(() => {
         const cur = (config as any).render.blockEdgeBandColor;
@@ -91,6 +98,24 @@ const App: React.FC = () => {
     // poderíamos adicionar um useEffect com dependência vazia checando config.render.autoGenerateOnLoad.
     // Mantemos vazio para respeitar o flag e deixar apenas GameCanvas cuidar do autoGenerate.
 
+    const snapshotInputRef = useRef<HTMLInputElement | null>(null);
+    const [snapshotError, setSnapshotError] = useState('');
+    const onSnapshotFile: React.ChangeEventHandler<HTMLInputElement> = (e) => {
+        const f = e.target.files && e.target.files[0];
+        if (!f) return;
+        f.text().then(text => {
+            try {
+                MapActions.loadSnapshot(parseSnapshot(text));
+                setSnapshotError('');
+                setUiTick(t => t + 1);
+            } catch (err) {
+                setSnapshotError(`Snapshot failed: ${(err as Error)?.message ?? err}`);
+            }
+        }).finally(() => {
+            if (snapshotInputRef.current) snapshotInputRef.current.value = '';
+        });
+    };
+
     const factorTargetZoom = (factor: number) => {
         MapActions.factorTargetZoom(factor);
     };
@@ -229,6 +254,20 @@ const App: React.FC = () => {
         };
     }, []);
 
+    // Arrastar o mapa no canvas solta a câmera do personagem
+    useEffect(() => {
+        if (typeof window === 'undefined') return;
+        const handler = (event: Event) => {
+            const detail = (event as CustomEvent<{ follow?: boolean }>).detail;
+            if (!detail || typeof detail.follow !== 'boolean') return;
+            setCameraFollow(detail.follow as boolean);
+        };
+        window.addEventListener('camera-follow-change', handler as EventListener);
+        return () => {
+            window.removeEventListener('camera-follow-change', handler as EventListener);
+        };
+    }, []);
+
     useEffect(() => {
         if (typeof window === 'undefined') return;
         const handler = (event: Event) => {
@@ -499,6 +538,8 @@ const App: React.FC = () => {
                     } else {
                         const segments = MapStore.getSegments();
                         if (segments && segments.length) {
+                            // padrões sorteados pela seed do mapa: a mesma seed repete as mesmas rachaduras
+                            const rng = util.seededRNG(`${MapStore.getSeed()}:cracks`);
                             const assignments: CrackPatternAssignments = {
                                 version: Date.now(),
                                 segments: {},
@@ -535,7 +576,7 @@ const App: React.FC = () => {
                                     }
                                 }
                                 if (!intersects) return;
-                                const pattern = CRACK_PATTERNS[Math.floor(Math.random() * patternCount)];
+                                const pattern = CRACK_PATTERNS[Math.floor(rng() * patternCount)];
                                 const key = segment?.id != null ? String(segment.id) : `idx:${index}`;
                                 assignments.segments[key] = pattern.id;
                                 applied++;
@@ -728,12 +769,71 @@ const App: React.FC = () => {
                 roadLaneTexture={laneTexture} roadLaneScale={laneScale} roadLaneAlpha={laneAlpha}
             />
             <OverlayToggle />
+            <InspectorPanel />
             <div id="control-bar" className={controlsCollapsed ? 'collapsed' : ''}>
                 <button id="control-bar-toggle" onClick={() => setControlsCollapsed(c => !c)} style={{ marginRight: 8 }}>
                     {controlsCollapsed ? 'Expandir' : 'Colapsar'}
                 </button>
                 {/* Botões de preset removidos a pedido do usuário */}
                 {/* Toggle de debug removido */}
+                <ToggleButton
+                    onText="Stop Traffic"
+                    offText="Start Traffic"
+                    action={(nextState) => {
+                        config.traffic.enabled = nextState;
+                    }}
+                />
+                <ToggleButton
+                    onText="Inspector: ON"
+                    offText="Inspector: OFF"
+                    action={(nextState) => {
+                        config.picking.inspectorEnabled = nextState;
+                        if (!nextState) window.dispatchEvent(new CustomEvent('city-inspect', { detail: null }));
+                    }}
+                />
+                <label htmlFor="road-tool" style={{ marginLeft: 8 }}>Road tool:</label>
+                <select
+                    id="road-tool"
+                    value={roadTool}
+                    onChange={(e) => {
+                        const v = e.target.value as typeof config.editor.tool;
+                        config.editor.tool = v;
+                        setRoadTool(v);
+                        // descarta via em desenho / nó preso da ferramenta anterior
+                        try { window.dispatchEvent(new CustomEvent('road-tool-change', { detail: { tool: v } })); } catch (err) {}
+                    }}
+                >
+                    <option value="none">None</option>
+                    <option value="draw">Draw</option>
+                    <option value="delete">Delete</option>
+                    <option value="drag">Drag node</option>
+                    <option value="split">Split</option>
+                    <option value="paint">Paint zones</option>
+                </select>
+                {roadTool === 'paint' && (
+                    <span style={{ marginLeft: 6 }}>
+                        {/* pincel de zonas: a pintura vale antes do modo de zoneamento e vai no snapshot */}
+                        <select
+                            id="paint-zone"
+                            value={config.editor.paintZone}
+                            onChange={(e) => { config.editor.paintZone = e.target.value as typeof config.editor.paintZone; setUiTick(t => t + 1); }}
+                        >
+                            {['downtown', 'commercial', 'residential', 'industrial', 'rural', 'erase'].map(z => <option key={z} value={z}>{z}</option>)}
+                        </select>
+                        <label style={{ marginLeft: 6, fontSize: 12 }}>Brush (m)
+                            <input id="brush-radius" type="number" step={5} min={5} value={config.editor.brushRadiusM}
+                                onChange={(e) => { const v = parseFloat(e.target.value); config.editor.brushRadiusM = isFinite(v) && v > 0 ? v : 60; setUiTick(t => t + 1); }} style={{ width: 60, marginLeft: 6 }} />
+                        </label>
+                        <button onClick={() => { try { window.dispatchEvent(new CustomEvent('zone-paint-clear')); } catch (err) {} }} style={{ marginLeft: 6 }}>Clear Paint</button>
+                    </span>
+                )}
+                <ToggleButton
+                    onText="Walk Anywhere"
+                    offText="Roads Only"
+                    action={(nextState) => {
+                        config.character.walkableOnly = nextState;
+                    }}
+                />
                 <ToggleButton
                     onText="Hide Population Heatmap"
                     offText="Show Population Heatmap"
@@ -791,8 +891,9 @@ const App: React.FC = () => {
                 <ToggleButton
                     onText="Camera Follow: ON"
                     offText="Camera Follow: OFF"
-                    action={(nextState) => { config.render.cameraFollow = nextState; }}
+                    action={(nextState) => { config.render.cameraFollow = nextState; setCameraFollow(nextState); }}
                     initialState={!!config.render.cameraFollow}
+                    forcedState={cameraFollow}
                 />
                 {/* Camada overlay de vias removida */}
                 {/* Camada secundária de vias removida */}
@@ -1270,6 +1371,35 @@ const App: React.FC = () => {
                 </div>
                 
                 <button onClick={regenerateMap} style={{ marginLeft: 8 }}>Regenerate</button>
+                <button
+                    onClick={() => { try { window.dispatchEvent(new CustomEvent('city-export-geojson')); } catch (e) {} }}
+                    style={{ marginLeft: 8 }}
+                >
+                    Export GeoJSON
+                </button>
+                <button
+                    onClick={() => { try { window.dispatchEvent(new CustomEvent('city-export-od')); } catch (e) {} }}
+                    style={{ marginLeft: 8 }}
+                >
+                    Export OD CSV
+                </button>
+                <button
+                    onClick={() => { try { window.dispatchEvent(new CustomEvent('city-save-snapshot')); } catch (e) {} }}
+                    style={{ marginLeft: 8 }}
+                >
+                    Save Snapshot
+                </button>
+                <button onClick={() => snapshotInputRef.current?.click()} style={{ marginLeft: 8 }}>Load Snapshot</button>
+                <input
+                    ref={snapshotInputRef}
+                    type="file"
+                    accept=".json,application/json"
+                    onChange={onSnapshotFile}
+                    style={{ display: 'none' }}
+                />
+                {snapshotError && <span style={{ marginLeft: 6, fontSize: 12, color: '#EF9A9A' }}>{snapshotError}</span>}
+                <ZoneImportPanel />
+                <ImageFieldsPanel />
                 <a
                     href="/download/citygen.zip"
                     download
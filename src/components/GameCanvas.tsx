@@ -4,11 +4,21 @@ import * as _ from 'lodash';
 import * as math from '../generic_modules/math';
 import * as util from '../generic_modules/utility';
 import * as astar from '../generic_modules/astar';
-import { buildingFactory, Building, BuildingType } from '../game_modules/build';
+import { Building } from '../game_modules/build';
 import * as blockGeometry from '../game_modules/block_geometry';
-import { getZoneAt } from '../game_modules/mapgen';
-import { config, scale } from '../game_modules/config';
-import { Segment, MapGenerationResult } from '../game_modules/mapgen';
+import { placeBuildings, rezoneBlocks, buildingsRNG, roadUnionTree, roadBlockPaths, toCityData } from '../game_modules/city';
+import { createSnapshot } from '../game_modules/snapshot';
+import { nodeKey } from '../game_modules/road_graph';
+import { cityToGeoJSON } from '../game_modules/geojson';
+import { TrafficSimulation } from '../game_modules/traffic';
+import { CharacterCollision } from '../game_modules/character';
+import { pickAt, inspect, PickResult } from '../game_modules/picking';
+import { snapPoint, nodeNear, buildingsOnRoads, RoadEditResult } from '../game_modules/road_editor';
+import { generateTrips, odToCSV, ODMatrix } from '../game_modules/trips';
+import { cityCenters, centerDistance } from '../game_modules/zoning';
+import { config, scale, generationOptions } from '../game_modules/config';
+import { Segment } from '../game_modules/mapgen';
+import type { CityFields } from '../game_modules/mapgen';
 import { MapActions } from '../actions/MapActions';
 import MapStore from '../stores/MapStore';
 import type { Point } from '../generic_modules/math';
@@ -23,6 +33,24 @@ const ClipperLib: any = require('clipper-lib');
 
 const clamp = (v: number, min: number, max: number) => Math.min(max, Math.max(min, v));
 
+// Baixa um texto como arquivo (exportações da cidade)
+const downloadText = (filename: string, text: string, mime: string) => {
+    const url = URL.createObjectURL(new Blob([text], { type: mime }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    a.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// Estilo da via pela classe (render.roadClassStyling); sem ele, cor base única
+const roadClassStyle = (segment: Segment): { color: number; lineWidthPx: number } => {
+    const base = config.render.baseRoadColor;
+    if (!config.render.roadClassStyling) return { color: base, lineWidthPx: 2 };
+    const rc = config.roadClasses[segment.roadClass];
+    return { color: rc.color, lineWidthPx: rc.lineWidthPx };
+};
+
 const toUint32 = (value: number) => {
     if (!Number.isFinite(value)) return 0;
     const scaled = Math.floor(value * 1_000_003);
@@ -349,6 +377,13 @@ const GameCanvas: React.FC<GameCanvasPropsInternal> = ({ interiorTexture, interi
     const drawables = useRef<PIXI.Container | null>(null);
     const dynamicDrawables = useRef<PIXI.Container | null>(null);
     const heatmaps = useRef<PIXI.Container | null>(null);
+    const terrainLayer = useRef<PIXI.Container | null>(null);
+    const bridgeDecks = useRef<PIXI.Container | null>(null);
+    const tunnelRoads = useRef<PIXI.Container | null>(null);
+    const trafficLayer = useRef<PIXI.Container | null>(null);
+    const routeLayer = useRef<PIXI.Container | null>(null);
+    const inspectLayer = useRef<PIXI.Container | null>(null);
+    const editLayer = useRef<PIXI.Container | null>(null);
     const debugDrawables = useRef<PIXI.Container | null>(null);
     const debugSegments = useRef<PIXI.Container | null>(null);
     const debugMapData = useRef<PIXI.Container | null>(null);
@@ -363,6 +398,7 @@ const GameCanvas: React.FC<GameCanvasPropsInternal> = ({ interiorTexture, interi
     const sidewalkTiles = useRef<PIXI.Container | null>(null);
     const hud = useRef<PIXI.Container | null>(null);
     const debugText = useRef<PIXI.Text | null>(null);
+    const routeText = useRef<PIXI.Text | null>(null);
     const debugState = useRef<{ markerContainer: boolean; markerTex: boolean; children: number; bbox: string; lanePolys: number }>({ markerContainer: false, markerTex: false, children: 0, bbox: '', lanePolys: 0 });
     const roadLaneOverlay = useRef<PIXI.Container | null>(null);
     const roadLaneOutlines = useRef<PIXI.Container | null>(null);
@@ -425,18 +461,53 @@ const GameCanvas: React.FC<GameCanvasPropsInternal> = ({ interiorTexture, interi
     const state = useRef({
         segments: [] as Segment[],
         qTree: null as Quadtree | null,
-        heatmap: null as MapGenerationResult['heatmap'] | null,
+        // zoneamento, heatmap e terreno do mapa exibido (MapStore.getFields)
+        fields: null as CityFields | null,
+        // últimos resultados derivados (usados pelas exportações)
+        buildings: [] as Building[],
+        // desenho de cada construção (remoção pontual após edição de vias)
+        buildingGraphics: new Map<Building, PIXI.Graphics>(),
+        blocks: [] as blockGeometry.Block[],
+        // simulação de tráfego da malha atual (recriada quando as construções mudam)
+        traffic: null as TrafficSimulation | null,
+        trips: null as ODMatrix | null,
+        trafficGraphics: null as PIXI.Graphics | null,
         initialised: false,
         dt: 0,
         time: null as number | null,
         zoom: 0.01 * window.devicePixelRatio,
         camera: { x: 0, y: 0 },
+        // ponto do mundo que deve permanecer sob o cursor enquanto o zoom converge (câmera livre)
+        zoomAnchor: null as { screen: Point; world: Point } | null,
         pathGraphics: null as PIXI.Graphics | null,
+        // rota por clique: origem/destino encaixados na via mais próxima e resultado do roteador
+        routing: {
+            start: null as astar.PathLocation | null,
+            end: null as astar.PathLocation | null,
+            route: null as astar.Route | null,
+            message: '',
+        },
         debugSegmentI: 0,
         lastOutlineMode: '' as any,
     lastSmoothSharpAngles: false,
     lastShowOnlyBlockInteriors: false,
         character: { pos: { x: 0, y: 0 } as Point },
+        // entidade sob o cursor no inspetor
+        inspected: null as PickResult | null,
+        inspectGraphics: null as PIXI.Graphics | null,
+        // ferramentas de edição de vias (config.editor.tool): 1ª ponta da via em desenho, nó arrastado e cursor;
+        // stroke = caixa (mundo) das células alteradas pelo pincel de zonas no traço em andamento
+        editor: {
+            drawStart: null as Point | null,
+            dragNode: null as Point | null,
+            cursor: null as Point | null,
+            stroke: null as { minX: number; minY: number; maxX: number; maxY: number } | null,
+        },
+        editGraphics: null as PIXI.Graphics | null,
+        paintGraphics: null as PIXI.Graphics | null,
+        // colisão do personagem; recriada sob demanda quando prédios ou quarteirões mudam
+        characterCollision: null as CharacterCollision | null,
+        blockEdgePaths: [] as Point[][],
         characterGraphics: null as PIXI.Graphics | null,
         // sprite instance for the character (created on demand)
         characterSprite: null as PIXI.Sprite | null,
@@ -481,13 +552,46 @@ const GameCanvas: React.FC<GameCanvasPropsInternal> = ({ interiorTexture, interi
         return { x: invA * p.x + invC * p.y, y: invB * p.x + invD * p.y };
     };
 
-    // Stable node key generator: snap coordinates to a small grid before stringifying.
-    // This avoids accidental separate keys for points that should be considered the same
-    // intersection due to floating point jitter. Grid size is configurable via
-    // (config as any).render.nodeSnapM (default 1.0 meter). Minimum grid 0.01m.
-    const nodeKey = (p: Point, gridM?: number) => {
-        const snap = Math.max(0.01, gridM ?? ((config as any).render.nodeSnapM ?? 1.0));
-        return `${Math.round(p.x / snap)}:${Math.round(p.y / snap)}`;
+    // Tela (pixels CSS do evento) -> mundo, desfazendo câmera/zoom do zoomContainer e a projeção
+    const clientToScreen = (clientX: number, clientY: number): Point | null => {
+        const view = pixiRenderer.current?.view as HTMLCanvasElement | undefined;
+        if (!view) return null;
+        const rect = view.getBoundingClientRect();
+        return {
+            x: (clientX - rect.left) * (view.width / Math.max(1, rect.width)),
+            y: (clientY - rect.top) * (view.height / Math.max(1, rect.height)),
+        };
+    };
+    const screenToWorld = (clientX: number, clientY: number): Point | null => {
+        const px = clientToScreen(clientX, clientY);
+        if (!px || !zoomContainer.current) return null;
+        const zc = zoomContainer.current;
+        return isoToWorld({ x: (px.x - zc.x) / (zc.scale.x || 1), y: (px.y - zc.y) / (zc.scale.y || 1) });
+    };
+
+    /** Desliga cameraFollow (câmera livre) e avisa a UI */
+    const detachCamera = () => {
+        if (!(config as any).render.cameraFollow) return;
+        (config as any).render.cameraFollow = false;
+        try { window.dispatchEvent(new CustomEvent('camera-follow-change', { detail: { follow: false } })); } catch (e) {}
+    };
+
+    /**
+     * Zoom por fator mantendo o ponto do mundo sob o cursor (clientX/Y) parado na tela.
+     * Com cameraFollow ligado o zoom é centrado no personagem, como nos botões.
+     */
+    const zoomAt = (factor: number, clientX: number, clientY: number) => {
+        const rCfg = (config as any).render;
+        const dpr = window.devicePixelRatio || 1;
+        const target = MapStore.getTargetZoom();
+        const clamped = Math.max(rCfg.zoomMin * dpr, Math.min(rCfg.zoomMax * dpr, target * factor));
+        if (!(clamped > 0) || clamped === target) return;
+        if (!rCfg.cameraFollow) {
+            const screen = clientToScreen(clientX, clientY);
+            const world = screenToWorld(clientX, clientY);
+            if (screen && world) state.zoomAnchor = { screen, world };
+        }
+        MapActions.factorTargetZoom(clamped / target);
     };
 
     // Criar textura local de grama caso não venha por props
@@ -550,18 +654,32 @@ const GameCanvas: React.FC<GameCanvasPropsInternal> = ({ interiorTexture, interi
             if (debugText.current) {
                 hud.current.addChild(debugText.current);
             }
+            if (state.routing.message) {
+                const dpr = window.devicePixelRatio || 1;
+                if (!routeText.current) {
+                    routeText.current = new PIXI.Text('', { fill: 0xFFFFFF, fontSize: 14 * dpr, stroke: 0x000000, strokeThickness: 3 * dpr });
+                    // abaixo dos botões do overlay Perlin (canto superior esquerdo)
+                    routeText.current.position.set(10 * dpr, 48 * dpr);
+                }
+                if (routeText.current.text !== state.routing.message) routeText.current.text = state.routing.message;
+                hud.current.addChild(routeText.current);
+            }
         } catch (e) {
             // swallow errors to avoid breaking rendering
         }
     };
 
+    // Zona no mapa exibido (quarteirões só existem depois de uma geração, que traz os campos)
+    const zoneOnMap = (p: Point) => state.fields!.zoning.zoneAt(p);
+
     // (As funções drawSegment/drawRoundedSegment originais foram substituídas mais abaixo pela versão expandida – manteremos apenas a versão avançada existente no arquivo.)
 
     // ===== Helpers restaurados / reorganizados =====
     const drawPopulationHeatmap = () => {
         if (!heatmaps.current) return;
         heatmaps.current.removeChildren();
-        if (!state.heatmap || !config.mapGeneration.DRAW_HEATMAP) return;
+        if (!state.fields || !config.mapGeneration.DRAW_HEATMAP) return;
+        const heatmap = state.fields.heatmap;
 
         const bounds = config.mapGeneration.QUADTREE_PARAMS;
         const step = 200; // m
@@ -579,9 +697,8 @@ const GameCanvas: React.FC<GameCanvasPropsInternal> = ({ interiorTexture, interi
             for (let x = bounds.x; x < bounds.x + bounds.width; x += step) {
                 const cellCx = x + step * 0.5;
                 const cellCy = y + step * 0.5;
-                const c = (config as any).zoningModel.cityCenter;
-                const R = Math.max(200, (state.heatmap as any).rUnit || 3000);
-                const dist = Math.hypot(cellCx - c.x, cellCy - c.y);
+                const R = Math.max(200, heatmap.rUnit || 3000);
+                const dist = centerDistance({ x: cellCx, y: cellCy }, config.zoningModel, 4 * R);
                 let band = 1;
                 if (dist < R) band = 5; else if (dist < 2 * R) band = 4; else if (dist < 3 * R) band = 3; else if (dist < 4 * R) band = 2;
                 const bandColors = [0,0x81C784,0xBA68C8,0x4FC3F7,0xFFB74D,0xFF8A65];
@@ -595,20 +712,22 @@ const GameCanvas: React.FC<GameCanvasPropsInternal> = ({ interiorTexture, interi
                 g.moveTo(p1.x, p1.y); g.lineTo(p2.x, p2.y); g.lineTo(p3.x, p3.y); g.lineTo(p4.x, p4.y); g.closePath(); g.endFill();
             }
         }
-        // círculos guia
+        // círculos guia (um conjunto por centro da região; bandas deslocadas pelo peso)
         try {
-            const center = (config as any).zoningModel.cityCenter;
-            const R = Math.max(200, (state.heatmap as any)?.rUnit || 3000);
+            const R = Math.max(200, heatmap.rUnit || 3000);
             const samples = 128;
-            for (let k = 1; k <= 4; k++) {
-                const rad = k * R;
-                g.lineStyle(2, 0xFFFFFF, 0.5);
-                for (let i = 0; i <= samples; i++) {
-                    const ang = (i / samples) * Math.PI * 2;
-                    const wx = center.x + rad * Math.sin(ang);
-                    const wy = center.y + rad * Math.cos(ang);
-                    const p = worldToIso({ x: wx, y: wy });
-                    if (i === 0) g.moveTo(p.x, p.y); else g.lineTo(p.x, p.y);
+            for (const center of cityCenters(config.zoningModel)) {
+                for (let k = 1; k <= 4; k++) {
+                    const rad = (k * R - (1 - center.weight) * 4 * R) * center.radiusScale;
+                    if (rad <= 0) continue;
+                    g.lineStyle(2, 0xFFFFFF, 0.5);
+                    for (let i = 0; i <= samples; i++) {
+                        const ang = (i / samples) * Math.PI * 2;
+                        const wx = center.x + rad * Math.sin(ang);
+                        const wy = center.y + rad * Math.cos(ang);
+                        const p = worldToIso({ x: wx, y: wy });
+                        if (i === 0) g.moveTo(p.x, p.y); else g.lineTo(p.x, p.y);
+                    }
                 }
             }
         } catch {}
@@ -616,6 +735,387 @@ const GameCanvas: React.FC<GameCanvasPropsInternal> = ({ interiorTexture, interi
         (state as any).populationHeatMap = g;
     };
 
+    // Terreno (água + relevo sombreado) sob a malha, na extensão das vias com margem
+    const drawTerrain = () => {
+        if (!terrainLayer.current) return;
+        terrainLayer.current.removeChildren();
+        const terrain = state.fields?.terrain;
+        if (!terrain?.isEnabled() || !(config as any).render.showTerrain || !state.segments.length) return;
+        const tp = terrain.getParams();
+
+        let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+        state.segments.forEach(s => {
+            minX = Math.min(minX, s.r.start.x, s.r.end.x); maxX = Math.max(maxX, s.r.start.x, s.r.end.x);
+            minY = Math.min(minY, s.r.start.y, s.r.end.y); maxY = Math.max(maxY, s.r.start.y, s.r.end.y);
+        });
+        const margin = 1500;
+        minX -= margin; minY -= margin; maxX += margin; maxY += margin;
+        // no máximo ~200 células por lado
+        const step = Math.max(tp.renderCellM ?? 60, Math.max(maxX - minX, maxY - minY) / 200);
+        const waterColors: Record<string, number> = { sea: 0x3F7FB5, lake: 0x5B9BD0, river: 0x6AAAD8 };
+        const g = new PIXI.Graphics();
+        const alpha = tp.renderAlpha ?? 0.55;
+        for (let y = minY; y < maxY; y += step) {
+            for (let x = minX; x < maxX; x += step) {
+                const c = { x: x + step * 0.5, y: y + step * 0.5 };
+                const water = terrain.waterAt(c);
+                let col: number;
+                if (water) {
+                    col = waterColors[water];
+                } else {
+                    // terra: verde (baixo) -> ocre (alto), escurecido pela inclinação
+                    const h = clamp(terrain.elevationAt(c.x, c.y) / Math.max(1, tp.reliefM * 0.6), 0, 1);
+                    const shade = 1 - clamp(terrain.gradeAt(c, step * 0.5) / Math.max(1e-6, tp.maxGrade), 0, 1) * 0.35;
+                    const r = (0xB5 + (0xC9 - 0xB5) * h) * shade, gg = (0xCC + (0xB8 - 0xCC) * h) * shade, b = (0x96 + (0x8C - 0x96) * h) * shade;
+                    col = (Math.round(r) << 16) | (Math.round(gg) << 8) | Math.round(b);
+                }
+                const p1 = worldToIso({ x, y });
+                const p2 = worldToIso({ x: x + step, y });
+                const p3 = worldToIso({ x: x + step, y: y + step });
+                const p4 = worldToIso({ x, y: y + step });
+                g.beginFill(col, water ? Math.max(alpha, 0.85) : alpha);
+                g.moveTo(p1.x, p1.y); g.lineTo(p2.x, p2.y); g.lineTo(p3.x, p3.y); g.lineTo(p4.x, p4.y); g.closePath(); g.endFill();
+            }
+        }
+        terrainLayer.current.addChild(g);
+    };
+
+    // Pontes/viadutos: sombra no solo + tabuleiro elevado com guarda-corpo. Túneis: faixa translúcida sob o solo.
+    const drawGradeSeparatedRoads = (segments: Segment[]) => {
+        bridgeDecks.current?.removeChildren();
+        tunnelRoads.current?.removeChildren();
+        const rCfg = (config as any).render;
+        const lift = rCfg.bridgeDeckLiftM ?? 6;
+        for (const segment of segments) {
+            if (segment.level > 0 && bridgeDecks.current) {
+                const shadow = drawRoundedSegment(segment, 0x000000, segment.width * 1.1, 0, 0, 'butt', 'butt');
+                shadow.alpha = rCfg.bridgeShadowAlpha ?? 0.28;
+                shadow.position.set(lift * 0.5, lift * 0.35);
+                bridgeDecks.current.addChild(shadow);
+                const rail = drawRoundedSegment(segment, rCfg.bridgeRailColor ?? 0x5A5F63, segment.width + 2, 0, 0, 'butt', 'butt');
+                rail.position.set(0, -lift * segment.level);
+                bridgeDecks.current.addChild(rail);
+                const deck = drawRoundedSegment(segment, roadClassStyle(segment).color, segment.width, 0, 0, 'butt', 'butt');
+                deck.position.set(0, -lift * segment.level);
+                bridgeDecks.current.addChild(deck);
+            } else if (segment.level < 0 && tunnelRoads.current) {
+                const g = drawRoundedSegment(segment, rCfg.tunnelColor ?? 0x3A3F44, segment.width, 0, 0, 'butt', 'butt');
+                g.alpha = rCfg.tunnelAlpha ?? 0.45;
+                tunnelRoads.current.addChild(g);
+            }
+        }
+    };
+
+    // Carros: retângulos orientados na mão da via; elevados sobre pontes, esmaecidos em túneis
+    const drawTraffic = () => {
+        if (!trafficLayer.current) return;
+        if (!state.trafficGraphics) {
+            state.trafficGraphics = new PIXI.Graphics();
+            trafficLayer.current.addChild(state.trafficGraphics);
+        }
+        const g = state.trafficGraphics;
+        g.clear();
+        const sim = state.traffic;
+        if (!sim || !config.traffic.enabled) return;
+        const tCfg = config.traffic;
+        const lift = config.render.bridgeDeckLiftM;
+        const hl = tCfg.carLengthM / 2, hw = tCfg.carWidthM / 2;
+        for (const v of sim.vehicles) {
+            const { p, heading, segment } = sim.positionOf(v);
+            const ux = Math.cos(heading), uy = Math.sin(heading);
+            const corners = [[hl, hw], [hl, -hw], [-hl, -hw], [-hl, hw]].map(([a, b]) => {
+                const q = worldToIso({ x: p.x + ux * a - uy * b, y: p.y + uy * a + ux * b });
+                return { x: q.x, y: q.y - (segment.level > 0 ? lift * segment.level : 0) };
+            });
+            g.beginFill(v.color, segment.level < 0 ? 0.3 : 1.0);
+            g.moveTo(corners[0].x, corners[0].y);
+            for (let i = 1; i < 4; i++) g.lineTo(corners[i].x, corners[i].y);
+            g.closePath();
+            g.endFill();
+        }
+    };
+
+    // Rota por clique: linha pelas junções da rota e marcadores de origem/destino
+    const drawRoute = () => {
+        if (!routeLayer.current) return;
+        if (!state.pathGraphics) {
+            state.pathGraphics = new PIXI.Graphics();
+            routeLayer.current.addChild(state.pathGraphics);
+        }
+        const g = state.pathGraphics;
+        g.clear();
+        const rCfg = (config as any).render;
+        const { start, end, route } = state.routing;
+        if (route && route.found) {
+            const pts = astar.routePolyline(route).map(worldToIso);
+            g.lineStyle({ width: rCfg.routeLineWidthM ?? 3, color: rCfg.routeColor ?? 0xFF6D00, alpha: rCfg.routeAlpha ?? 0.9, join: PIXI.LINE_JOIN.ROUND, cap: PIXI.LINE_CAP.ROUND });
+            pts.forEach((p, i) => (i === 0 ? g.moveTo(p.x, p.y) : g.lineTo(p.x, p.y)));
+            g.lineStyle(0);
+        }
+        const marker = (loc: astar.PathLocation | null, color: number) => {
+            if (!loc) return;
+            const p = worldToIso(math.fractionBetween(loc.o.r.start, loc.o.r.end, loc.fraction));
+            g.beginFill(color, 1.0);
+            g.drawCircle(p.x, p.y, rCfg.routeMarkerRadiusM ?? 5);
+            g.endFill();
+        };
+        marker(start, rCfg.routeStartColor ?? 0x00C853);
+        marker(end, rCfg.routeEndColor ?? 0xD50000);
+    };
+
+    // Contorno da entidade inspecionada (prédio, faixa da via ou quarteirão)
+    const drawInspected = () => {
+        if (!inspectLayer.current) return;
+        if (!state.inspectGraphics) {
+            state.inspectGraphics = new PIXI.Graphics();
+            inspectLayer.current.addChild(state.inspectGraphics);
+        }
+        const g = state.inspectGraphics;
+        g.clear();
+        const pick = state.inspected;
+        if (!pick) return;
+        const color = (config as any).render.inspectHighlightColor ?? 0x00E5FF;
+        let outline: Point[] = [];
+        if (pick.kind === 'building') outline = pick.building.corners;
+        else if (pick.kind === 'block') outline = pick.block.centerline;
+        else {
+            const s = pick.segment;
+            const L = s.length() || 1;
+            const nx = -(s.r.end.y - s.r.start.y) / L * s.width / 2, ny = (s.r.end.x - s.r.start.x) / L * s.width / 2;
+            outline = [
+                { x: s.r.start.x + nx, y: s.r.start.y + ny }, { x: s.r.end.x + nx, y: s.r.end.y + ny },
+                { x: s.r.end.x - nx, y: s.r.end.y - ny }, { x: s.r.start.x - nx, y: s.r.start.y - ny },
+            ];
+        }
+        const pts = outline.map(worldToIso);
+        if (pts.length < 2) return;
+        g.lineStyle({ width: 1.5, color, alpha: 1, join: PIXI.LINE_JOIN.ROUND });
+        g.beginFill(color, 0.15);
+        g.drawPolygon(pts.flatMap(p => [p.x, p.y]));
+        g.endFill();
+    };
+
+    /** Atualiza a entidade inspecionada e avisa o painel (null esconde) */
+    const setInspected = (pick: PickResult | null, at: Point | null) => {
+        const same = (a: PickResult | null, b: PickResult | null): boolean => {
+            if (a === b) return true;
+            if (!a || !b) return false;
+            switch (a.kind) {
+                case 'building': return b.kind === 'building' && a.building === b.building;
+                case 'segment': return b.kind === 'segment' && a.segment === b.segment;
+                case 'block': return b.kind === 'block' && a.block === b.block;
+            }
+        };
+        if (same(state.inspected, pick)) return;
+        state.inspected = pick;
+        drawInspected();
+        const detail = pick && at ? inspect(pick, at, { qTree: state.qTree, segments: state.segments, blocks: state.blocks, fields: state.fields }) : null;
+        window.dispatchEvent(new CustomEvent('city-inspect', { detail }));
+    };
+
+    /** Recria a simulação de tráfego e a matriz OD para a malha/construções atuais */
+    const resetTraffic = (segments: Segment[], buildings: Building[], qTree: Quadtree | null) => {
+        state.traffic?.clear();
+        state.traffic = new TrafficSimulation(segments, buildings, config.traffic, util.seededRNG(`${MapStore.getSeed()}:traffic`), qTree ?? undefined);
+        // Matriz OD das construções: alimenta o tráfego (pares ponderados por viagens) e a exportação CSV
+        state.trips = generateTrips(buildings);
+        if (config.traffic.useTripTable) state.traffic.setTrips(state.trips);
+    };
+
+    // Prévia das ferramentas de edição: via em desenho, nó arrastado e ponto de encaixe sob o cursor
+    const drawEditPreview = () => {
+        if (!editLayer.current) return;
+        if (!state.editGraphics) {
+            state.editGraphics = new PIXI.Graphics();
+            editLayer.current.addChild(state.editGraphics);
+        }
+        const g = state.editGraphics;
+        g.clear();
+        const eCfg = config.editor;
+        const { drawStart, dragNode, cursor } = state.editor;
+        if (eCfg.tool === 'none' || !cursor) return;
+        const color = eCfg.previewColor;
+        const snapped = snapPoint(cursor, state.segments, state.qTree).point;
+        const r = (config as any).render.routeMarkerRadiusM ?? 5;
+        const line = (a: Point, b: Point) => {
+            const p = worldToIso(a), q = worldToIso(b);
+            g.lineStyle({ width: 2, color, alpha: 0.9, cap: PIXI.LINE_CAP.ROUND });
+            g.moveTo(p.x, p.y);
+            g.lineTo(q.x, q.y);
+            g.lineStyle(0);
+        };
+        if (eCfg.tool === 'draw' && drawStart) line(drawStart, snapped);
+        if (eCfg.tool === 'drag' && dragNode) {
+            for (const s of state.segments) {
+                if (math.equalV(s.r.start, dragNode)) line(s.r.end, cursor);
+                else if (math.equalV(s.r.end, dragNode)) line(s.r.start, cursor);
+            }
+        }
+        if (eCfg.tool === 'draw' || eCfg.tool === 'split') {
+            const p = worldToIso(eCfg.tool === 'draw' ? snapped : cursor);
+            g.beginFill(color, 0.9);
+            g.drawCircle(p.x, p.y, r);
+            g.endFill();
+        }
+        if (eCfg.tool === 'paint') {
+            // contorno do pincel (círculo no mundo => elipse na projeção)
+            const R = eCfg.brushRadiusM;
+            const zoneColor = eCfg.paintZone === 'erase' ? color : config.render.zoneColors[eCfg.paintZone];
+            g.lineStyle({ width: 2, color: zoneColor, alpha: 0.9 });
+            for (let i = 0; i <= 32; i++) {
+                const a = i / 32 * 2 * Math.PI;
+                const p = worldToIso({ x: cursor.x + R * Math.cos(a), y: cursor.y + R * Math.sin(a) });
+                if (i === 0) g.moveTo(p.x, p.y); else g.lineTo(p.x, p.y);
+            }
+            g.lineStyle(0);
+        }
+    };
+
+    // Zonas pintadas (zoning.getOverrides), visíveis enquanto o pincel está ativo
+    const drawPaintOverlay = () => {
+        if (!editLayer.current) return;
+        if (!state.paintGraphics) {
+            state.paintGraphics = new PIXI.Graphics();
+            editLayer.current.addChildAt(state.paintGraphics, 0);
+        }
+        const g = state.paintGraphics;
+        g.clear();
+        const overrides = config.editor.tool === 'paint' ? state.fields?.zoning.getOverrides() : null;
+        if (!overrides) return;
+        const colors = (config as any).render.zoneColors ?? {};
+        const c = overrides.cellM;
+        for (const [qx, qy, zone] of overrides.cells) {
+            const corners = [
+                worldToIso({ x: qx * c, y: qy * c }), worldToIso({ x: (qx + 1) * c, y: qy * c }),
+                worldToIso({ x: (qx + 1) * c, y: (qy + 1) * c }), worldToIso({ x: qx * c, y: (qy + 1) * c }),
+            ];
+            g.beginFill(colors[zone] ?? 0xFFFFFF, 0.35);
+            g.drawPolygon(corners.flatMap(p => [p.x, p.y]));
+            g.endFill();
+        }
+    };
+
+    const cancelEdit = () => {
+        state.editor.drawStart = null;
+        state.editor.dragNode = null;
+        drawEditPreview();
+        drawPaintOverlay();
+    };
+
+    /** Uma pincelada em world; acumula a área alterada do traço em state.editor.stroke */
+    const paintAt = (world: Point) => {
+        const eCfg = config.editor;
+        const R = eCfg.brushRadiusM;
+        if (!state.fields?.zoning.paint(world, R, eCfg.paintZone === 'erase' ? null : eCfg.paintZone)) return;
+        const st = state.editor.stroke ?? { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+        st.minX = Math.min(st.minX, world.x - R); st.minY = Math.min(st.minY, world.y - R);
+        st.maxX = Math.max(st.maxX, world.x + R); st.maxY = Math.max(st.maxY, world.y + R);
+        state.editor.stroke = st;
+        drawPaintOverlay();
+    };
+
+    /** Refaz as construções dos quarteirões da caixa `st` cuja zona mudou */
+    const rezoneArea = (st: { minX: number; minY: number; maxX: number; maxY: number }) => {
+        if (!isFinite(st.minX) || !state.qTree || !state.fields) return;
+        const area = { x: st.minX, y: st.minY, width: st.maxX - st.minX, height: st.maxY - st.minY };
+        const res = rezoneBlocks(state.blocks, state.buildings, state.qTree, state.fields.zoning, area, { ...generationOptions(), rng: buildingsRNG(MapStore.getSeed()) });
+        if (!res.blocks.length) return;
+        res.removed.forEach(b => {
+            const g = state.buildingGraphics.get(b);
+            if (g) { g.parent?.removeChild(g); g.destroy(); }
+            state.buildingGraphics.delete(b);
+        });
+        res.added.forEach(drawBuilding);
+        if (state.inspected?.kind === 'building' && res.removed.includes(state.inspected.building)) setInspected(null, null);
+        state.characterCollision = null;
+        resetTraffic(state.segments, state.buildings, state.qTree);
+    };
+
+    /** Fim do traço (caixa vazia/infinita se nenhuma célula mudou) */
+    const finishPaint = () => {
+        const st = state.editor.stroke;
+        state.editor.stroke = null;
+        if (!st) return;
+        // a pintura também vale para as próximas gerações
+        MapActions.setLayers({ zoneOverrides: state.fields?.zoning.getOverrides() ?? null });
+        rezoneArea(st);
+    };
+
+    /** Apaga toda a pintura e devolve as construções ao zoneamento do modo atual */
+    const clearPaint = () => {
+        const zoning = state.fields?.zoning;
+        const overrides = zoning?.getOverrides();
+        if (!zoning || !overrides) return;
+        const st = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+        for (const [qx, qy] of overrides.cells) {
+            st.minX = Math.min(st.minX, qx * overrides.cellM); st.minY = Math.min(st.minY, qy * overrides.cellM);
+            st.maxX = Math.max(st.maxX, (qx + 1) * overrides.cellM); st.maxY = Math.max(st.maxY, (qy + 1) * overrides.cellM);
+        }
+        zoning.setOverrides(null);
+        MapActions.setLayers({ zoneOverrides: null });
+        drawPaintOverlay();
+        rezoneArea(st);
+    };
+
+    /** Clique com uma ferramenta de edição ativa (desenhar, apagar ou dividir) */
+    const applyEditClick = (world: Point) => {
+        const tool = config.editor.tool;
+        if (tool === 'draw') {
+            if (!state.editor.drawStart) {
+                state.editor.drawStart = snapPoint(world, state.segments, state.qTree).point;
+            } else {
+                MapActions.editRoad({ kind: 'draw', start: state.editor.drawStart, end: world });
+                // continua desenhando a partir da ponta recém-criada
+                state.editor.drawStart = snapPoint(world, state.segments, state.qTree).point;
+            }
+            drawEditPreview();
+            return;
+        }
+        const pick = pickAt(world, { qTree: state.qTree, segments: state.segments, blocks: [] }, config.picking.toleranceM);
+        if (!pick || pick.kind !== 'segment') return;
+        if (tool === 'delete') MapActions.editRoad({ kind: 'delete', segment: pick.segment });
+        else if (tool === 'split') MapActions.editRoad({ kind: 'split', segment: pick.segment, point: math.fractionBetween(pick.segment.r.start, pick.segment.r.end, pick.fraction) });
+    };
+
+    const formatDuration = (seconds: number) => {
+        const s = Math.round(seconds);
+        if (s < 60) return `${s} s`;
+        const m = Math.floor(s / 60);
+        if (m < 60) return `${m} min ${String(s % 60).padStart(2, '0')} s`;
+        return `${Math.floor(m / 60)} h ${String(m % 60).padStart(2, '0')} min`;
+    };
+
+    const clearRoute = () => {
+        state.routing = { start: null, end: null, route: null, message: '' };
+        drawRoute();
+    };
+
+    /** 1º clique define a origem, 2º o destino e calcula a rota; o seguinte recomeça */
+    const pickRoutePoint = (world: Point) => {
+        const profile = config.routing.clickProfile;
+        const R = config.routing.pickRadiusM;
+        const candidates: Segment[] = state.qTree
+            ? state.qTree.retrieve({ x: world.x - R, y: world.y - R, width: 2 * R, height: 2 * R })
+                .map(m => m.o).filter((o): o is Segment => o instanceof Segment)
+            : state.segments;
+        const loc = astar.locate(world, candidates, R, profile);
+        if (!loc) {
+            state.routing.message = 'Route: no road near the click';
+            return;
+        }
+        const r = state.routing;
+        if (!r.start || r.end) {
+            state.routing = { start: loc, end: null, route: null, message: 'Route: origin set, click the destination' };
+        } else {
+            r.end = loc;
+            r.route = astar.findRoute(r.start, loc, { profile });
+            r.message = r.route.found
+                ? `Route (${profile}): ${(r.route.lengthM / 1000).toFixed(2)} km, ${formatDuration(r.route.costS)}`
+                : `Route (${profile}): no route (${r.route.reason})`;
+        }
+        drawRoute();
+    };
+
     // Redesenhar heatmap quando App alterna a visibilidade
     React.useEffect(() => {
         const handler = () => {
@@ -714,27 +1214,6 @@ const GameCanvas: React.FC<GameCanvasPropsInternal> = ({ interiorTexture, interi
         return g;
     };
 
-    // Função para desenhar polígonos com esquinas curvas
-    const drawPolygon = (polygon: blockGeometry.Polygon, color: number, alpha: number = 1.0) => {
-        const g = new PIXI.Graphics();
-        g.beginFill(color, alpha);
-
-        if (polygon.vertices.length > 0) {
-            const firstVertex = worldToIso(polygon.vertices[0]);
-            g.moveTo(firstVertex.x, firstVertex.y);
-
-            for (let i = 1; i < polygon.vertices.length; i++) {
-                const vertex = worldToIso(polygon.vertices[i]);
-                g.lineTo(vertex.x, vertex.y);
-            }
-
-            g.closePath();
-        }
-
-        g.endFill();
-        return g;
-    };
-
     const polygonCentroid = (pts: Point[]): Point | null => {
         if (!pts || pts.length === 0) return null;
         let areaAcc = 0;
@@ -971,62 +1450,6 @@ const GameCanvas: React.FC<GameCanvasPropsInternal> = ({ interiorTexture, interi
         return { world, clipper };
     };
 
-    // Função para desenhar quarteirões com esquinas curvas
-    const drawCurvedBlocks = () => {
-        if (!blockOutlines.current) return;
-        
-        // Limpar visualizações anteriores
-        blockOutlines.current.removeChildren();
-        
-        // Gerar alguns quarteirões de exemplo baseados na área dos segmentos
-        if (!state.segments || state.segments.length === 0) return;
-        
-        // Encontrar limites da área construída
-        let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
-        state.segments.forEach(segment => {
-            minX = Math.min(minX, segment.r.start.x, segment.r.end.x);
-            maxX = Math.max(maxX, segment.r.start.x, segment.r.end.x);
-            minY = Math.min(minY, segment.r.start.y, segment.r.end.y);
-            maxY = Math.max(maxY, segment.r.start.y, segment.r.end.y);
-        });
-        
-        // Criar quarteirões em uma grade
-        const blockSize = 400; // metros
-        const curveRadius = 40; // raio das esquinas curvas
-        
-        for (let x = minX; x < maxX; x += blockSize * 1.5) {
-            for (let y = minY; y < maxY; y += blockSize * 1.5) {
-                const block: blockGeometry.Block = {
-                    center: { x: x + blockSize / 2, y: y + blockSize / 2 },
-                    width: blockSize,
-                    height: blockSize,
-                    corners: [],
-                    curveRadius: curveRadius
-                };
-                
-                // Gerar polígono original (sem curvas)
-                const originalPolygon = blockGeometry.generateBasicBlockPolygon(block);
-                
-                // Gerar polígono com curvas
-                const curvedPolygon = blockGeometry.generateCurvedBlockPolygon(block);
-                
-                // Calcular diferença (áreas das esquinas)
-                const cornerAreas = blockGeometry.subtractPolygons(originalPolygon, curvedPolygon);
-                
-                // Desenhar o polígono curvo (quarteirão principal)
-                const curvedGraphics = drawPolygon(curvedPolygon, 0x4CAF50, 0.3); // Verde claro
-                if (blockOutlines.current) {
-                    blockOutlines.current.addChild(curvedGraphics);
-                }
-                
-                // Não desenhar as áreas das esquinas em cinza (apenas integramos na pista em outro ponto)
-                
-                // Desenhar contorno do polígono original para referência
-                // Contorno removido – somente área interna mostrada
-            }
-        }
-    };
-
     // Desenha uma "cápsula" arredondada (retângulo + semicículos nas extremidades) em coordenadas do mundo
     type CapStyle = 'round' | 'butt';
     const drawRoundedSegment = (segment: Segment, color?: number, width?: number, trimStart = 0, trimEnd = 0, capStart: CapStyle = 'round', capEnd: CapStyle = 'round') => {
@@ -1764,11 +2187,79 @@ const GameCanvas: React.FC<GameCanvasPropsInternal> = ({ interiorTexture, interi
         else try { tile.destroy({ texture: false, baseTexture: false }); } catch (e) {}
     };
 
+    /** Desenha a construção em dynamicDrawables (áreas verdes só ocupam espaço) */
+    const drawBuilding = (building: Building) => {
+        // Espaço verde (lote vazio): não desenhar, mas manter ocupação espacial
+        if ((building.type as any) === 'green') {
+            return;
+        }
+        const colorByType: Record<string, number> = {
+            house: 0xE0F7FA,
+            houseSmall: 0xD0F0F8,
+            houseHigh: 0xB3E5FC,
+            apartmentBlock: 0x90CAF9,
+            condoTower: 0x64B5F6,
+            school: 0xA5D6A7,
+            leisureArea: 0xAED581,
+            residential: 0x90CAF9,
+            commercial: 0xFFE082,
+            commercialMedium: 0xFFD54F,
+            commercialLarge: 0xFFB300,
+            kiosk: 0xFFF3E0,
+            shopSmall: 0xFFE0B2,
+            bakery: 0xFFD180,
+            restaurant: 0xFFCC80,
+            bar: 0xFFAB91,
+            pharmacy: 0xE6EE9C,
+            grocery: 0xDCEDC8,
+            supermarket: 0xFFB74D,
+            shoppingCenter: 0xFFA000,
+            cinema: 0x9FA8DA,
+            office: 0x81D4FA,
+            hotel: 0x80DEEA,
+            conventionCenter: 0x90CAF9,
+            parkingLot: 0xB0BEC5,
+            gasStation: 0xFF8A80,
+            bank: 0xFFE0B2,
+            clinic: 0xC5CAE9,
+            hospitalPrivate: 0x9FA8DA,
+            publicOffice: 0xB39DDB,
+            park: 0xC8E6C9,
+            church: 0xD1C4E9,
+            import: 0xCE93D8,
+            factory: 0xB39DDB,
+            warehouseSmall: 0xB0A8D9,
+            factoryMedium: 0x9E9DCD,
+            distributionCenter: 0x8C9ACD,
+            industrialComplex: 0x7E57C2,
+            workshop: 0xB388FF,
+            powerPlant: 0x5E35B1,
+            farm: 0x81C784,
+            farmhouse: 0xA5D6A7,
+            silo: 0xC5E1A5,
+            animalBarn: 0x9CCC65,
+            machineryShed: 0x8BC34A,
+            cooperative: 0x66BB6A,
+            field: 0xAED581,
+            pond: 0x4FC3F7,
+        };
+        const fill = colorByType[(building.type as any)] ?? 0x0C161F;
+        const g = new PIXI.Graphics().beginFill(fill).lineStyle(5, 0x555555, 0.7);
+        const c0 = worldToIso(building.corners[0]);
+        g.moveTo(c0.x, c0.y);
+        building.corners.slice(1).forEach(c => {
+            const p = worldToIso(c);
+            g.lineTo(p.x, p.y);
+        });
+        g.lineTo(c0.x, c0.y);
+        dynamicDrawables.current?.addChild(g);
+        state.buildingGraphics.set(building, g);
+    };
+
     const onMapChange = (rebuildBuildings: boolean = true) => {
     if (!dynamicDrawables.current || !debugMapData.current || !debugSegments.current || !roadOutlines.current || !intersectionPatches.current) return;
 
-    if (state.pathGraphics) state.pathGraphics.clear();
-    if (rebuildBuildings) dynamicDrawables.current.removeChildren();
+    if (rebuildBuildings) { dynamicDrawables.current.removeChildren(); state.buildingGraphics.clear(); }
     roadsFill.current?.removeChildren();
     // Limpar camada secundária (overlay) antes de redesenhar
     roadsSecondary.current?.removeChildren();
@@ -1786,7 +2277,7 @@ const GameCanvas: React.FC<GameCanvasPropsInternal> = ({ interiorTexture, interi
 
     let segments = MapStore.getSegments();
     const qTree = MapStore.getQTree() || null;
-        const heatmap = MapStore.getHeatmap();
+        const fields = MapStore.getFields();
     const debugData = MapStore.getDebugData();
 
     // Opcionalmente remover ruas de ponta solta (dead-ends) que não encostam na borda do mapa
@@ -1839,10 +2330,21 @@ const GameCanvas: React.FC<GameCanvasPropsInternal> = ({ interiorTexture, interi
 
     state.segments = filteredSegments;
     segments = filteredSegments;
+    // entidades foram recriadas: a seleção do inspetor deixa de valer
+    setInspected(null, null);
+    // snapshot carregado pode trazer outra pintura de zonas
+    if (rebuildBuildings) drawPaintOverlay();
+    // a rota por clique só continua valendo se todos os seus trechos seguem na malha
+    const liveSegments = new Set(filteredSegments);
+    const routeSegments = [state.routing.start?.o, state.routing.end?.o, ...(state.routing.route?.segments ?? [])];
+    if (routeSegments.some(s => s && !liveSegments.has(s))) clearRoute();
+    else drawRoute();
         state.qTree = qTree;
-    state.heatmap = heatmap || null;
-    // redesenhar heatmap sempre que o mapa muda
+        state.characterCollision = null;
+    state.fields = fields || null;
+    // redesenhar heatmap e terreno sempre que o mapa muda
         drawPopulationHeatmap();
+        drawTerrain();
         
         const R_SMALL = 6; // marcadores discretos
     debugData?.snaps?.forEach((point: Point) => {
@@ -1871,9 +2373,10 @@ const GameCanvas: React.FC<GameCanvasPropsInternal> = ({ interiorTexture, interi
 
             // Desenhar cada segmento como uma linha fina na sua cor original
             for (const segment of segments) {
-                const color = segment.q.color ?? (config as any).render.baseRoadColor ?? 0xA1AFA9;
+                const style = roadClassStyle(segment);
+                const color = segment.q.color ?? style.color;
                 const g = new PIXI.Graphics();
-                g.lineStyle(2, color, 1.0);
+                g.lineStyle(style.lineWidthPx, color, 1.0);
                 const p0 = worldToIso(segment.r.start);
                 const p1 = worldToIso(segment.r.end);
                 g.moveTo(p0.x, p0.y);
@@ -2126,442 +2629,18 @@ const GameCanvas: React.FC<GameCanvasPropsInternal> = ({ interiorTexture, interi
             }
         }
 
-        let buildings: Building[] = rebuildBuildings ? [] : dynamicDrawables.current ? [] : [];
-    if (rebuildBuildings) for (let i = 0; i < segments.length; i += 4) {
-            const segment = segments[i];
-            const zone = getZoneAt(segment.r.end);
-            const zc = (config as any).zones?.[zone] || {};
-            // Regra: não construir em quarteirões muito pequenos (< 100 m²)
-            const blockAreaEstimate = segment.width * (zc.blockLengthM ?? config.mapGeneration.DEFAULT_SEGMENT_LENGTH);
-            if (blockAreaEstimate < 100) {
-                continue;
-            }
-            // Densidade e raio de dispersão vindos do config para permitir ajuste via UI
-            const baseCount = zc.density ?? (zone === 'residential' ? 10 : 6);
-            const popLocal = state.heatmap ? state.heatmap.populationAt(segment.r.end.x, segment.r.end.y) : 0.5;
-            // Modular densidade por valor do heatmap (0..1) => 0.6x .. 1.6x
-            const densityMult = 0.6 + 1.0 * Math.max(0, Math.min(1, popLocal));
-            let count = Math.max(1, Math.round(baseCount * densityMult));
-            const radius = zc.scatterRadiusM ?? 420;
-            // Ajuste por cobertura alvo (aproxima % de área ocupada por quarteirão)
-            const w = segment.width;
-            const segArea = w * (zc.blockLengthM ?? config.mapGeneration.DEFAULT_SEGMENT_LENGTH);
-            const targetCoverage = zc.coverageTarget ?? 0;
-            if (targetCoverage > 0) {
-                // média de área por construção (aproxima pelas dimensões dos tipos com pesos do mix)
-                const mix = (zc.buildingMix || {}) as Record<string, number>;
-                    const dim = ((config as any).buildings as any).dimensions;
-                let avgArea = 0, sumP = 0;
-                Object.keys(mix).forEach(k => {
-                    const p = mix[k] || 0; sumP += p;
-                    const d = dim[k];
-                    if (d) avgArea += p * (d.width * d.depth);
-                });
-                if (sumP > 0) avgArea /= sumP; else avgArea = 120; // fallback ~ casa pequena
-                const targetCount = Math.max(1, Math.round((segArea * targetCoverage) / avgArea));
-                // suavizar para não oscilar muito
-                count = Math.max(1, Math.round(0.5 * count + 0.5 * targetCount));
-            }
-            const timeNow = new Date().getTime();
-            // Ajustar o mix de tipos pelo heatmap: áreas quentes => +comercial/+residencial; frias => +casa/+fazenda/+import
-            const baseMix = (zc.buildingMix || {}) as Record<string, number>;
-            const heat = Math.max(0, Math.min(1, popLocal));
-            const s = (heat - 0.5) * 2; // [-1,1]
-            const boostHigh: Record<string, number> = { 
-                commercial: 0.4, commercialMedium: 0.5, commercialLarge: 0.6,
-                kiosk: 0.25, shopSmall: 0.35, bakery: 0.3, bar: 0.32, pharmacy: 0.28, grocery: 0.34,
-                restaurant: 0.4, supermarket: 0.5, shoppingCenter: 0.65, cinema: 0.5,
-                office: 0.55, hotel: 0.45, parkingLot: 0.2, conventionCenter: 0.55,
-                gasStation: 0.2, bank: 0.3, clinic: 0.25, hospitalPrivate: 0.4, publicOffice: 0.25,
-                residential: 0.3, house: -0.4, houseSmall: -0.3, houseHigh: -0.2, apartmentBlock: 0.2, condoTower: 0.4,
-                school: 0.1, leisureArea: -0.1, import: -0.2, factory: -0.3, factoryMedium: -0.35, distributionCenter: -0.4,
-                industrialComplex: -0.45, powerPlant: -0.5, workshop: -0.2, warehouseSmall: -0.25,
-                farm: -0.6, farmhouse: -0.5, silo: -0.5, animalBarn: -0.5, machineryShed: -0.5, cooperative: -0.4, field: -0.6, pond: -0.3,
-                park: -0.2, green: -0.2, church: 0.0
-            } as any;
-            const boostLow: Record<string, number>  = { 
-                commercial: -0.3, commercialMedium: -0.35, commercialLarge: -0.5,
-                kiosk: -0.1, shopSmall: -0.15, bakery: -0.12, bar: -0.12, pharmacy: -0.1, grocery: -0.14,
-                restaurant: -0.15, supermarket: -0.25, shoppingCenter: -0.5, cinema: -0.3,
-                office: -0.35, hotel: -0.3, parkingLot: -0.1, conventionCenter: -0.45,
-                gasStation: -0.2, bank: -0.2, clinic: -0.1, hospitalPrivate: -0.35, publicOffice: -0.1,
-                residential: -0.2, house: 0.45, houseSmall: 0.4, houseHigh: 0.2, apartmentBlock: -0.1, condoTower: -0.4,
-                school: 0.15, leisureArea: 0.2, import: 0.2, factory: 0.3, factoryMedium: 0.35, distributionCenter: 0.4,
-                industrialComplex: 0.45, powerPlant: 0.5, workshop: 0.25, warehouseSmall: 0.2,
-                farm: 0.7, farmhouse: 0.6, silo: 0.5, animalBarn: 0.5, machineryShed: 0.5, cooperative: 0.4, field: 0.6, pond: 0.3,
-                park: 0.25, green: 0.35, church: 0.05
-            } as any;
-            const adj: Record<string, number> = {};
-            let keys = ['house','houseSmall','houseHigh','apartmentBlock','condoTower','school','leisureArea','residential','commercial','commercialMedium','commercialLarge','kiosk','shopSmall','bakery','bar','pharmacy','grocery','restaurant','supermarket','shoppingCenter','cinema','office','hotel','conventionCenter','parkingLot','gasStation','bank','clinic','hospitalPrivate','publicOffice','park','green','church','import','factory','factoryMedium','warehouseSmall','distributionCenter','industrialComplex','workshop','powerPlant','farm','farmhouse','silo','animalBarn','machineryShed','cooperative','field','pond'] as const;
-            // Filtrar por zona do segmento: evita prédios grandes em residencial
-            if (zc === (config as any).zones.residential) {
-                keys = ['houseSmall','house','houseHigh','apartmentBlock','school','leisureArea','park','green','church'] as any;
-            } else if (zc === (config as any).zones.commercial) {
-                keys = ['kiosk','shopSmall','bakery','bar','pharmacy','grocery','restaurant','supermarket','commercial','commercialMedium','bank','gasStation','office','hotel','parkingLot','cinema','clinic','hospitalPrivate','publicOffice','conventionCenter','park','houseSmall','house','apartmentBlock','residential'] as any;
-            } else if (zc === (config as any).zones.industrial) {
-                keys = ['workshop','warehouseSmall','factory','factoryMedium','distributionCenter','industrialComplex','powerPlant'] as any;
-            } else if (zc === (config as any).zones.rural) {
-                keys = ['field','farm','farmhouse','silo','animalBarn','machineryShed','cooperative','pond'] as any;
-            }
-            for (const k of keys) {
-                const base = baseMix[k] ?? 0;
-                const b = s >= 0 ? boostHigh[k] : boostLow[k];
-                const m = 1 + Math.abs(s) * b; // multiplicador
-                adj[k] = Math.max(0, base * m);
-            }
-            // Proibir parques apenas nas zonas industrial e rural
-            if (zone === 'industrial' || zone === 'rural') {
-                adj['park' as any] = 0;
-            }
-            // normalizar
-            let sum = 0; keys.forEach(k => sum += adj[k]);
-            if (sum <= 0) { keys.forEach(k => adj[k] = (k === 'house' ? 1 : 0)); sum = 1; }
-            keys.forEach(k => adj[k] /= sum);
-
-            const pickByAdjustedMix = () => {
-                let r = Math.random();
-                for (const k of keys) {
-                    const p = adj[k] || 0;
-                    if (r < p) {
-                        switch (k) {
-                            case 'kiosk': return buildingFactory.byType((BuildingType as any).KIOSK, timeNow);
-                            case 'house': return buildingFactory.byType(BuildingType.HOUSE, timeNow);
-                            case 'houseSmall': return buildingFactory.byType((BuildingType as any).HOUSE_SMALL, timeNow);
-                            case 'houseHigh': return buildingFactory.byType((BuildingType as any).HOUSE_HIGH, timeNow);
-                            case 'apartmentBlock': return buildingFactory.byType((BuildingType as any).APARTMENT_BLOCK, timeNow);
-                            case 'condoTower': return buildingFactory.byType((BuildingType as any).CONDO_TOWER, timeNow);
-                            case 'school': return buildingFactory.byType((BuildingType as any).SCHOOL, timeNow);
-                            case 'leisureArea': return buildingFactory.byType((BuildingType as any).LEISURE, timeNow);
-                            case 'residential': return buildingFactory.byType(BuildingType.RESIDENTIAL, timeNow);
-                            case 'commercial': return buildingFactory.byType(BuildingType.COMMERCIAL, timeNow);
-                            case 'commercialMedium': return buildingFactory.byType((BuildingType as any).COMMERCIAL_MEDIUM, timeNow);
-                            case 'commercialLarge': return buildingFactory.byType((BuildingType as any).COMMERCIAL_LARGE, timeNow);
-                            case 'bakery': return buildingFactory.byType((BuildingType as any).BAKERY, timeNow);
-                            case 'shopSmall': return buildingFactory.byType((BuildingType as any).SHOP_SMALL, timeNow);
-                            case 'restaurant': return buildingFactory.byType((BuildingType as any).RESTAURANT, timeNow);
-                            case 'bar': return buildingFactory.byType((BuildingType as any).BAR, timeNow);
-                            case 'pharmacy': return buildingFactory.byType((BuildingType as any).PHARMACY, timeNow);
-                            case 'grocery': return buildingFactory.byType((BuildingType as any).GROCERY, timeNow);
-                            case 'supermarket': return buildingFactory.byType((BuildingType as any).SUPERMARKET, timeNow);
-                            case 'shoppingCenter': return buildingFactory.byType((BuildingType as any).SHOPPING_CENTER, timeNow);
-                            case 'cinema': return buildingFactory.byType((BuildingType as any).CINEMA, timeNow);
-                            case 'office': return buildingFactory.byType((BuildingType as any).OFFICE, timeNow);
-                            case 'hotel': return buildingFactory.byType((BuildingType as any).HOTEL, timeNow);
-                            case 'conventionCenter': return buildingFactory.byType((BuildingType as any).CONVENTION_CENTER, timeNow);
-                            case 'parkingLot': return buildingFactory.byType((BuildingType as any).PARKING, timeNow);
-                            case 'gasStation': return buildingFactory.byType((BuildingType as any).GAS_STATION, timeNow);
-                            case 'bank': return buildingFactory.byType((BuildingType as any).BANK, timeNow);
-                            case 'clinic': return buildingFactory.byType((BuildingType as any).CLINIC, timeNow);
-                            case 'hospitalPrivate': return buildingFactory.byType((BuildingType as any).HOSPITAL_PRIVATE, timeNow);
-                            case 'publicOffice': return buildingFactory.byType((BuildingType as any).PUBLIC_OFFICE, timeNow);
-                            case 'park': return buildingFactory.byType((BuildingType as any).PARK, timeNow);
-                            case 'green': return buildingFactory.byType((BuildingType as any).GREEN, timeNow);
-                            case 'church': return buildingFactory.byType((BuildingType as any).CHURCH, timeNow);
-                            case 'import': return buildingFactory.byType(BuildingType.IMPORT, timeNow);
-                            case 'factory': return buildingFactory.byType((BuildingType as any).FACTORY, timeNow);
-                            case 'factoryMedium': return buildingFactory.byType((BuildingType as any).FACTORY_MEDIUM, timeNow);
-                            case 'warehouseSmall': return buildingFactory.byType((BuildingType as any).WAREHOUSE_SMALL, timeNow);
-                            case 'distributionCenter': return buildingFactory.byType((BuildingType as any).DISTRIBUTION_CENTER, timeNow);
-                            case 'industrialComplex': return buildingFactory.byType((BuildingType as any).INDUSTRIAL_COMPLEX, timeNow);
-                            case 'workshop': return buildingFactory.byType((BuildingType as any).WORKSHOP, timeNow);
-                            case 'powerPlant': return buildingFactory.byType((BuildingType as any).POWER_PLANT, timeNow);
-                            case 'farm': return buildingFactory.byType(BuildingType.FARM, timeNow);
-                            case 'farmhouse': return buildingFactory.byType((BuildingType as any).FARMHOUSE, timeNow);
-                            case 'silo': return buildingFactory.byType((BuildingType as any).SILO, timeNow);
-                            case 'animalBarn': return buildingFactory.byType((BuildingType as any).ANIMAL_BARN, timeNow);
-                            case 'machineryShed': return buildingFactory.byType((BuildingType as any).MACHINERY_SHED, timeNow);
-                            case 'cooperative': return buildingFactory.byType((BuildingType as any).COOPERATIVE, timeNow);
-                            case 'field': return buildingFactory.byType((BuildingType as any).FIELD, timeNow);
-                            case 'pond': return buildingFactory.byType((BuildingType as any).POND, timeNow);
-                        }
-                    }
-                    r -= p;
-                }
-                return buildingFactory.byType(BuildingType.HOUSE, timeNow);
-            };
-            // Para zonas residenciais, preferir lotes alinhados ao longo da rua (organização tipo quarteirão)
-            let newBuildings: Building[] = [];
-            if (zone === 'residential') {
-                const margin = Math.max(8, (zc.blockLengthM ?? config.mapGeneration.DEFAULT_SEGMENT_LENGTH) * 0.1);
-                const len = Math.hypot(segment.r.end.x - segment.r.start.x, segment.r.end.y - segment.r.start.y);
-                const segArea = segment.width * (zc.blockLengthM ?? config.mapGeneration.DEFAULT_SEGMENT_LENGTH);
-                const targetCoverage = Math.max(0, Math.min(0.9, zc.coverageTarget ?? 0.3));
-                    const houseDim = ((config as any).buildings as any).dimensions.house;
-                const avgArea = (houseDim.width * houseDim.depth) || 120;
-                const targetCount = Math.max(2, Math.round((segArea * targetCoverage) / avgArea));
-                const perSide = Math.max(1, Math.ceil(targetCount / 2));
-                const useful = Math.max(10, len - 2 * margin);
-                const rawSpacing = useful / perSide;
-                // Se houver configuração de lote, priorizar a frente (larguraM do lote) como espaçamento realista
-                const lot = (zc.lot || {}) as any;
-                const lotFront = Math.max(8, Math.min(22, lot.widthM ?? rawSpacing));
-                const spacingM = Math.max(8, Math.min(24, lotFront)); // permitir adensar mais
-                const frontSetback = Math.max(4, Math.min(9, lot.frontSetbackM ?? 6));
-                // Exigir que exista espaço útil para pelo menos meia vaga em cada extremidade
-                const cornerBuffer = Math.max(spacingM * 0.5, lotFront * 0.5, 6) + 4;
-                // Variedade com gradiente: mais verticais perto do centro (popLocal alto)
-                const pickResidentialVariety = () => {
-                    const dens = Math.max(0, Math.min(1, popLocal)); // 0..1
-                    // Pesos baseados na densidade local
-                    const wHouseSmall = (1 - dens) * 0.28 + dens * 0.14;
-                    const wHouse      = (1 - dens) * 0.62 + dens * 0.46;
-                    const wHouseHigh  = (1 - dens) * 0.06 + dens * 0.12;
-                    const wApt        = (1 - dens) * 0.08 + dens * 0.24;
-                    const wCondo      = (1 - dens) * 0.00 + dens * 0.03;
-                    const wSchool     = (1 - dens) * 0.02 + dens * 0.015;
-                    const wLeisure    = (1 - dens) * 0.02 + dens * 0.01;
-                    const wChurch     = (1 - dens) * 0.02 + dens * 0.005;
-                    let sum = wHouseSmall + wHouse + wHouseHigh + wApt + wCondo + wSchool + wLeisure + wChurch;
-                    if (sum <= 0) sum = 1;
-                    let r = Math.random() * sum;
-                    if ((r -= wHouseSmall) < 0) return buildingFactory.byType((BuildingType as any).HOUSE_SMALL, timeNow);
-                    if ((r -= wHouse) < 0) return buildingFactory.byType(BuildingType.HOUSE, timeNow);
-                    if ((r -= wHouseHigh) < 0) return buildingFactory.byType((BuildingType as any).HOUSE_HIGH, timeNow);
-                    if ((r -= wApt) < 0) return buildingFactory.byType((BuildingType as any).APARTMENT_BLOCK, timeNow);
-                    if ((r -= wCondo) < 0) return buildingFactory.byType((BuildingType as any).CONDO_TOWER, timeNow);
-                    if ((r -= wSchool) < 0) return buildingFactory.byType((BuildingType as any).SCHOOL, timeNow);
-                    if ((r -= wLeisure) < 0) return buildingFactory.byType((BuildingType as any).LEISURE, timeNow);
-                    return buildingFactory.byType((BuildingType as any).CHURCH, timeNow);
-                };
-                const opts = {
-                    marginM: Math.max(margin, cornerBuffer),
-                    spacingM,
-                    setbackM: frontSetback,
-                    sideSetbackM: Math.max(1.5, Math.min(4, (zc.lot?.sideSetbackM ?? 2))),
-                    sideJitterM: 0.25,
-                    alongJitterM: 0.15,
-                    // centralizar as fileiras: começar no meio do espaço útil menos meio passo
-                    startOffsetM: Math.max(0, (useful % spacingM) * 0.5),
-                    staggerOppositeSide: true,
-                    placeBothSides: true,
-                };
-                newBuildings = buildingFactory.lotsAlongSegment(pickResidentialVariety, segment, qTree!, opts, getZoneAt, timeNow);
-            } else if (zone === 'commercial') {
-                const len = Math.hypot(segment.r.end.x - segment.r.start.x, segment.r.end.y - segment.r.start.y);
-                // Picker com variedade (sem comerciais gigantes nas fileiras)
-                const pickCommercialVariety = () => {
-                    const r = Math.random();
-                    if (r < 0.06) return buildingFactory.byType((BuildingType as any).KIOSK, timeNow);
-                    if (r < 0.12) return buildingFactory.byType((BuildingType as any).SHOP_SMALL, timeNow);
-                    if (r < 0.18) return buildingFactory.byType((BuildingType as any).BAKERY, timeNow);
-                    if (r < 0.24) return buildingFactory.byType((BuildingType as any).BAR, timeNow);
-                    if (r < 0.29) return buildingFactory.byType((BuildingType as any).PHARMACY, timeNow);
-                    if (r < 0.37) return buildingFactory.byType((BuildingType as any).GROCERY, timeNow);
-                    if (r < 0.47) return buildingFactory.byType((BuildingType as any).RESTAURANT, timeNow);
-                    if (r < 0.55) return buildingFactory.byType((BuildingType as any).SUPERMARKET, timeNow);
-                    if (r < 0.60) return buildingFactory.byType((BuildingType as any).COMMERCIAL, timeNow);
-                    if (r < 0.68) return buildingFactory.byType((BuildingType as any).COMMERCIAL_MEDIUM, timeNow);
-                    if (r < 0.74) return buildingFactory.byType((BuildingType as any).OFFICE, timeNow);
-                    if (r < 0.77) return buildingFactory.byType((BuildingType as any).HOTEL, timeNow);
-                    if (r < 0.83) return buildingFactory.byType((BuildingType as any).PARKING, timeNow);
-                    if (r < 0.86) return buildingFactory.byType((BuildingType as any).BANK, timeNow);
-                    if (r < 0.89) return buildingFactory.byType((BuildingType as any).CLINIC, timeNow);
-                    if (r < 0.91) return buildingFactory.byType((BuildingType as any).CINEMA, timeNow);
-                    if (r < 0.93) return buildingFactory.byType((BuildingType as any).PUBLIC_OFFICE, timeNow);
-                    if (r < 0.94) return buildingFactory.byType((BuildingType as any).CONVENTION_CENTER, timeNow);
-                    if (r < 0.96) return buildingFactory.byType((BuildingType as any).PARK, timeNow); // pequena presença de parques na comercial
-                    // Pequena presença residencial em zona comercial (misto), mantendo foco em comércio
-                    if (r < 0.972) return buildingFactory.byType((BuildingType as any).HOUSE_SMALL, timeNow);
-                    if (r < 0.985) return buildingFactory.byType((BuildingType as any).HOUSE, timeNow);
-                    if (r < 0.992) return buildingFactory.byType((BuildingType as any).APARTMENT_BLOCK, timeNow);
-                    if (r < 0.996) return buildingFactory.byType((BuildingType as any).RESIDENTIAL, timeNow);
-                    return buildingFactory.byType((BuildingType as any).GAS_STATION, timeNow);
-                };
-                const baseSpacing = 24; // mais denso; ainda comporta tipos médios
-                const margin = Math.max(10, baseSpacing * 0.6) + 4;
-                const opts = {
-                    marginM: margin,
-                    spacingM: baseSpacing,
-                    setbackM: 2,
-                    sideSetbackM: 1.5,
-                    sideJitterM: 0.2,
-                    alongJitterM: 0.1,
-                    startOffsetM: Math.max(0, (len - 2 * margin) % baseSpacing * 0.5),
-                    staggerOppositeSide: false,
-                    placeBothSides: true,
-                };
-                newBuildings = buildingFactory.lotsAlongSegment(pickCommercialVariety, segment, qTree!, opts, getZoneAt, timeNow);
-            } else {
-                newBuildings = buildingFactory.aroundSegment(
-                    pickByAdjustedMix,
-                    segment, count, radius, qTree!, getZoneAt, timeNow
-                );
-            }
-            newBuildings.forEach(b => qTree!.insert(b.collider.limits()));
-            buildings = buildings.concat(newBuildings);
+        // Quarteirões exatos (faces do grafo viário), usados no parcelamento, exportação e consultas
+        if (rebuildBuildings) state.blocks = blockGeometry.extractBlocks(segments, zoneOnMap);
+        // Mesma seed => mesmas construções (fluxo derivado da seed do mapa); snapshot carregado traz as suas
+        const buildings: Building[] = !rebuildBuildings ? []
+            : (MapStore.getBuildings() ?? placeBuildings(segments, qTree!, fields!, { ...generationOptions(), rng: buildingsRNG(MapStore.getSeed()) }, state.blocks));
+        if (rebuildBuildings) {
+            state.buildings = buildings;
+            state.characterCollision = null;
+            resetTraffic(segments, buildings, qTree);
         }
 
-        // Passada final: remover quaisquer colisões residuais entre construções
-        const resolved: Building[] = [];
-        outer: for (const b of buildings) {
-            for (const o of resolved) {
-                if (b.collider.collide(o.collider)) {
-                    continue outer; // descarta b em caso de conflito
-                }
-            }
-            resolved.push(b);
-        }
-        buildings = resolved;
-
-        // Garante pelo menos uma construção próxima a ruas sem saída (cul-de-sac)
-        try {
-            const deadEndNodes = Object.values(nodeMapForTrim).filter(n => n.entries.length === 1);
-            const nearRadius = 80; // m: raio para considerar "próximo ao fim"
-            const nearR2 = nearRadius * nearRadius;
-            const timeNow2 = new Date().getTime();
-            const setbackByZone: Record<string, number> = { downtown: 2, commercial: 2, industrial: 4, rural: 6, residential: 6 } as any;
-
-            const hasBuildingNear = (p: Point) => buildings.some(b => {
-                const dx = b.center.x - p.x; const dy = b.center.y - p.y; return dx*dx + dy*dy <= nearR2;
-            });
-
-            for (const node of deadEndNodes) {
-                const P: Point = node.P;
-                if (hasBuildingNear(P)) continue;
-                const entry = node.entries[0];
-                const seg = entry.seg;
-                // direção para "dentro" da rua (afastando do fim sem saída)
-                const dirVec = entry.atStart
-                    ? { x: seg.r.end.x - seg.r.start.x, y: seg.r.end.y - seg.r.start.y }
-                    : { x: seg.r.start.x - seg.r.end.x, y: seg.r.start.y - seg.r.end.y };
-                const L = Math.hypot(dirVec.x, dirVec.y) || 1;
-                const ux = dirVec.x / L, uy = dirVec.y / L;
-                const nx = -uy, ny = ux;
-                const w = seg.width;
-                const zone = getZoneAt(P) as any;
-                const baseSetback = (setbackByZone as any)[zone] ?? 4;
-
-                // Escolher um tipo pequeno por zona para caber mais fácil
-                const pickSmallByZone = () => {
-                    const BT: any = BuildingType as any;
-                    switch (zone) {
-                        case 'residential': return buildingFactory.byType(BT.HOUSE_SMALL, timeNow2);
-                        case 'commercial': return buildingFactory.byType(BT.KIOSK, timeNow2);
-                        case 'industrial': return buildingFactory.byType(BT.WORKSHOP, timeNow2);
-                        case 'rural': return buildingFactory.byType(BT.FARMHOUSE, timeNow2);
-                        case 'downtown': default: return buildingFactory.byType(BT.SHOP_SMALL, timeNow2);
-                    }
-                };
-
-                // ponto base alguns metros para dentro da rua a partir do fim
-                const margin = Math.max(14, w * 0.6 + 4) + 4;
-                const base: Point = { x: P.x + ux * margin, y: P.y + uy * margin };
-
-                const tryPlace = (): Building | null => {
-                    // tenta alguns tipos pequenos antes de desistir
-                    const templates = [pickSmallByZone(), buildingFactory.fromZone(zone, timeNow2)];
-                    for (const tmpl of templates) {
-                        // clonar building template em uma instância nova simples
-                        const b = buildingFactory.byType((tmpl.type as any), timeNow2);
-                        b.setDir(seg.dir());
-                        const halfAcross = b.diagonal * Math.sin(Math.PI * (b.aspectDegree / 180));
-                        const off = (w / 2) + baseSetback + Math.max(2, halfAcross);
-                        const alongStep = Math.max(6, (2 * b.diagonal * Math.cos(Math.PI * (b.aspectDegree / 180))) * 0.6);
-                        const slideK = [0, 1, -1, 2, -2];
-                        const sides: (1|-1)[] = [+1, -1];
-                        for (const side of sides) {
-                            for (const k of slideK) {
-                                const px = base.x + ux * (alongStep * k);
-                                const py = base.y + uy * (alongStep * k);
-                                const cx = px + nx * off * side;
-                                const cy = py + ny * off * side;
-                                b.setCenter({ x: cx, y: cy });
-                                // colisão simples com quadtree + locais
-                                let collisions = 0;
-                                const bounds = b.collider.limits();
-                                const cands: any[] = qTree!.retrieve(bounds);
-                                const locals = buildings.filter(ob => {
-                                    const lim = ob.collider.limits();
-                                    return !(lim.x + lim.width < bounds.x || bounds.x + bounds.width < lim.x || lim.y + lim.height < bounds.y || bounds.y + bounds.height < lim.y);
-                                });
-                                for (const obj of [...cands, ...locals]) {
-                                    const other = (obj as any).o || obj;
-                                    if (other === b) continue;
-                                    if (b.collider.collide(other.collider)) { collisions++; break; }
-                                }
-                                if (collisions === 0) {
-                                    return b;
-                                }
-                            }
-                        }
-                    }
-                    return null;
-                };
-
-                const placed = tryPlace();
-                if (placed) {
-                    buildings.push(placed);
-                    qTree!.insert(placed.collider.limits());
-                }
-            }
-        } catch {}
-
-    if (rebuildBuildings) buildings.forEach(building => {
-            // Espaço verde (lote vazio): não desenhar, mas manter ocupação espacial
-            if ((building.type as any) === 'green') {
-                return;
-            }
-            const colorByType: Record<string, number> = {
-                house: 0xE0F7FA,
-                houseSmall: 0xD0F0F8,
-                houseHigh: 0xB3E5FC,
-                apartmentBlock: 0x90CAF9,
-                condoTower: 0x64B5F6,
-                school: 0xA5D6A7,
-                leisureArea: 0xAED581,
-                residential: 0x90CAF9,
-                commercial: 0xFFE082,
-                commercialMedium: 0xFFD54F,
-                commercialLarge: 0xFFB300,
-                kiosk: 0xFFF3E0,
-                shopSmall: 0xFFE0B2,
-                bakery: 0xFFD180,
-                restaurant: 0xFFCC80,
-                bar: 0xFFAB91,
-                pharmacy: 0xE6EE9C,
-                grocery: 0xDCEDC8,
-                supermarket: 0xFFB74D,
-                shoppingCenter: 0xFFA000,
-                cinema: 0x9FA8DA,
-                office: 0x81D4FA,
-                hotel: 0x80DEEA,
-                conventionCenter: 0x90CAF9,
-                parkingLot: 0xB0BEC5,
-                gasStation: 0xFF8A80,
-                bank: 0xFFE0B2,
-                clinic: 0xC5CAE9,
-                hospitalPrivate: 0x9FA8DA,
-                publicOffice: 0xB39DDB,
-                park: 0xC8E6C9,
-                church: 0xD1C4E9,
-                import: 0xCE93D8,
-                factory: 0xB39DDB,
-                warehouseSmall: 0xB0A8D9,
-                factoryMedium: 0x9E9DCD,
-                distributionCenter: 0x8C9ACD,
-                industrialComplex: 0x7E57C2,
-                workshop: 0xB388FF,
-                powerPlant: 0x5E35B1,
-                farm: 0x81C784,
-                farmhouse: 0xA5D6A7,
-                silo: 0xC5E1A5,
-                animalBarn: 0x9CCC65,
-                machineryShed: 0x8BC34A,
-                cooperative: 0x66BB6A,
-                field: 0xAED581,
-                pond: 0x4FC3F7,
-            };
-            const fill = colorByType[(building.type as any)] ?? 0x0C161F;
-            const g = new PIXI.Graphics().beginFill(fill).lineStyle(5, 0x555555, 0.7);
-            const c0 = worldToIso(building.corners[0]);
-            g.moveTo(c0.x, c0.y);
-            building.corners.slice(1).forEach(c => {
-                const p = worldToIso(c);
-                g.lineTo(p.x, p.y);
-            });
-            g.lineTo(c0.x, c0.y);
-            dynamicDrawables.current?.addChild(g);
-        });
+    if (rebuildBuildings) buildings.forEach(drawBuilding);
 
     // Removido overlay de zonas em tiles (agora usamos canvas overlay Perlin)
 
@@ -2573,18 +2652,21 @@ const GameCanvas: React.FC<GameCanvasPropsInternal> = ({ interiorTexture, interi
                 const radiusFactor = (config as any).render.sharpAngleRadiusFactor || 2.0;
                 // Retângulos (trim)
                 segments.forEach(segment => {
+                    if (segment.level < 0) return; // túneis: camada própria, abaixo do solo
                     const tr = trimMap.get(segment) || { start: 0, end: 0 };
-                    container.addChild(drawRoundedSegment(segment, (config as any).render.baseRoadColor ?? 0xA1AFA9, segment.width, tr.start, tr.end, 'butt', 'butt'));
+                    container.addChild(drawRoundedSegment(segment, roadClassStyle(segment).color, segment.width, tr.start, tr.end, 'butt', 'butt'));
                 });
                 // Do not add fillet/dia mond shapes into the fill — draw only rounded segments.
                 // This avoids creating the 'cross' shaped diamonds at intersections.
                 roadsFill.current?.addChild(container);
             } else {
                 segments.forEach(segment => {
+                    if (segment.level < 0) return; // túneis: camada própria, abaixo do solo
                     const tr = trimMap.get(segment) || { start: 0, end: 0 };
-                    roadsFill.current?.addChild(drawRoundedSegment(segment, (config as any).render.baseRoadColor ?? 0xA1AFA9, segment.width, tr.start, tr.end, 'butt', 'butt'));
+                    roadsFill.current?.addChild(drawRoundedSegment(segment, roadClassStyle(segment).color, segment.width, tr.start, tr.end, 'butt', 'butt'));
                 });
             }
+        drawGradeSeparatedRoads(segments);
         // Desenhar camada secundária de vias (overlay) se habilitada
         drawSecondaryRoadLayer(segments);
         // Aplicar overlay de faixas nas vias se houver textura definida
@@ -2874,55 +2956,15 @@ const GameCanvas: React.FC<GameCanvasPropsInternal> = ({ interiorTexture, interi
             const CLIP_SCALE = (config as any).render.clipperScale ?? 100;
             const showOnlyInteriors = !!(config as any).render.showOnlyBlockInteriors;
 
-            // 1. Converter todos os segmentos de via em polígonos para o Clipper
-            const roadPolygons = segments.map(segment => {
-                const w = segment.width;
-                const r = w / 2;
-                const sW = segment.r.start;
-                const eW = segment.r.end;
-                const vx = eW.x - sW.x, vy = eW.y - sW.y;
-                const len = Math.hypot(vx, vy) || 1;
-                const ux = vx / len, uy = vy / len;
-                const nx = -uy, ny = ux; // normal
-
-                const p1 = { x: sW.x + nx * r, y: sW.y + ny * r };
-                const p2 = { x: sW.x - nx * r, y: sW.y - ny * r };
-                const p3 = { x: eW.x - nx * r, y: eW.y - ny * r };
-                const p4 = { x: eW.x + nx * r, y: eW.y + ny * r };
-
-                return [
-                    { X: p1.x * CLIP_SCALE, Y: p1.y * CLIP_SCALE },
-                    { X: p4.x * CLIP_SCALE, Y: p4.y * CLIP_SCALE },
-                    { X: p3.x * CLIP_SCALE, Y: p3.y * CLIP_SCALE },
-                    { X: p2.x * CLIP_SCALE, Y: p2.y * CLIP_SCALE },
-                ];
-            });
-
-            // 2. Unir todos os polígonos de via em uma PolyTree.
-            // A PolyTree nos dará a hierarquia de polígonos, permitindo identificar os buracos (quarteirões).
-            const cpr = new ClipperLib.Clipper();
-            const unionPolyTree = new ClipperLib.PolyTree();
-            cpr.AddPaths(roadPolygons, ClipperLib.PolyType.ptSubject, true);
-            cpr.Execute(ClipperLib.ClipType.ctUnion, unionPolyTree, ClipperLib.PolyFillType.pftNonZero, ClipperLib.PolyFillType.pftNonZero);
-
-            // 3. Extrair os "buracos" da PolyTree. Estes são os nossos quarteirões.
-            const blockPaths = new ClipperLib.Paths();
-            const topNodes = unionPolyTree.Childs();
-            for (const topNode of topNodes) {
-                // Os filhos diretos da união são os contornos externos das redes de ruas.
-                // Os filhos DESTES nós (netos da raiz) são os buracos que queremos.
-                const holeNodes = topNode.Childs();
-                for (const holeNode of holeNodes) {
-                    if (holeNode.IsHole()) {
-                        blockPaths.push(holeNode.Contour());
-                    }
-                }
-            }
-            
+            // Unir os polígonos das vias; os buracos da união são os quarteirões
+            const unionPolyTree = roadUnionTree(segments, CLIP_SCALE);
+            const blockPaths = roadBlockPaths(unionPolyTree);
             const insideBlocks = blockPaths;
             const cornerRadiusM = Math.max(0, (config as any).render.blockCornerRadiusM ?? 0);
             const roundedBlocks = computeRoundedBlockPolygons(insideBlocks, cornerRadiusM, CLIP_SCALE);
             const blockWorldPaths = roundedBlocks.world;
+            state.blockEdgePaths = blockWorldPaths;
+            state.characterCollision = null;
             const blockClipperPaths = roundedBlocks.clipper;
 
             // Se o modo "apenas interiores" estiver ativo, desenhe-os com um recuo e retorne.
@@ -3110,10 +3152,9 @@ const GameCanvas: React.FC<GameCanvasPropsInternal> = ({ interiorTexture, interi
                         if (!!vCfg.sidewalkVectorTilesEnabled) {
                             const centroid = polygonCentroid(worldPts);
                             let inside = true;
-                            if (state.heatmap && centroid) {
-                                const c = (config as any).zoningModel.cityCenter;
-                                const R = Math.max(200, (state.heatmap as any).rUnit || 3000);
-                                inside = Math.hypot(centroid.x - c.x, centroid.y - c.y) <= R;
+                            if (state.fields && centroid) {
+                                const R = Math.max(200, state.fields.heatmap.rUnit || 3000);
+                                inside = centerDistance(centroid, config.zoningModel, 4 * R) <= R;
                             }
                             if (inside) {
                                 const widthM = Math.max(0.25, Number(vCfg.sidewalkWidthM ?? 2.0));
@@ -3706,6 +3747,26 @@ const GameCanvas: React.FC<GameCanvasPropsInternal> = ({ interiorTexture, interi
         try { console.debug('[GameCanvas] onMapChange done: overlays children counts -> edge=', edgeOverlay.current?.children.length, 'lanes=', roadLaneOverlay.current?.children.length); } catch (e) {}
     };
 
+    /**
+     * Edição manual de vias (MapStore já alterou a malha): tira só as construções atingidas pelas vias
+     * novas/deslocadas, refaz quarteirões e tráfego e redesenha as vias sem reposicionar construções.
+     */
+    const onRoadEdit = (edit: RoadEditResult) => {
+        const hit = new Set(buildingsOnRoads([...edit.added, ...edit.changed], state.qTree));
+        hit.forEach(b => {
+            state.qTree?.remove(b.collider.limits(), b);
+            const g = state.buildingGraphics.get(b);
+            if (g) { g.parent?.removeChild(g); g.destroy(); }
+            state.buildingGraphics.delete(b);
+        });
+        if (hit.size) state.buildings = state.buildings.filter(b => !hit.has(b));
+        onMapChange(false);
+        state.blocks = blockGeometry.extractBlocks(state.segments, zoneOnMap);
+        state.characterCollision = null;
+        resetTraffic(state.segments, state.buildings, state.qTree);
+        drawEditPreview();
+    };
+
     // Re-draw map when the supplied interiorTexture prop changes so uploaded textures take effect.
     React.useEffect(() => {
         try {
@@ -3748,6 +3809,7 @@ const GameCanvas: React.FC<GameCanvasPropsInternal> = ({ interiorTexture, interi
 
     useEffect(() => {
         MapStore.addChangeListener(() => onMapChange(true));
+        MapStore.addEditListener(onRoadEdit);
         if ((config as any).render.autoGenerateOnLoad) {
             const seed = new Date().getTime();
             console.log(`[autoGenerate] seed: ${seed}`);
@@ -3784,6 +3846,38 @@ const GameCanvas: React.FC<GameCanvasPropsInternal> = ({ interiorTexture, interi
         window.addEventListener('noise-overlay-outline-change', onNoiseOutlineToggle as EventListener);
         window.addEventListener('cracked-roads-config-change', onCrackedConfigChange as EventListener);
 
+        // Exportar a cidade exibida (vias, quarteirões, construções e zonas) como GeoJSON em metros
+        const onExportGeoJSON = () => {
+            const seed = MapStore.getSeed();
+            const fields = MapStore.getFields();
+            if (!fields) return;
+            const data = toCityData(seed, state.segments, state.blocks, state.buildings, fields.zoning);
+            downloadText(`citygen-${seed}.geojson`, JSON.stringify(cityToGeoJSON(data)), 'application/geo+json');
+        };
+        window.addEventListener('city-export-geojson', onExportGeoJSON as EventListener);
+
+        // Exportar a matriz origem–destino (viagens/dia entre construções) como CSV
+        const onExportOD = () => {
+            const seed = MapStore.getSeed();
+            const matrix = state.trips ?? generateTrips(state.buildings);
+            downloadText(`citygen-${seed}-od.csv`, odToCSV(matrix), 'text/csv');
+        };
+        window.addEventListener('city-export-od', onExportOD as EventListener);
+        const onRoadToolChange = () => cancelEdit();
+        window.addEventListener('road-tool-change', onRoadToolChange as EventListener);
+        const onZonePaintClear = () => clearPaint();
+        window.addEventListener('zone-paint-clear', onZonePaintClear as EventListener);
+
+        // Salvar snapshot versionado (malha com topologia, zoneamento, construções e render)
+        const onSaveSnapshot = () => {
+            const seed = MapStore.getSeed();
+            const fields = MapStore.getFields();
+            if (!fields) return;
+            const snap = createSnapshot(seed, MapStore.getSegments(), state.buildings, fields);
+            downloadText(`citygen-${seed}.citygen.json`, JSON.stringify(snap), 'application/json');
+        };
+        window.addEventListener('city-save-snapshot', onSaveSnapshot as EventListener);
+
         const handleResize = () => {
             if (!canvasContainerRef.current) return;
             const { offsetWidth, offsetHeight } = canvasContainerRef.current;
@@ -3814,6 +3908,23 @@ const GameCanvas: React.FC<GameCanvasPropsInternal> = ({ interiorTexture, interi
 
     stage.current = new PIXI.Container();
     heatmaps.current = new PIXI.Container();
+    terrainLayer.current = new PIXI.Container();
+    // terreno abaixo de tudo (preenchimento das ruas tem zIndex 10)
+    terrainLayer.current.zIndex = 0;
+    // túneis logo acima do terreno e abaixo das ruas; pontes acima das bordas/overlays e abaixo do personagem
+    tunnelRoads.current = new PIXI.Container();
+    tunnelRoads.current.zIndex = 5;
+    bridgeDecks.current = new PIXI.Container();
+    bridgeDecks.current.zIndex = 300;
+    trafficLayer.current = new PIXI.Container();
+    trafficLayer.current.zIndex = 350;
+    // rota por clique acima dos carros e abaixo do personagem
+    routeLayer.current = new PIXI.Container();
+    routeLayer.current.zIndex = 360;
+    inspectLayer.current = new PIXI.Container();
+    inspectLayer.current.zIndex = 370;
+    editLayer.current = new PIXI.Container();
+    editLayer.current.zIndex = 380;
     // Garantir que o heatmap renderize acima do preenchimento das ruas, mas abaixo dos contornos
     (heatmaps.current as any).zIndex = 25;
     debugDrawables.current = new PIXI.Container();
@@ -3886,6 +3997,13 @@ const GameCanvas: React.FC<GameCanvasPropsInternal> = ({ interiorTexture, interi
     // visibilidade inicial dos marcadores/junções
     debugMapData.current.visible = (config as any).render.showJunctionMarkers;
     // Inserir heatmaps e confiar no zIndex para ordenar
+    drawables.current.addChild(terrainLayer.current);
+    drawables.current.addChild(tunnelRoads.current);
+    drawables.current.addChild(bridgeDecks.current);
+    drawables.current.addChild(trafficLayer.current);
+    drawables.current.addChild(routeLayer.current);
+    drawables.current.addChild(inspectLayer.current);
+    drawables.current.addChild(editLayer.current);
     drawables.current.addChild(heatmaps.current);
     // ruas (preenchimento) abaixo de prédios e contornos
     drawables.current.addChild(roadsFill.current);
@@ -3947,6 +4065,7 @@ const GameCanvas: React.FC<GameCanvasPropsInternal> = ({ interiorTexture, interi
             if (k === 'arrowup' || k === 'arrowdown' || k === 'arrowleft' || k === 'arrowright' || k === ' ' || k === 'w' || k === 'a' || k === 's' || k === 'd') {
                 e.preventDefault();
             }
+            if (k === 'escape') { clearRoute(); cancelEdit(); }
             if (k === 'n') {
                 // Toggle overlay via teclado
                 NoiseZoning.setEnabled?.(!NoiseZoning.enabled);
@@ -3962,6 +4081,149 @@ const GameCanvas: React.FC<GameCanvasPropsInternal> = ({ interiorTexture, interi
         window.addEventListener('keydown', onKeyDown, { passive: false });
         window.addEventListener('keyup', onKeyUp, { passive: true });
 
+        // Ponteiro: arrastar desloca a câmera (câmera livre), dois dedos fazem pinça, clique sem arraste
+        // escolhe origem/destino da rota (botão esquerdo); botão direito limpa a rota.
+        // Com uma ferramenta de edição ativa o clique edita a malha e, em 'drag', arrastar um nó move a interseção
+        const pointers = new Map<number, { x: number; y: number; downX: number; downY: number }>();
+        let dragging = false;
+        let pinchDistance = 0;
+        canvasEl.style.touchAction = 'none';
+        const pinchSpan = () => {
+            const [a, b] = Array.from(pointers.values());
+            return { distance: Math.hypot(a.x - b.x, a.y - b.y), cx: (a.x + b.x) / 2, cy: (a.y + b.y) / 2 };
+        };
+        /** Raio em metros do mundo correspondente a `px` pixels CSS em torno do cursor */
+        const pxToWorldM = (clientX: number, clientY: number, px: number) => {
+            const a = screenToWorld(clientX, clientY), b = screenToWorld(clientX + px, clientY);
+            return a && b ? math.length(a, b) : 0;
+        };
+        const onPointerDown = (e: PointerEvent) => {
+            const tool = config.editor.tool;
+            if (e.button === 2) {
+                if (tool !== 'none') cancelEdit();
+                else if (config.routing.clickToRoute) clearRoute();
+                return;
+            }
+            if (e.button !== 0) return;
+            if (tool === 'drag' && pointers.size === 0) {
+                const world = screenToWorld(e.clientX, e.clientY);
+                const radius = pxToWorldM(e.clientX, e.clientY, config.editor.nodePickRadiusPx);
+                const node = world ? nodeNear(world, radius, state.segments, state.qTree) : null;
+                if (node) state.editor.dragNode = { x: node.x, y: node.y };
+            }
+            if (tool === 'paint' && pointers.size === 0) {
+                const world = screenToWorld(e.clientX, e.clientY);
+                if (world) {
+                    // traço iniciado: o pincel fica preso ao ponteiro (sem arrastar a câmera)
+                    state.editor.stroke = state.editor.stroke ?? { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+                    paintAt(world);
+                }
+            }
+            pointers.set(e.pointerId, { x: e.clientX, y: e.clientY, downX: e.clientX, downY: e.clientY });
+            try { canvasEl.setPointerCapture(e.pointerId); } catch (err) {}
+            if (pointers.size === 1) dragging = false;
+            if (pointers.size === 2) { dragging = true; pinchDistance = pinchSpan().distance; }
+        };
+        // inspetor: seleção sob o cursor, no máximo uma por quadro
+        let hoverClient: { x: number; y: number } | null = null;
+        let hoverRaf: number | null = null;
+        const updateHover = () => {
+            hoverRaf = null;
+            if (!hoverClient || !config.picking.inspectorEnabled) return;
+            const world = screenToWorld(hoverClient.x, hoverClient.y);
+            if (!world) return;
+            const pick = pickAt(world, { qTree: state.qTree, segments: state.segments, blocks: state.blocks }, config.picking.toleranceM);
+            setInspected(pick, world);
+        };
+        const onPointerMove = (e: PointerEvent) => {
+            const p = pointers.get(e.pointerId);
+            if (config.editor.tool !== 'none') {
+                state.editor.cursor = screenToWorld(e.clientX, e.clientY);
+                drawEditPreview();
+                // nó ou pincel preso ao ponteiro: não desloca a câmera
+                if (p && state.editor.dragNode) return;
+                if (p && state.editor.stroke && pointers.size === 1) {
+                    if (state.editor.cursor) paintAt(state.editor.cursor);
+                    return;
+                }
+            }
+            if (!p) {
+                if (!config.picking.inspectorEnabled) {
+                    if (state.inspected) setInspected(null, null);
+                    return;
+                }
+                hoverClient = { x: e.clientX, y: e.clientY };
+                if (hoverRaf == null) hoverRaf = requestAnimationFrame(updateHover);
+                return;
+            }
+            const dpr = window.devicePixelRatio || 1;
+            if (pointers.size >= 2) {
+                p.x = e.clientX; p.y = e.clientY;
+                const span = pinchSpan();
+                if (pinchDistance > 0 && span.distance > 0) zoomAt(span.distance / pinchDistance, span.cx, span.cy);
+                pinchDistance = span.distance;
+                return;
+            }
+            if (!dragging && Math.hypot(e.clientX - p.downX, e.clientY - p.downY) > config.render.dragThresholdPx) {
+                dragging = true;
+                detachCamera();
+            }
+            if (dragging) {
+                // câmera em coordenadas projetadas; pixels CSS -> pixels do renderer -> unidades do mundo projetado
+                const z = state.zoom || 1;
+                state.camera.x -= (e.clientX - p.x) * dpr / z;
+                state.camera.y -= (e.clientY - p.y) * dpr / z;
+                state.zoomAnchor = null;
+            }
+            p.x = e.clientX; p.y = e.clientY;
+        };
+        const onPointerUp = (e: PointerEvent) => {
+            if (!pointers.has(e.pointerId)) return;
+            pointers.delete(e.pointerId);
+            try { canvasEl.releasePointerCapture(e.pointerId); } catch (err) {}
+            if (pointers.size > 0) { pinchDistance = 0; return; }
+            const wasDrag = dragging;
+            dragging = false;
+            const dragNode = state.editor.dragNode;
+            if (dragNode) {
+                state.editor.dragNode = null;
+                const to = screenToWorld(e.clientX, e.clientY);
+                // fusão com outro nó só dentro do raio de seleção (em pixels, no zoom atual)
+                const mergeM = pxToWorldM(e.clientX, e.clientY, config.editor.nodePickRadiusPx);
+                if (to && e.type !== 'pointercancel') MapActions.editRoad({ kind: 'moveNode', from: dragNode, to, mergeM });
+                drawEditPreview();
+                return;
+            }
+            if (state.editor.stroke) {
+                finishPaint();
+                return;
+            }
+            if (wasDrag || e.type === 'pointercancel') return;
+            if (config.editor.tool !== 'none') {
+                const world = screenToWorld(e.clientX, e.clientY);
+                if (world) applyEditClick(world);
+                return;
+            }
+            if (!config.routing.clickToRoute) return;
+            const world = screenToWorld(e.clientX, e.clientY);
+            if (world) pickRoutePoint(world);
+        };
+        const onWheel = (e: WheelEvent) => {
+            e.preventDefault();
+            // deltaMode 1 = linhas: aproximar para pixels
+            const dy = e.deltaMode === 1 ? e.deltaY * 16 : e.deltaY;
+            zoomAt(Math.exp(-dy * config.render.wheelZoomSpeed), e.clientX, e.clientY);
+        };
+        const onContextMenu = (e: MouseEvent) => {
+            if (config.routing.clickToRoute || config.editor.tool !== 'none') e.preventDefault();
+        };
+        canvasEl.addEventListener('pointerdown', onPointerDown);
+        canvasEl.addEventListener('pointermove', onPointerMove);
+        canvasEl.addEventListener('pointerup', onPointerUp);
+        canvasEl.addEventListener('pointercancel', onPointerUp);
+        canvasEl.addEventListener('wheel', onWheel, { passive: false });
+        canvasEl.addEventListener('contextmenu', onContextMenu);
+
         // Criação do sprite do personagem
         const buildCharacterSprite = () => {
             if (!pixiRenderer.current) return;
@@ -4068,8 +4330,13 @@ const GameCanvas: React.FC<GameCanvasPropsInternal> = ({ interiorTexture, interi
                             if (mx !== 0 || my !== 0) {
                                 const L = Math.hypot(mx, my) || 1;
                                 mx = mx / L; my = my / L;
-                                state.character.pos.x += mx * speed * dtSec;
-                                state.character.pos.y += my * speed * dtSec;
+                                // colisão com prédios/bandas de borda (e restrição a vias/calçadas, se ativa)
+                                if (!state.characterCollision) {
+                                    state.characterCollision = new CharacterCollision(state.qTree, state.segments, state.blockEdgePaths, config.character);
+                                }
+                                const next = state.characterCollision.move(state.character.pos, { x: mx * speed * dtSec, y: my * speed * dtSec });
+                                state.character.pos.x = next.x;
+                                state.character.pos.y = next.y;
                             }
                         } catch (e) {}
 
@@ -4118,6 +4385,16 @@ const GameCanvas: React.FC<GameCanvasPropsInternal> = ({ interiorTexture, interi
                                 const rh = (pixiRenderer.current as any).height as number;
                                 const cx = rw * 0.5;
                                 const cy = rh * 0.5;
+                                // câmera livre: manter o ponto ancorado sob o cursor enquanto o zoom suaviza
+                                const anchor = state.zoomAnchor;
+                                if (anchor && !(config as any).render.cameraFollow) {
+                                    const iso = worldToIso(anchor.world);
+                                    state.camera.x = iso.x - (anchor.screen.x - cx) / state.zoom;
+                                    state.camera.y = iso.y - (anchor.screen.y - cy) / state.zoom;
+                                    if (Math.abs(state.zoom - MapStore.getTargetZoom()) <= 1e-4 * state.zoom) state.zoomAnchor = null;
+                                } else if (anchor) {
+                                    state.zoomAnchor = null;
+                                }
                                 // zoomContainer está sendo escalado por state.zoom, então o offset do mundo
                                 // deve ser multiplicado pela mesma escala.
                                 zoomContainer.current.x = cx - state.camera.x * state.zoom;
@@ -4128,6 +4405,10 @@ const GameCanvas: React.FC<GameCanvasPropsInternal> = ({ interiorTexture, interi
                             // non-fatal
                         }
 
+                        // tráfego: avançar a simulação e redesenhar os carros
+                        if (config.traffic.enabled) state.traffic?.tick(Math.min(dtSec, 0.25));
+                        drawTraffic();
+
                         drawHUD();
                         pixiRenderer.current?.render(stage.current!);
                     }
@@ -4139,16 +4420,29 @@ const GameCanvas: React.FC<GameCanvasPropsInternal> = ({ interiorTexture, interi
             window.removeEventListener('resize', handleResize);
             window.removeEventListener('keydown', onKeyDown);
             window.removeEventListener('keyup', onKeyUp);
+            canvasEl.removeEventListener('pointerdown', onPointerDown);
+            canvasEl.removeEventListener('pointermove', onPointerMove);
+            if (hoverRaf != null) cancelAnimationFrame(hoverRaf);
+            canvasEl.removeEventListener('pointerup', onPointerUp);
+            canvasEl.removeEventListener('pointercancel', onPointerUp);
+            canvasEl.removeEventListener('wheel', onWheel);
+            canvasEl.removeEventListener('contextmenu', onContextMenu);
             window.removeEventListener('noise-overlay-request-sync', onNoiseReq as EventListener);
             window.removeEventListener('noise-overlay-intersection-updated', onNoiseMaskUpdated as EventListener);
             window.removeEventListener('noise-overlay-change', onNoiseOverlayToggle as EventListener);
             window.removeEventListener('noise-overlay-outline-change', onNoiseOutlineToggle as EventListener);
             window.removeEventListener('cracked-roads-config-change', onCrackedConfigChange as EventListener);
+            window.removeEventListener('city-export-geojson', onExportGeoJSON as EventListener);
+            window.removeEventListener('city-export-od', onExportOD as EventListener);
+            window.removeEventListener('road-tool-change', onRoadToolChange as EventListener);
+            window.removeEventListener('zone-paint-clear', onZonePaintClear as EventListener);
+            window.removeEventListener('city-save-snapshot', onSaveSnapshot as EventListener);
             if (crackedRoadsRaf.current != null && typeof window !== 'undefined' && typeof window.cancelAnimationFrame === 'function') {
                 window.cancelAnimationFrame(crackedRoadsRaf.current);
                 crackedRoadsRaf.current = null;
             }
             MapStore.removeChangeListener(onMapChange);
+            MapStore.removeEditListener(onRoadEdit);
             pixiRenderer.current?.destroy();
             canvasContainerRef.current?.removeChild(canvasEl);
             if (NoiseZoning.detach) NoiseZoning.detach();
@@ -0,0 +1,107 @@
+import React, { useRef, useState } from 'react';
+import { populationField, zoneField, imageBounds } from '../game_modules/image_fields';
+import type { ImagePixels } from '../game_modules/image_fields';
+import { config } from '../game_modules/config';
+import { MapActions } from '../actions/MapActions';
+import MapStore from '../stores/MapStore';
+
+/** Decodifica a imagem do arquivo em pixels RGBA (canvas fora da tela) */
+const readPixels = (file: File): Promise<ImagePixels> => new Promise((resolve, reject) => {
+  const url = URL.createObjectURL(file);
+  const img = new Image();
+  img.onload = () => {
+    try {
+      const canvas = document.createElement('canvas');
+      canvas.width = img.naturalWidth;
+      canvas.height = img.naturalHeight;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) throw new Error('2D canvas unavailable');
+      ctx.drawImage(img, 0, 0);
+      resolve(ctx.getImageData(0, 0, canvas.width, canvas.height));
+    } catch (err) {
+      reject(err);
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  };
+  img.onerror = () => { URL.revokeObjectURL(url); reject(new Error('could not decode image')); };
+  img.src = url;
+});
+
+const hex = (c: number) => `#${c.toString(16).padStart(6, '0')}`;
+
+// Campos desenhados: PNG em tons de cinza como população (crescimento das vias e ocupação dos lotes)
+// e PNG com as cores de render.zoneColors como zonas; mudanças regeram a cidade com a seed atual
+const ImageFieldsPanel: React.FC = () => {
+  const popRef = useRef<HTMLInputElement | null>(null);
+  const zoneRef = useRef<HTMLInputElement | null>(null);
+  const [popName, setPopName] = useState('');
+  const [zoneName, setZoneName] = useState('');
+  const [zoneInfo, setZoneInfo] = useState('');
+  const [error, setError] = useState('');
+
+  const regenerate = () => {
+    MapActions.generate(MapStore.getSeed());
+  };
+
+  const load = (input: HTMLInputElement | null, apply: (pixels: ImagePixels, file: File) => void) => {
+    const f = input?.files && input.files[0];
+    if (!f) return;
+    readPixels(f).then(pixels => {
+      apply(pixels, f);
+      setError('');
+      regenerate();
+    }).catch(err => {
+      setError(`Image failed: ${(err as Error)?.message ?? err}`);
+    }).finally(() => {
+      if (input) input.value = '';
+    });
+  };
+
+  const onPopulation = () => load(popRef.current, (pixels, f) => {
+    MapActions.setLayers({ populationImage: populationField(pixels, imageBounds()) });
+    setPopName(`${f.name} (${pixels.width}×${pixels.height})`);
+  });
+
+  const onZones = () => load(zoneRef.current, (pixels, f) => {
+    const field = zoneField(pixels, imageBounds());
+    MapActions.setLayers({ zoneImage: field });
+    setZoneName(`${f.name} (${pixels.width}×${pixels.height})`);
+    const total = Object.values(field.counts).reduce((s, n) => s + (n ?? 0), 0) + field.unknown;
+    const pct = (n: number) => `${Math.round(100 * n / Math.max(1, total))}%`;
+    setZoneInfo(Object.entries(field.counts).map(([z, n]) => `${z} ${pct(n ?? 0)}`).join(', ') + (field.unknown ? `, ${pct(field.unknown)} unmatched` : ''));
+  });
+
+  const colors = config.render.zoneColors;
+  const extent = config.zoningModel.imageFields.extentM;
+
+  return (
+    <span style={{ marginLeft: 8 }} title={`Images cover ${2 * extent} m × ${2 * extent} m around the city center`}>
+      <button onClick={() => popRef.current?.click()}>Population PNG</button>
+      <input ref={popRef} type="file" accept="image/png,image/*" onChange={onPopulation} style={{ display: 'none' }} />
+      {popName && (
+        <>
+          <span style={{ marginLeft: 6, fontSize: 12 }}>{popName}</span>
+          <button onClick={() => { MapActions.setLayers({ populationImage: null }); setPopName(''); regenerate(); }} style={{ marginLeft: 6 }}>Clear</button>
+        </>
+      )}
+      <button
+        onClick={() => zoneRef.current?.click()}
+        style={{ marginLeft: 6 }}
+        title={`Zone colors: ${Object.entries(colors).map(([z, c]) => `${z} ${hex(c)}`).join(', ')}`}
+      >
+        Zones PNG
+      </button>
+      <input ref={zoneRef} type="file" accept="image/png,image/*" onChange={onZones} style={{ display: 'none' }} />
+      {zoneName && (
+        <>
+          <span style={{ marginLeft: 6, fontSize: 12 }}>{zoneName}: {zoneInfo}</span>
+          <button onClick={() => { MapActions.setLayers({ zoneImage: null }); setZoneName(''); setZoneInfo(''); regenerate(); }} style={{ marginLeft: 6 }}>Clear</button>
+        </>
+      )}
+      {error && <span style={{ marginLeft: 6, fontSize: 12, color: '#EF9A9A' }}>{error}</span>}
+    </span>
+  );
+};
+
+export default ImageFieldsPanel;
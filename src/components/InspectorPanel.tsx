@@ -0,0 +1,53 @@
+import React from 'react';
+import type { InspectorInfo } from '../game_modules/picking';
+
+// Painel do inspetor: mostra a ficha enviada pelo GameCanvas no evento 'city-inspect' (null esconde)
+const InspectorPanel: React.FC = () => {
+  const [info, setInfo] = React.useState<InspectorInfo | null>(null);
+
+  React.useEffect(() => {
+    if (typeof window === 'undefined') return;
+    const handler = (event: Event) => {
+      const detail = (event as CustomEvent<InspectorInfo | null>).detail;
+      setInfo(detail && Array.isArray(detail.fields) ? detail : null);
+    };
+    window.addEventListener('city-inspect', handler as EventListener);
+    return () => {
+      window.removeEventListener('city-inspect', handler as EventListener);
+    };
+  }, []);
+
+  if (!info) return null;
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        left: 12,
+        bottom: 12,
+        zIndex: 20,
+        minWidth: 220,
+        maxWidth: 320,
+        background: 'rgba(18, 21, 24, 0.9)',
+        color: '#ECEFF1',
+        padding: '10px 12px',
+        borderRadius: 6,
+        fontSize: 12,
+        pointerEvents: 'none',
+      }}
+    >
+      <div style={{ fontWeight: 700, fontSize: 13, marginBottom: 6 }}>{info.title}</div>
+      <table style={{ borderCollapse: 'collapse', width: '100%' }}>
+        <tbody>
+          {info.fields.map(f => (
+            <tr key={f.label}>
+              <td style={{ opacity: 0.7, paddingRight: 10, verticalAlign: 'top', whiteSpace: 'nowrap' }}>{f.label}</td>
+              <td>{f.value}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default InspectorPanel;
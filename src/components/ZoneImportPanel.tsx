@@ -0,0 +1,128 @@
+import React, { useRef, useState } from 'react';
+import { parseGeoZones } from '../game_modules/zoning';
+import type { GeoZoneImport } from '../game_modules/zoning';
+import { config } from '../game_modules/config';
+import { MapActions } from '../actions/MapActions';
+import MapStore from '../stores/MapStore';
+
+const FALLBACKS = ['rural', 'residential', 'commercial', 'industrial', 'downtown', 'procedural'] as const;
+const MODES: Array<typeof config.zoningModel.mode> = ['heatmap', 'concentric', 'perlin', 'procedural', 'voronoi', 'geo'];
+
+// Modo de zoneamento, região metropolitana e importação de zonas em GeoJSON (liga o modo 'geo');
+// mudanças regeram a cidade com a seed atual
+const ZoneImportPanel: React.FC = () => {
+  const inputRef = useRef<HTMLInputElement | null>(null);
+  // modo de zoneamento anterior à importação (restaurado ao limpar)
+  const previousMode = useRef<typeof config.zoningModel.mode | null>(null);
+  const [summary, setSummary] = useState<GeoZoneImport | null>(null);
+  const [error, setError] = useState('');
+  const [fallback, setFallback] = useState<string>(config.zoningModel.geo.fallbackZone);
+  const [mode, setMode] = useState(config.zoningModel.mode);
+  const [metro, setMetro] = useState(config.zoningModel.polycentric.enabled);
+
+  const regenerate = () => {
+    MapActions.generate(MapStore.getSeed());
+  };
+
+  const onFile: React.ChangeEventHandler<HTMLInputElement> = (e) => {
+    const f = e.target.files && e.target.files[0];
+    if (!f) return;
+    f.text().then(text => {
+      try {
+        const fc = JSON.parse(text);
+        if (!fc || fc.type !== 'FeatureCollection') throw new Error('not a FeatureCollection');
+        const { polygons, summary: result } = parseGeoZones(fc, config.zoningModel.geo.zoneProperty);
+        if (!result.polygons) throw new Error('no Polygon/MultiPolygon features');
+        MapActions.setLayers({ geoZones: polygons });
+        if (config.zoningModel.mode !== 'geo') previousMode.current = config.zoningModel.mode;
+        config.zoningModel.mode = 'geo';
+        setMode('geo');
+        setSummary(result);
+        setError('');
+        regenerate();
+      } catch (err) {
+        setError(`Import failed: ${(err as Error)?.message ?? err}`);
+      }
+    }).finally(() => {
+      if (inputRef.current) inputRef.current.value = '';
+    });
+  };
+
+  const onClear = () => {
+    MapActions.setLayers({ geoZones: null });
+    if (config.zoningModel.mode === 'geo') config.zoningModel.mode = previousMode.current ?? 'heatmap';
+    previousMode.current = null;
+    setMode(config.zoningModel.mode);
+    setSummary(null);
+    regenerate();
+  };
+
+  const zonesText = summary
+    ? Object.entries(summary.zones).map(([z, n]) => `${z} ${n}`).join(', ')
+    : '';
+
+  return (
+    <span style={{ marginLeft: 8 }}>
+      <label htmlFor="zoning-mode">Zoning:</label>
+      <select
+        id="zoning-mode"
+        value={mode}
+        onChange={(e) => {
+          const v = e.target.value as typeof config.zoningModel.mode;
+          config.zoningModel.mode = v;
+          setMode(v);
+          // a tesselação gerada substitui as zonas importadas
+          if (v === 'voronoi') { MapActions.setLayers({ geoZones: null }); setSummary(null); }
+          regenerate();
+        }}
+      >
+        {/* 'geo' só com zonas importadas */}
+        {MODES.filter(m => m !== 'geo' || summary).map(m => <option key={m} value={m}>{m}</option>)}
+      </select>
+      <label style={{ marginLeft: 6 }} title="CBD plus sub-centers and satellite towns (zoningModel.polycentric)">
+        <input
+          type="checkbox"
+          checked={metro}
+          onChange={(e) => {
+            config.zoningModel.polycentric.enabled = e.target.checked;
+            setMetro(e.target.checked);
+            regenerate();
+          }}
+        />
+        Metro
+      </label>
+      <button onClick={() => inputRef.current?.click()} style={{ marginLeft: 6 }}>Import Zones</button>
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".geojson,.json,application/geo+json,application/json"
+        onChange={onFile}
+        style={{ display: 'none' }}
+      />
+      <label htmlFor="geo-fallback" style={{ marginLeft: 6 }}>Outside:</label>
+      <select
+        id="geo-fallback"
+        value={fallback}
+        onChange={(e) => {
+          const v = e.target.value as typeof config.zoningModel.geo.fallbackZone;
+          config.zoningModel.geo.fallbackZone = v;
+          setFallback(v);
+          if (MapStore.getLayers().geoZones) regenerate();
+        }}
+      >
+        {FALLBACKS.map(z => <option key={z} value={z}>{z}</option>)}
+      </select>
+      {summary && (
+        <>
+          <button onClick={onClear} style={{ marginLeft: 6 }}>Clear Zones</button>
+          <span style={{ marginLeft: 6, fontSize: 12 }}>
+            {summary.polygons} polygons ({zonesText}){summary.unknownZone ? `, ${summary.unknownZone} unknown` : ''}{summary.skipped ? `, ${summary.skipped} skipped` : ''}
+          </span>
+        </>
+      )}
+      {error && <span style={{ marginLeft: 6, fontSize: 12, color: '#EF9A9A' }}>{error}</span>}
+    </span>
+  );
+};
+
+export default ZoneImportPanel;
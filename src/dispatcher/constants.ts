@@ -1,6 +1,13 @@
+import type { CitySnapshot } from '../game_modules/snapshot';
+import type { RoadEdit } from '../game_modules/road_editor';
+import type { CityLayers } from '../game_modules/mapgen';
+
 export const ActionTypes = {
     MAP_GENERATE: 'MAP_GENERATE',
     MAP_FACTOR_TARGET_ZOOM: 'MAP_FACTOR_TARGET_ZOOM',
+    MAP_LOAD_SNAPSHOT: 'MAP_LOAD_SNAPSHOT',
+    MAP_EDIT_ROAD: 'MAP_EDIT_ROAD',
+    MAP_SET_LAYERS: 'MAP_SET_LAYERS',
 } as const;
 
 export const PayloadSources = {
@@ -25,7 +32,22 @@ export interface FactorTargetZoomAction {
     factor: number;
 }
 
-export type MapAction = GenerateMapAction | FactorTargetZoomAction;
+export interface LoadSnapshotAction {
+    actionType: typeof ActionTypes.MAP_LOAD_SNAPSHOT;
+    snapshot: CitySnapshot;
+}
+
+export interface EditRoadAction {
+    actionType: typeof ActionTypes.MAP_EDIT_ROAD;
+    edit: RoadEdit;
+}
+
+export interface SetLayersAction {
+    actionType: typeof ActionTypes.MAP_SET_LAYERS;
+    layers: CityLayers;
+}
+
+export type MapAction = GenerateMapAction | FactorTargetZoomAction | LoadSnapshotAction | EditRoadAction | SetLayersAction;
 
 export interface Payload {
     source: PayloadSource;
@@ -0,0 +1,44 @@
+import { generate, RoadClass } from '../mapgen';
+import { generationOptions } from '../config';
+import { placeBuildings, buildingsRNG } from '../city';
+import { extractBlocks } from '../block_geometry';
+import { populationField } from '../image_fields';
+
+// Parcelamento: ruas que não fecham quarteirão (sem saída, franja) recebem construções ao longo da via.
+describe('lot placement', () => {
+    it('builds along streets that bound no block', () => {
+        for (const seed of ['s1', 'xyz']) {
+            const options = generationOptions({ mapGeneration: { SEGMENT_COUNT_LIMIT: 800 }, buildings: { placement: 'lots' } });
+            const city = generate(seed, options);
+            const blocks = extractBlocks(city.segments, p => city.zoning.zoneAt(p));
+            const buildings = placeBuildings(city.segments, city.qTree, city, { ...options, rng: buildingsRNG(seed) }, blocks);
+            const bounding = new Set(blocks.flatMap(b => b.segments));
+            const open = city.segments.filter(s => !bounding.has(s) && s.roadClass !== RoadClass.MOTORWAY);
+            const served = open.filter(s => {
+                const m = { x: (s.r.start.x + s.r.end.x) / 2, y: (s.r.start.y + s.r.end.y) / 2 };
+                return buildings.some(b => Math.hypot(b.center.x - m.x, b.center.y - m.y) < 60);
+            });
+            expect(open.length).toBeGreaterThan(50);
+            expect(served.length).toBeGreaterThan(0.8 * open.length);
+        }
+    });
+});
+
+// População desenhada esvazia as áreas escuras também na distribuição ao longo das vias.
+describe('population image occupancy', () => {
+    it('thins scattered buildings under a dark image', () => {
+        const dark = populationField({ width: 1, height: 1, data: [0, 0, 0, 255] });
+        const count = (populationImage: typeof dark | null) => {
+            const options = generationOptions({
+                mapGeneration: { SEGMENT_COUNT_LIMIT: 400 },
+                buildings: { placement: 'scatter' },
+                zoningModel: { imageFields: { minLotOccupancy: 0.1 } },
+            });
+            // mesma malha nos dois casos: a imagem só entra na distribuição das construções
+            const city = generate('s1', options);
+            city.heatmap.populationImage = populationImage;
+            return placeBuildings(city.segments, city.qTree, city, { ...options, rng: buildingsRNG('s1') }).length;
+        };
+        expect(count(dark)).toBeLessThan(0.3 * count(null));
+    });
+});
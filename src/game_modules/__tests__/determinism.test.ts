@@ -0,0 +1,33 @@
+import { generateCity } from '../city';
+import { generate } from '../mapgen';
+import { generationOptions } from '../config';
+
+// Mesma seed => mesma cidade (vias e construções), mesmo com outra geração no meio.
+describe('deterministic generation', () => {
+    it('reproduces segments and buildings for the same seed', () => {
+        const a = generateCity('s1', { generation: { mapGeneration: { SEGMENT_COUNT_LIMIT: 600 } } });
+        generateCity('other', { generation: { mapGeneration: { SEGMENT_COUNT_LIMIT: 300 } } });
+        const b = generateCity('s1', { generation: { mapGeneration: { SEGMENT_COUNT_LIMIT: 600 } } });
+        expect(a.segments.length).toBeGreaterThan(100);
+        expect(a.buildings.length).toBeGreaterThan(0);
+        expect(b.segments).toEqual(a.segments);
+        expect(b.buildings).toEqual(a.buildings);
+    });
+
+    it('keeps zoning, heatmap and terrain per generation result', () => {
+        const points = [-3000, -1200, 0, 800, 2500].flatMap(x => [-2000, 0, 1500].map(y => ({ x, y })));
+        const sample = (r: ReturnType<typeof generate>) => points.map(p => [r.zoning.zoneAt(p), r.heatmap.populationAt(p.x, p.y), r.terrain.isWater(p)]);
+        const options = (mode: 'concentric' | 'perlin', terrain: boolean) => generationOptions({
+            mapGeneration: { SEGMENT_COUNT_LIMIT: 200 },
+            zoningModel: { mode },
+            terrain: { enabled: terrain },
+        });
+        const a = generate('s1', options('concentric', true));
+        const before = sample(a);
+        const b = generate('s2', options('perlin', false));
+        expect(sample(a)).toEqual(before);
+        expect(b.zoning).not.toBe(a.zoning);
+        expect(b.zoning.getModel().mode).toBe('perlin');
+        expect(a.zoning.getModel().mode).toBe('concentric');
+    });
+});
@@ -0,0 +1,81 @@
+import { generate, Segment, RoadClass } from '../mapgen';
+import { generationOptions } from '../config';
+import * as math from '../../generic_modules/math';
+
+/** Pares de vias no mesmo nível que se cruzam sem nó em comum */
+const crossingsWithoutNode = (segments: Segment[]) => {
+    const shareNode = (a: Segment, b: Segment) => [a.r.start, a.r.end].some(p => [b.r.start, b.r.end].some(q => math.length(p, q) < 1e-6));
+    const pairs: string[] = [];
+    segments.forEach((a, i) => segments.slice(i + 1).forEach(b => {
+        if (a.level !== b.level || shareNode(a, b)) return;
+        if (math.doLineSegmentsIntersect(a.r.start, a.r.end, b.r.start, b.r.end, true)) {
+            pairs.push(`${a.roadClass} x ${b.roadClass} @ level ${a.level}`);
+        }
+    }));
+    return pairs;
+};
+
+// Cruzamento em desnível: só o trecho da classe gradeSeparated sai do solo; o resto se cruza em nós.
+describe('grade-separated crossings', () => {
+    it('never crosses same-level roads without a shared node', () => {
+        expect(crossingsWithoutNode(generate('2').segments)).toEqual([]);
+    });
+
+    // sem terreno não há pontes nem túneis: tudo fora do solo é viaduto de motorway
+    it('raises only grade-separated spans', () => {
+        const options = generationOptions({ terrain: { enabled: false } });
+        for (const seed of ['2', 'xyz']) {
+            const { segments } = generate(seed, options);
+            expect(crossingsWithoutNode(segments)).toEqual([]);
+            const offGround = segments.filter(s => s.level !== 0);
+            expect(offGround.every(s => s.level === 1 && s.roadClass === RoadClass.MOTORWAY)).toBe(true);
+        }
+    });
+});
+
+// Terreno ligado (padrão): relevo e água desviam a malha, mas nenhuma seed pode travar o crescimento.
+describe('growth on terrain', () => {
+    it('reaches the segment limit for every seed', () => {
+        const limit = 300;
+        const options = generationOptions({ mapGeneration: { SEGMENT_COUNT_LIMIT: limit } });
+        const seeds = ['s0', 's7', 'xyz', '1', '2', '3', 'a', 'b', 'c', 'd', 'e', 'f'];
+        const stalled = seeds.filter(seed => generate(seed, options).segments.length < limit);
+        expect(stalled).toEqual([]);
+    });
+});
+
+// Classes viárias vêm das GenerationOptions da geração, não do config vivo.
+describe('road classes per generation', () => {
+    it('builds segments from the options road-class table', () => {
+        const options = generationOptions({
+            mapGeneration: { SEGMENT_COUNT_LIMIT: 150 },
+            roadClasses: { motorway: { maxSpeedKmh: 36, capacity: 99 } },
+        });
+        const motorways = generate('s1', options).segments.filter(s => s.roadClass === RoadClass.MOTORWAY);
+        expect(motorways.length).toBeGreaterThan(0);
+        expect(motorways.every(s => s.maxSpeed === 10 && s.capacity === 99)).toBe(true);
+    });
+});
+
+// Crescimento radial sem center explícito: radiais/anéis em torno do centro da cidade mais próximo.
+describe('radial growth', () => {
+    it('orients streets around the nearest city centre', () => {
+        const sub = { x: 5000, y: 2000 };
+        const growth = 'radial' as const;
+        const options = generationOptions({
+            mapGeneration: { SEGMENT_COUNT_LIMIT: 2000 },
+            terrain: { enabled: false },
+            zones: { downtown: { growth }, commercial: { growth }, residential: { growth }, industrial: { growth }, rural: { growth } },
+            zoningModel: { polycentric: { enabled: true, centers: [{ ...sub, weight: 1, radiusScale: 1, highways: 2 }] } },
+        });
+        const near = generate('s1', options).segments
+            .filter(s => s.roadClass !== RoadClass.MOTORWAY && math.length(s.r.start, sub) < 1500);
+        const aligned = near.filter(s => {
+            const radial = Math.atan2(s.r.start.x - sub.x, s.r.start.y - sub.y) * 180 / Math.PI;
+            const d = ((s.dir() - radial) % 90 + 90) % 90;
+            return Math.min(d, 90 - d) < 2;
+        });
+        expect(near.length).toBeGreaterThan(100);
+        expect(aligned.length).toBeGreaterThan(0.8 * near.length);
+    });
+});
@@ -0,0 +1,69 @@
+import Quadtree from '../../lib/quadtree';
+import type { Point } from '../../generic_modules/math';
+import { Segment, RoadClass, addSegment } from '../mapgen';
+import { applyRoadEdit } from '../road_editor';
+import { config } from '../config';
+
+const network = (edges: [Point, Point][]) => {
+    const mg = config.mapGeneration;
+    const qTree = new Quadtree(mg.QUADTREE_PARAMS, mg.QUADTREE_MAX_OBJECTS, mg.QUADTREE_MAX_LEVELS);
+    const segments: Segment[] = [];
+    edges.forEach(([a, b], id) => {
+        const s = new Segment(a, b, 0, { roadClass: RoadClass.LOCAL });
+        s.id = id;
+        addSegment(s, segments, qTree);
+    });
+    return { segments, qTree };
+};
+
+const A = { x: 0, y: 0 }, B = { x: 100, y: 0 }, C = { x: 200, y: 0 }, D = { x: 100, y: 40 }, E = { x: 100, y: 140 };
+
+// Arrastar nós: fusão só quando o nó é solto sobre outro, sem apagar nem duplicar vias.
+describe('road editor moveNode', () => {
+    it('moves without merging into a nearby node', () => {
+        const { segments, qTree } = network([[A, B], [B, C], [D, E]]);
+        const result = applyRoadEdit({ kind: 'moveNode', from: B, to: { x: 100, y: 31 } }, segments, qTree);
+        expect(result?.removed).toEqual([]);
+        expect(segments.length).toBe(3);
+        expect(segments[0].r.end).toEqual({ x: 100, y: 31 });
+    });
+
+    it('merges when dropped on another node', () => {
+        const { segments, qTree } = network([[A, B], [B, C], [D, E]]);
+        const result = applyRoadEdit({ kind: 'moveNode', from: B, to: { x: 101, y: 41 }, mergeM: 5 }, segments, qTree);
+        expect(result?.changed.length).toBe(2);
+        expect(segments.length).toBe(3);
+        expect(segments[2].links.b.length).toBe(2);
+    });
+
+    it('rejects merges onto its own far ends or into duplicate edges', () => {
+        const { segments, qTree } = network([[A, B], [B, C], [A, D]]);
+        expect(applyRoadEdit({ kind: 'moveNode', from: B, to: C, mergeM: 5 }, segments, qTree)).toBeNull();
+        expect(applyRoadEdit({ kind: 'moveNode', from: B, to: D, mergeM: 5 }, segments, qTree)).toBeNull();
+        expect(segments.map(s => [s.r.start, s.r.end])).toEqual([[A, B], [B, C], [A, D]]);
+    });
+});
+
+// Desenhar por cima de vias no solo cria interseções (malha planar); pontes ficam sem ligação.
+describe('road editor draw', () => {
+    const N = { x: 100, y: -50 }, S = { x: 100, y: 50 }, X = { x: 100, y: 0 };
+
+    it('splits both roads where a drawn road crosses one at grade', () => {
+        const { segments, qTree } = network([[A, C]]);
+        const result = applyRoadEdit({ kind: 'draw', start: N, end: S }, segments, qTree, 5);
+        expect(result?.changed).toEqual([segments[0]]);
+        expect(segments.length).toBe(4);
+        const atX = segments.filter(s => (s.r.start.x === X.x && s.r.start.y === X.y) || (s.r.end.x === X.x && s.r.end.y === X.y));
+        expect(atX.length).toBe(4);
+        atX.forEach(s => expect([...s.links.b, ...s.links.f].filter(l => atX.includes(l)).length).toBe(3));
+    });
+
+    it('leaves bridges over the drawn road unconnected', () => {
+        const { segments, qTree } = network([[A, C]]);
+        segments[0].setLevel(1);
+        const result = applyRoadEdit({ kind: 'draw', start: N, end: S }, segments, qTree, 5);
+        expect(result?.changed).toEqual([]);
+        expect(segments.length).toBe(2);
+        expect(segments[1].links.b.length + segments[1].links.f.length).toBe(0);
+    });
+});
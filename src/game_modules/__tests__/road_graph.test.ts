@@ -0,0 +1,26 @@
+import { Segment, RoadClass } from '../mapgen';
+import { RoadGraph } from '../road_graph';
+import { extractBlocks, pointInPolygon } from '../block_geometry';
+
+// Pontes e túneis não dividem faces: o grafo do solo continua planar.
+describe('road graph faces', () => {
+    const square = () => {
+        const c = [{ x: 0, y: 0 }, { x: 200, y: 0 }, { x: 200, y: 200 }, { x: 0, y: 200 }];
+        return c.map((p, i) => new Segment(p, c[(i + 1) % 4], 0, { roadClass: RoadClass.LOCAL }));
+    };
+
+    it('ignores bridges and tunnels when tracing faces', () => {
+        const bridge = new Segment({ x: 0, y: 0 }, { x: 200, y: 200 }, 0, { roadClass: RoadClass.MOTORWAY, highway: true, level: 1 });
+        const tunnel = new Segment({ x: 200, y: 0 }, { x: 0, y: 200 }, 0, { roadClass: RoadClass.LOCAL, level: -1 });
+        const faces = RoadGraph.fromSegments([...square(), bridge, tunnel]).faces();
+        expect(faces.length).toBe(1);
+        expect(faces[0].area).toBeCloseTo(200 * 200);
+    });
+
+    it('keeps lots out from under overpasses', () => {
+        const bridge = new Segment({ x: -50, y: 100 }, { x: 250, y: 100 }, 0, { roadClass: RoadClass.MOTORWAY, highway: true, level: 1 });
+        const blocks = extractBlocks([...square(), bridge], () => 'residential');
+        expect(blocks.length).toBe(1);
+        expect(pointInPolygon({ x: 100, y: 100 }, { vertices: blocks[0].polygon })).toBe(false);
+    });
+});
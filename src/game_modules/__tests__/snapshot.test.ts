@@ -0,0 +1,89 @@
+import { generate } from '../mapgen';
+import { config, generationOptions } from '../config';
+import { placeBuildings, buildingsRNG } from '../city';
+import { extractBlocks } from '../block_geometry';
+import { createSnapshot, parseSnapshot, restoreSnapshot } from '../snapshot';
+import { populationField, zoneField } from '../image_fields';
+import { parseGeoZones } from '../zoning';
+import type { GeoJSONFeature } from '../geojson';
+
+// Snapshot salvo e recarregado classifica as mesmas zonas que a cidade viva.
+describe('snapshot round trip', () => {
+    it('keeps per-building zones', () => {
+        const options = generationOptions({ mapGeneration: { SEGMENT_COUNT_LIMIT: 800 } });
+        const live = generate('s1', options);
+        const zoneAt = (p: { x: number; y: number }) => live.zoning.zoneAt(p);
+        const blocks = extractBlocks(live.segments, zoneAt);
+        const buildings = placeBuildings(live.segments, live.qTree, live, { ...options, rng: buildingsRNG('s1') }, blocks);
+        expect(buildings.length).toBeGreaterThan(100);
+        const liveZones = buildings.map(b => live.zoning.zoneAt(b.center));
+
+        const snap = parseSnapshot(JSON.stringify(createSnapshot('s1', live.segments, buildings, live)));
+        const restored = restoreSnapshot(snap, generationOptions({}));
+        expect(restored.buildings!.map(b => restored.zoning.zoneAt(b.center))).toEqual(liveZones);
+        expect(restored.segments.map(s => restored.zoning.zoneAt(s.r.end))).toEqual(live.segments.map(s => live.zoning.zoneAt(s.r.end)));
+    });
+
+    it('uses the saved zoning model without touching config', () => {
+        const live = generate('s1', generationOptions({ mapGeneration: { SEGMENT_COUNT_LIMIT: 100 } }));
+        const snap = parseSnapshot(JSON.stringify(createSnapshot('s1', live.segments, null, live)));
+        snap.zoning.model.polycentric.centers = snap.zoning.model.polycentric.centers.slice(0, 1);
+        const before = JSON.stringify(config.zoningModel);
+        const restored = restoreSnapshot(snap);
+        expect(restored.zoning.getModel().polycentric.centers).toHaveLength(1);
+        expect(JSON.stringify(config.zoningModel)).toEqual(before);
+    });
+});
+
+// Imagens de população e de zonas vão junto no snapshot e voltam como camadas.
+describe('snapshot images', () => {
+    it('restores uploaded population and zone images', () => {
+        const W = 8, H = 8;
+        const colors = config.render.zoneColors;
+        const pop = new Uint8ClampedArray(W * H * 4), zones = new Uint8ClampedArray(W * H * 4);
+        for (let i = 0; i < W * H; i++) {
+            const v = Math.round(255 * (i % W) / (W - 1));
+            pop.set([v, v, v, 255], 4 * i);
+            const c = i < W * H / 2 ? colors.industrial : colors.downtown;
+            zones.set([(c >> 16) & 0xFF, (c >> 8) & 0xFF, c & 0xFF, 255], 4 * i);
+        }
+        const layers = {
+            populationImage: populationField({ width: W, height: H, data: pop }),
+            zoneImage: zoneField({ width: W, height: H, data: zones }),
+        };
+        const options = generationOptions({ mapGeneration: { SEGMENT_COUNT_LIMIT: 100 } });
+        const live = generate('s1', { ...options, layers });
+        const snap = parseSnapshot(JSON.stringify(createSnapshot('s1', live.segments, null, live)));
+        const restored = restoreSnapshot(snap, generationOptions({}));
+
+        const points = [-6000, -2500, 0, 1800, 7000].flatMap(x => [-5000, 300, 4000].map(y => ({ x, y })));
+        const sample = (r: typeof live) => points.map(p => [r.heatmap.populationAt(p.x, p.y), r.zoning.zoneAt(p)]);
+        expect(restored.layers.populationImage).toBeTruthy();
+        expect(restored.layers.zoneImage?.counts).toEqual(layers.zoneImage.counts);
+        expect(sample(restored)).toEqual(sample(live));
+    });
+});
+
+// Polígonos importados (modo 'geo') vão no snapshot: sem eles tudo cairia na zona de fallback.
+describe('snapshot geo zones', () => {
+    it('restores imported geo zone polygons', () => {
+        const square = (x0: number, y0: number, size: number, zone: string): GeoJSONFeature => ({
+            type: 'Feature',
+            properties: { zone },
+            geometry: { type: 'Polygon', coordinates: [[[x0, y0], [x0 + size, y0], [x0 + size, y0 + size], [x0, y0 + size], [x0, y0]]] },
+        });
+        const { polygons } = parseGeoZones({
+            type: 'FeatureCollection',
+            features: [square(-3000, -3000, 3000, 'industrial'), square(0, 0, 3000, 'downtown'), square(-3000, 0, 3000, 'commercial')],
+        });
+        const options = generationOptions({ mapGeneration: { SEGMENT_COUNT_LIMIT: 100 }, zoningModel: { mode: 'geo', geo: { fallbackZone: 'rural' } } });
+        const live = generate('s1', { ...options, layers: { geoZones: polygons } });
+        const snap = parseSnapshot(JSON.stringify(createSnapshot('s1', live.segments, null, live)));
+        const restored = restoreSnapshot(snap, generationOptions({}));
+
+        const points = [-2000, -500, 1500, 4000].flatMap(x => [-2000, 500, 2500, 4000].map(y => ({ x, y })));
+        expect(restored.layers.geoZones).toHaveLength(3);
+        expect(points.map(p => restored.zoning.zoneAt(p))).toEqual(points.map(p => live.zoning.zoneAt(p)));
+        expect(new Set(points.map(p => restored.zoning.zoneAt(p))).size).toBeGreaterThan(2);
+    });
+});
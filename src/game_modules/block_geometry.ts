@@ -1,160 +1,146 @@
 import { Point } from '../generic_modules/math';
-import * as math from '../generic_modules/math';
+import type { Segment, ZoneName } from './mapgen';
+import { RoadGraph, RoadFace } from './road_graph';
+import { config } from './config';
 
-export interface Block {
-    center: Point;
-    width: number;
-    height: number;
-    corners: Point[];
-    curveRadius: number;
-}
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const ClipperLib: any = require('clipper-lib');
+
+// Quarteirões a partir das faces do grafo planar das vias (sem depender do renderer).
 
 export interface Polygon {
     vertices: Point[];
 }
 
-export interface CurvedCorner {
-    center: Point;
-    radius: number;
-    startAngle: number;
-    endAngle: number;
+/** Testada do quarteirão ao longo de uma aresta do grafo */
+export interface BlockFrontage {
+    edgeId: number;
+    segment: Segment;
+    /** comprimento na linha de eixo, somado por lado (rua sem saída dentro do quarteirão conta 2x) */
+    lengthM: number;
 }
 
-/**
- * Gera um polígono retangular básico para um quarteirão (sem curvas)
- */
-export function generateBasicBlockPolygon(block: Block): Polygon {
-    const halfWidth = block.width / 2;
-    const halfHeight = block.height / 2;
-    
-    return {
-        vertices: [
-            { x: block.center.x - halfWidth, y: block.center.y - halfHeight }, // Top-left
-            { x: block.center.x + halfWidth, y: block.center.y - halfHeight }, // Top-right
-            { x: block.center.x + halfWidth, y: block.center.y + halfHeight }, // Bottom-right
-            { x: block.center.x - halfWidth, y: block.center.y + halfHeight }  // Bottom-left
-        ]
-    };
+export interface Block {
+    id: number;
+    /** contorno no eixo das vias (face do grafo, anti-horário) */
+    centerline: Point[];
+    /** área edificável: face menos a faixa das vias, anti-horário */
+    polygon: Point[];
+    /** segmentos que delimitam a face (sem repetição) */
+    segments: Segment[];
+    frontage: BlockFrontage[];
+    frontageM: number;
+    area: number;
+    zone: ZoneName;
 }
 
+export interface BlockExtractionOptions {
+    /** descarta quarteirões menores que isto após descontar as vias (default: 1 m²) */
+    minAreaM2?: number;
+    /** escala inteira usada pelo Clipper (default: config.render.clipperScale) */
+    clipperScale?: number;
+}
+
+const signedArea = (pts: Point[]) => {
+    let a = 0;
+    for (let i = 0, j = pts.length - 1; i < pts.length; j = i++) {
+        a += (pts[j].x * pts[i].y) - (pts[i].x * pts[j].y);
+    }
+    return a / 2;
+};
+
+/** Centroide de área do polígono (média dos vértices se degenerado); zona do quarteirão = zona aqui */
+export const centroidOf = (pts: Point[]): Point => {
+    const A = signedArea(pts);
+    if (Math.abs(A) < 1e-9) {
+        const n = pts.length || 1;
+        return { x: pts.reduce((s, p) => s + p.x, 0) / n, y: pts.reduce((s, p) => s + p.y, 0) / n };
+    }
+    let cx = 0, cy = 0;
+    for (let i = 0, j = pts.length - 1; i < pts.length; j = i++) {
+        const f = (pts[j].x * pts[i].y) - (pts[i].x * pts[j].y);
+        cx += (pts[j].x + pts[i].x) * f;
+        cy += (pts[j].y + pts[i].y) * f;
+    }
+    return { x: cx / (6 * A), y: cy / (6 * A) };
+};
+
+/** Retângulo da faixa de rolamento do segmento (largura total) em coordenadas do Clipper */
+const roadRect = (segment: Segment, S: number) => {
+    const r = segment.width / 2;
+    const a = segment.r.start, b = segment.r.end;
+    const len = Math.hypot(b.x - a.x, b.y - a.y) || 1;
+    const nx = -(b.y - a.y) / len * r, ny = (b.x - a.x) / len * r;
+    return [
+        { X: Math.round((a.x + nx) * S), Y: Math.round((a.y + ny) * S) },
+        { X: Math.round((b.x + nx) * S), Y: Math.round((b.y + ny) * S) },
+        { X: Math.round((b.x - nx) * S), Y: Math.round((b.y - ny) * S) },
+        { X: Math.round((a.x - nx) * S), Y: Math.round((a.y - ny) * S) },
+    ];
+};
+
 /**
- * Gera um polígono com cantos curvos para um quarteirão
+ * Extrai os quarteirões percorrendo as faces internas do grafo viário.
+ * O polígono de cada quarteirão é a face menos as vias que tocam seus nós (esquinas incluídas);
+ * a zona vem de zoneAt (zoneamento da geração) no centroide.
  */
-export function generateCurvedBlockPolygon(block: Block): Polygon {
-    const halfWidth = block.width / 2;
-    const halfHeight = block.height / 2;
-    const radius = Math.min(block.curveRadius, Math.min(halfWidth, halfHeight) * 0.4);
-    
-    const vertices: Point[] = [];
-    
-    // Definir os cantos internos (onde começam as curvas)
-    const corners = [
-        { x: block.center.x - halfWidth + radius, y: block.center.y - halfHeight + radius }, // Top-left inner
-        { x: block.center.x + halfWidth - radius, y: block.center.y - halfHeight + radius }, // Top-right inner
-        { x: block.center.x + halfWidth - radius, y: block.center.y + halfHeight - radius }, // Bottom-right inner
-        { x: block.center.x - halfWidth + radius, y: block.center.y + halfHeight - radius }  // Bottom-left inner
-    ];
-    
-    const segments = 8; // Número de segmentos por curva (para suavidade)
-    
-    // Para cada canto, gerar a curva
-    for (let i = 0; i < 4; i++) {
-        const currentCorner = corners[i];
-        const nextCorner = corners[(i + 1) % 4];
-        
-        // Adicionar pontos antes da curva
-        switch (i) {
-            case 0: // Top-left
-                vertices.push({ x: block.center.x - halfWidth, y: currentCorner.y });
-                break;
-            case 1: // Top-right
-                vertices.push({ x: currentCorner.x, y: block.center.y - halfHeight });
-                break;
-            case 2: // Bottom-right
-                vertices.push({ x: block.center.x + halfWidth, y: currentCorner.y });
-                break;
-            case 3: // Bottom-left
-                vertices.push({ x: currentCorner.x, y: block.center.y + halfHeight });
-                break;
+export function extractBlocks(input: Segment[] | RoadGraph, zoneAt: (p: Point) => ZoneName, options: BlockExtractionOptions = {}): Block[] {
+    const graph = input instanceof RoadGraph ? input : RoadGraph.fromSegments(input);
+    const S = options.clipperScale ?? (config as any).render.clipperScale ?? 100;
+    const minArea = options.minAreaM2 ?? 1;
+
+    // pontes/viadutos ficam fora das faces (só vias no solo) mas podem passar por cima de um quarteirão
+    const raised = graph.edges.filter(e => e.segment.level > 0);
+
+    const blocks: Block[] = [];
+    graph.faces().forEach((face: RoadFace) => {
+        // Vias a descontar: todas as incidentes aos nós da face (cobre esquinas e ruas sem saída internas)
+        const clipEdges = new Set<number>();
+        face.nodes.forEach(n => graph.nodes[n].edges.forEach(e => clipEdges.add(e)));
+        if (raised.length) {
+            const xs = face.polygon.map(p => p.x), ys = face.polygon.map(p => p.y);
+            const x0 = Math.min(...xs), x1 = Math.max(...xs), y0 = Math.min(...ys), y1 = Math.max(...ys);
+            raised.forEach(e => {
+                const a = e.segment.r.start, b = e.segment.r.end;
+                if (Math.max(a.x, b.x) >= x0 && Math.min(a.x, b.x) <= x1 && Math.max(a.y, b.y) >= y0 && Math.min(a.y, b.y) <= y1) clipEdges.add(e.id);
+            });
         }
-        
-        // Gerar a curva
-        const startAngle = i * Math.PI / 2 + Math.PI;
-        const endAngle = startAngle + Math.PI / 2;
-        
-        for (let j = 0; j <= segments; j++) {
-            const angle = startAngle + (endAngle - startAngle) * (j / segments);
-            const x = currentCorner.x + radius * Math.cos(angle);
-            const y = currentCorner.y + radius * Math.sin(angle);
-            vertices.push({ x, y });
+
+        const cpr = new ClipperLib.Clipper();
+        cpr.AddPath(face.polygon.map(p => ({ X: Math.round(p.x * S), Y: Math.round(p.y * S) })), ClipperLib.PolyType.ptSubject, true);
+        cpr.AddPaths(Array.from(clipEdges).map(e => roadRect(graph.edges[e].segment, S)), ClipperLib.PolyType.ptClip, true);
+        const solution = new ClipperLib.Paths();
+        cpr.Execute(ClipperLib.ClipType.ctDifference, solution, ClipperLib.PolyFillType.pftNonZero, ClipperLib.PolyFillType.pftNonZero);
+
+        // Maior parte restante (faixas residuais finas nas pontas são descartadas)
+        let best: Point[] | null = null, bestArea = 0;
+        for (const path of solution) {
+            const pts: Point[] = path.map((p: any) => ({ x: p.X / S, y: p.Y / S }));
+            const a = signedArea(pts);
+            if (a > bestArea) { best = pts; bestArea = a; }
         }
-    }
-    
-    return { vertices };
-}
+        if (!best || bestArea < minArea) return;
 
-/**
- * Subtrai um polígono de outro, retornando a área de diferença
- * Implementação simplificada para polígonos convexos
- */
-export function subtractPolygons(original: Polygon, curved: Polygon): Polygon[] {
-    // Para uma implementação simplificada, vamos retornar as áreas dos cantos
-    // que representam a diferença entre o retângulo original e o polígono curvo
-    
-    const cornerPolygons: Polygon[] = [];
-    
-    // Esta é uma aproximação - em um caso real, usaríamos uma biblioteca como Clipper.js
-    // Por agora, vamos criar polígonos que representam as áreas dos cantos removidos
-    
-    if (original.vertices.length >= 4 && curved.vertices.length > 4) {
-        // Assumindo que o polígono original é um retângulo e o curvo tem cantos arredondados
-        const originalRect = original.vertices;
-        
-        // Criar pequenos polígonos nos cantos para representar a área removida
-        const cornerSize = 20; // Tamanho aproximado dos cantos
-        
-        // Canto superior esquerdo
-        cornerPolygons.push({
-            vertices: [
-                originalRect[0],
-                { x: originalRect[0].x + cornerSize, y: originalRect[0].y },
-                { x: originalRect[0].x + cornerSize, y: originalRect[0].y + cornerSize },
-                { x: originalRect[0].x, y: originalRect[0].y + cornerSize }
-            ]
-        });
-        
-        // Canto superior direito
-        cornerPolygons.push({
-            vertices: [
-                { x: originalRect[1].x - cornerSize, y: originalRect[1].y },
-                originalRect[1],
-                { x: originalRect[1].x, y: originalRect[1].y + cornerSize },
-                { x: originalRect[1].x - cornerSize, y: originalRect[1].y + cornerSize }
-            ]
-        });
-        
-        // Canto inferior direito
-        cornerPolygons.push({
-            vertices: [
-                { x: originalRect[2].x - cornerSize, y: originalRect[2].y - cornerSize },
-                { x: originalRect[2].x, y: originalRect[2].y - cornerSize },
-                originalRect[2],
-                { x: originalRect[2].x - cornerSize, y: originalRect[2].y }
-            ]
-        });
-        
-        // Canto inferior esquerdo
-        cornerPolygons.push({
-            vertices: [
-                { x: originalRect[3].x, y: originalRect[3].y - cornerSize },
-                { x: originalRect[3].x + cornerSize, y: originalRect[3].y - cornerSize },
-                { x: originalRect[3].x + cornerSize, y: originalRect[3].y },
-                originalRect[3]
-            ]
+        const sides = new Map<number, number>();
+        face.edges.forEach(e => sides.set(e, (sides.get(e) ?? 0) + 1));
+        const frontage: BlockFrontage[] = Array.from(sides.entries()).map(([edgeId, n]) => ({
+            edgeId,
+            segment: graph.edges[edgeId].segment,
+            lengthM: graph.edges[edgeId].length * n,
+        }));
+
+        blocks.push({
+            id: blocks.length,
+            centerline: face.polygon.map(p => ({ x: p.x, y: p.y })),
+            polygon: best,
+            segments: frontage.map(f => f.segment),
+            frontage,
+            frontageM: frontage.reduce((s, f) => s + f.lengthM, 0),
+            area: bestArea,
+            zone: zoneAt(centroidOf(best)),
         });
-    }
-    
-    return cornerPolygons;
+    });
+    return blocks;
 }
 
 /**
@@ -2,9 +2,9 @@ import * as _ from 'lodash';
 import * as collision from '../generic_modules/collision';
 import * as math from '../generic_modules/math';
 import * as util from '../generic_modules/utility';
-import { config } from './config';
+import { generationOptions } from './config';
+import type { GenerationOptions } from './config';
 import type { Segment, ZoneName } from './mapgen';
-import { getZoneAt } from './mapgen';
 import type Quadtree from '../lib/quadtree';
 
 export enum BuildingType {
@@ -110,15 +110,17 @@ export class Building {
 // usar o ZoneName exportado de mapgen (inclui 'downtown')
 
 export const buildingFactory = {
-    fromProbability(time: number): Building {
-        const r = Math.random();
-        if (r < 0.2) return this.byType(BuildingType.IMPORT, time);
-        if (r < 0.6) return this.byType(BuildingType.RESIDENTIAL, time);
-        return this.byType(BuildingType.HOUSE, time);
+    fromProbability(time: number, genOptions: GenerationOptions = generationOptions()): Building {
+        const rng = genOptions.rng ?? Math.random;
+        const r = rng();
+        if (r < 0.2) return this.byType(BuildingType.IMPORT, time, genOptions);
+        if (r < 0.6) return this.byType(BuildingType.RESIDENTIAL, time, genOptions);
+        return this.byType(BuildingType.HOUSE, time, genOptions);
     },
 
-    fromZone(zone: ZoneName, time: number): Building {
-        const mix = (config as any).zones?.[zone]?.buildingMix || {};
+    fromZone(zone: ZoneName, time: number, genOptions: GenerationOptions = generationOptions()): Building {
+        const rng = genOptions.rng ?? Math.random;
+        const mix = (genOptions.zones as any)?.[zone]?.buildingMix || {};
         // Whitelists por zona
         const allowByZone: Record<ZoneName, Array<keyof typeof mix>> = {
             downtown: [
@@ -201,453 +203,454 @@ export const buildingFactory = {
             { t: BuildingType.FIELD, k: 'field' },
             { t: BuildingType.POND, k: 'pond' },
         ];
-        let r = Math.random();
+        let r = rng();
         for (const { t, k } of order) {
             if (!allowed.has(k as any)) continue;
             const p = (mix as any)[k] ?? 0;
-            if (r < p) return this.byType(t, time);
+            if (r < p) return this.byType(t, time, genOptions);
             r -= p;
         }
-        return this.byType(BuildingType.HOUSE, time);
+        return this.byType(BuildingType.HOUSE, time, genOptions);
     },
 
-    byType(type: BuildingType, time: number): Building {
+    byType(type: BuildingType, time: number, genOptions: GenerationOptions = generationOptions()): Building {
+    const rng = genOptions.rng ?? Math.random;
     // Valor padrão para satisfazer o compilador; será sobrescrito nos casos abaixo
-    const defW = config.buildings.dimensions.house.width;
-    const defD = config.buildings.dimensions.house.depth;
-    const defDiag = Math.hypot(defW, defD) / 2 * Math.sqrt(config.buildings.areaScale);
+    const defW = genOptions.buildings.dimensions.house.width;
+    const defD = genOptions.buildings.dimensions.house.depth;
+    const defDiag = Math.hypot(defW, defD) / 2 * Math.sqrt(genOptions.buildings.areaScale);
     let building: Building = new Building({ x: 0, y: 0 }, 0, defDiag, BuildingType.HOUSE, defW / defD);
         switch (type) {
             // === Residencial detalhado ===
             case BuildingType.RESIDENTIAL:
                 {
-                    const w = config.buildings.dimensions.residential.width;
-                    const d = config.buildings.dimensions.residential.depth;
-                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(config.buildings.areaScale) * math.randomRange(0.9, 1.1);
-                    const ar = w / d * math.randomRange(0.9, 1.1);
+                    const w = genOptions.buildings.dimensions.residential.width;
+                    const d = genOptions.buildings.dimensions.residential.depth;
+                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(genOptions.buildings.areaScale) * math.randomRange(0.9, 1.1, rng);
+                    const ar = w / d * math.randomRange(0.9, 1.1, rng);
                     building = new Building({ x: 0, y: 0 }, 0, diag, BuildingType.RESIDENTIAL, ar);
                 }
                 break;
             case BuildingType.HOUSE_SMALL:
                 {
-                    const w = (config.buildings as any).dimensions.houseSmall.width;
-                    const d = (config.buildings as any).dimensions.houseSmall.depth;
-                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(config.buildings.areaScale) * math.randomRange(0.92, 1.1);
-                    const ar = w / d * math.randomRange(0.9, 1.1);
+                    const w = genOptions.buildings.dimensions.houseSmall.width;
+                    const d = genOptions.buildings.dimensions.houseSmall.depth;
+                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(genOptions.buildings.areaScale) * math.randomRange(0.92, 1.1, rng);
+                    const ar = w / d * math.randomRange(0.9, 1.1, rng);
                     building = new Building({ x: 0, y: 0 }, 0, diag, BuildingType.HOUSE_SMALL, ar);
                 }
                 break;
             case BuildingType.HOUSE_HIGH:
                 {
-                    const w = (config.buildings as any).dimensions.houseHigh.width;
-                    const d = (config.buildings as any).dimensions.houseHigh.depth;
-                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(config.buildings.areaScale) * math.randomRange(0.95, 1.08);
-                    const ar = w / d * math.randomRange(0.9, 1.1);
+                    const w = genOptions.buildings.dimensions.houseHigh.width;
+                    const d = genOptions.buildings.dimensions.houseHigh.depth;
+                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(genOptions.buildings.areaScale) * math.randomRange(0.95, 1.08, rng);
+                    const ar = w / d * math.randomRange(0.9, 1.1, rng);
                     building = new Building({ x: 0, y: 0 }, 0, diag, BuildingType.HOUSE_HIGH, ar);
                 }
                 break;
             case BuildingType.APARTMENT_BLOCK:
                 {
-                    const w = (config.buildings as any).dimensions.apartmentBlock.width;
-                    const d = (config.buildings as any).dimensions.apartmentBlock.depth;
-                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(config.buildings.areaScale) * math.randomRange(0.95, 1.06);
-                    const ar = w / d * math.randomRange(0.95, 1.05);
+                    const w = genOptions.buildings.dimensions.apartmentBlock.width;
+                    const d = genOptions.buildings.dimensions.apartmentBlock.depth;
+                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(genOptions.buildings.areaScale) * math.randomRange(0.95, 1.06, rng);
+                    const ar = w / d * math.randomRange(0.95, 1.05, rng);
                     building = new Building({ x: 0, y: 0 }, 0, diag, BuildingType.APARTMENT_BLOCK, ar);
                 }
                 break;
             case BuildingType.CONDO_TOWER:
                 {
-                    const w = (config.buildings as any).dimensions.condoTower.width;
-                    const d = (config.buildings as any).dimensions.condoTower.depth;
-                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(config.buildings.areaScale) * math.randomRange(0.95, 1.05);
-                    const ar = w / d * math.randomRange(0.95, 1.05);
+                    const w = genOptions.buildings.dimensions.condoTower.width;
+                    const d = genOptions.buildings.dimensions.condoTower.depth;
+                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(genOptions.buildings.areaScale) * math.randomRange(0.95, 1.05, rng);
+                    const ar = w / d * math.randomRange(0.95, 1.05, rng);
                     building = new Building({ x: 0, y: 0 }, 0, diag, BuildingType.CONDO_TOWER, ar);
                 }
                 break;
             case BuildingType.SCHOOL:
                 {
-                    const w = (config.buildings as any).dimensions.school.width;
-                    const d = (config.buildings as any).dimensions.school.depth;
-                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(config.buildings.areaScale) * math.randomRange(0.95, 1.08);
-                    const ar = w / d * math.randomRange(0.9, 1.1);
+                    const w = genOptions.buildings.dimensions.school.width;
+                    const d = genOptions.buildings.dimensions.school.depth;
+                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(genOptions.buildings.areaScale) * math.randomRange(0.95, 1.08, rng);
+                    const ar = w / d * math.randomRange(0.9, 1.1, rng);
                     building = new Building({ x: 0, y: 0 }, 0, diag, BuildingType.SCHOOL, ar);
                 }
                 break;
             case BuildingType.LEISURE:
                 {
-                    const w = (config.buildings as any).dimensions.leisureArea.width;
-                    const d = (config.buildings as any).dimensions.leisureArea.depth;
-                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(config.buildings.areaScale) * math.randomRange(0.9, 1.08);
-                    const ar = w / d * math.randomRange(0.9, 1.1);
+                    const w = genOptions.buildings.dimensions.leisureArea.width;
+                    const d = genOptions.buildings.dimensions.leisureArea.depth;
+                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(genOptions.buildings.areaScale) * math.randomRange(0.9, 1.08, rng);
+                    const ar = w / d * math.randomRange(0.9, 1.1, rng);
                     building = new Building({ x: 0, y: 0 }, 0, diag, BuildingType.LEISURE, ar);
                 }
                 break;
             case BuildingType.IMPORT:
                 {
-                    const w = config.buildings.dimensions.import.width;
-                    const d = config.buildings.dimensions.import.depth;
-                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(config.buildings.areaScale) * math.randomRange(0.95, 1.1);
-                    const ar = w / d * math.randomRange(0.95, 1.1);
+                    const w = genOptions.buildings.dimensions.import.width;
+                    const d = genOptions.buildings.dimensions.import.depth;
+                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(genOptions.buildings.areaScale) * math.randomRange(0.95, 1.1, rng);
+                    const ar = w / d * math.randomRange(0.95, 1.1, rng);
                     building = new Building({ x: 0, y: 0 }, 0, diag, BuildingType.IMPORT, ar);
                 }
                 break;
             case BuildingType.COMMERCIAL:
                 {
-                    const w = config.buildings.dimensions.commercial.width;
-                    const d = config.buildings.dimensions.commercial.depth;
-                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(config.buildings.areaScale) * math.randomRange(0.95, 1.1);
-                    const ar = w / d * math.randomRange(0.95, 1.1);
+                    const w = genOptions.buildings.dimensions.commercial.width;
+                    const d = genOptions.buildings.dimensions.commercial.depth;
+                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(genOptions.buildings.areaScale) * math.randomRange(0.95, 1.1, rng);
+                    const ar = w / d * math.randomRange(0.95, 1.1, rng);
                     building = new Building({ x: 0, y: 0 }, 0, diag, BuildingType.COMMERCIAL, ar);
                 }
                 break;
             case BuildingType.COMMERCIAL_MEDIUM:
                 {
-                    const w = (config.buildings as any).dimensions.commercialMedium.width;
-                    const d = (config.buildings as any).dimensions.commercialMedium.depth;
-                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(config.buildings.areaScale) * math.randomRange(0.95, 1.08);
-                    const ar = w / d * math.randomRange(0.95, 1.05);
+                    const w = genOptions.buildings.dimensions.commercialMedium.width;
+                    const d = genOptions.buildings.dimensions.commercialMedium.depth;
+                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(genOptions.buildings.areaScale) * math.randomRange(0.95, 1.08, rng);
+                    const ar = w / d * math.randomRange(0.95, 1.05, rng);
                     building = new Building({ x: 0, y: 0 }, 0, diag, BuildingType.COMMERCIAL_MEDIUM, ar);
                 }
                 break;
             case BuildingType.COMMERCIAL_LARGE:
                 {
-                    const w = (config.buildings as any).dimensions.commercialLarge.width;
-                    const d = (config.buildings as any).dimensions.commercialLarge.depth;
-                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(config.buildings.areaScale) * math.randomRange(0.95, 1.05);
-                    const ar = w / d * math.randomRange(0.95, 1.05);
+                    const w = genOptions.buildings.dimensions.commercialLarge.width;
+                    const d = genOptions.buildings.dimensions.commercialLarge.depth;
+                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(genOptions.buildings.areaScale) * math.randomRange(0.95, 1.05, rng);
+                    const ar = w / d * math.randomRange(0.95, 1.05, rng);
                     building = new Building({ x: 0, y: 0 }, 0, diag, BuildingType.COMMERCIAL_LARGE, ar);
                 }
                 break;
             case BuildingType.SHOP_SMALL:
                 {
-                    const w = (config.buildings as any).dimensions.shopSmall.width;
-                    const d = (config.buildings as any).dimensions.shopSmall.depth;
-                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(config.buildings.areaScale) * math.randomRange(0.92, 1.08);
-                    const ar = w / d * math.randomRange(0.9, 1.1);
+                    const w = genOptions.buildings.dimensions.shopSmall.width;
+                    const d = genOptions.buildings.dimensions.shopSmall.depth;
+                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(genOptions.buildings.areaScale) * math.randomRange(0.92, 1.08, rng);
+                    const ar = w / d * math.randomRange(0.9, 1.1, rng);
                     building = new Building({ x: 0, y: 0 }, 0, diag, BuildingType.SHOP_SMALL, ar);
                 }
                 break;
             case BuildingType.KIOSK:
                 {
-                    const w = (config.buildings as any).dimensions.kiosk.width;
-                    const d = (config.buildings as any).dimensions.kiosk.depth;
-                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(config.buildings.areaScale) * math.randomRange(0.9, 1.12);
-                    const ar = w / d * math.randomRange(0.85, 1.15);
+                    const w = genOptions.buildings.dimensions.kiosk.width;
+                    const d = genOptions.buildings.dimensions.kiosk.depth;
+                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(genOptions.buildings.areaScale) * math.randomRange(0.9, 1.12, rng);
+                    const ar = w / d * math.randomRange(0.85, 1.15, rng);
                     building = new Building({ x: 0, y: 0 }, 0, diag, BuildingType.KIOSK, ar);
                 }
                 break;
             case BuildingType.BAKERY:
                 {
-                    const w = (config.buildings as any).dimensions.bakery.width;
-                    const d = (config.buildings as any).dimensions.bakery.depth;
-                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(config.buildings.areaScale) * math.randomRange(0.92, 1.08);
-                    const ar = w / d * math.randomRange(0.9, 1.1);
+                    const w = genOptions.buildings.dimensions.bakery.width;
+                    const d = genOptions.buildings.dimensions.bakery.depth;
+                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(genOptions.buildings.areaScale) * math.randomRange(0.92, 1.08, rng);
+                    const ar = w / d * math.randomRange(0.9, 1.1, rng);
                     building = new Building({ x: 0, y: 0 }, 0, diag, BuildingType.BAKERY, ar);
                 }
                 break;
             case BuildingType.RESTAURANT:
                 {
-                    const w = (config.buildings as any).dimensions.restaurant.width;
-                    const d = (config.buildings as any).dimensions.restaurant.depth;
-                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(config.buildings.areaScale) * math.randomRange(0.92, 1.08);
-                    const ar = w / d * math.randomRange(0.9, 1.1);
+                    const w = genOptions.buildings.dimensions.restaurant.width;
+                    const d = genOptions.buildings.dimensions.restaurant.depth;
+                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(genOptions.buildings.areaScale) * math.randomRange(0.92, 1.08, rng);
+                    const ar = w / d * math.randomRange(0.9, 1.1, rng);
                     building = new Building({ x: 0, y: 0 }, 0, diag, BuildingType.RESTAURANT, ar);
                 }
                 break;
             case BuildingType.BAR:
                 {
-                    const w = (config.buildings as any).dimensions.bar.width;
-                    const d = (config.buildings as any).dimensions.bar.depth;
-                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(config.buildings.areaScale) * math.randomRange(0.92, 1.12);
-                    const ar = w / d * math.randomRange(0.9, 1.1);
+                    const w = genOptions.buildings.dimensions.bar.width;
+                    const d = genOptions.buildings.dimensions.bar.depth;
+                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(genOptions.buildings.areaScale) * math.randomRange(0.92, 1.12, rng);
+                    const ar = w / d * math.randomRange(0.9, 1.1, rng);
                     building = new Building({ x: 0, y: 0 }, 0, diag, BuildingType.BAR, ar);
                 }
                 break;
             case BuildingType.PHARMACY:
                 {
-                    const w = (config.buildings as any).dimensions.pharmacy.width;
-                    const d = (config.buildings as any).dimensions.pharmacy.depth;
-                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(config.buildings.areaScale) * math.randomRange(0.92, 1.08);
-                    const ar = w / d * math.randomRange(0.9, 1.1);
+                    const w = genOptions.buildings.dimensions.pharmacy.width;
+                    const d = genOptions.buildings.dimensions.pharmacy.depth;
+                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(genOptions.buildings.areaScale) * math.randomRange(0.92, 1.08, rng);
+                    const ar = w / d * math.randomRange(0.9, 1.1, rng);
                     building = new Building({ x: 0, y: 0 }, 0, diag, BuildingType.PHARMACY, ar);
                 }
                 break;
             case BuildingType.GROCERY:
                 {
-                    const w = (config.buildings as any).dimensions.grocery.width;
-                    const d = (config.buildings as any).dimensions.grocery.depth;
-                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(config.buildings.areaScale) * math.randomRange(0.94, 1.08);
-                    const ar = w / d * math.randomRange(0.9, 1.1);
+                    const w = genOptions.buildings.dimensions.grocery.width;
+                    const d = genOptions.buildings.dimensions.grocery.depth;
+                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(genOptions.buildings.areaScale) * math.randomRange(0.94, 1.08, rng);
+                    const ar = w / d * math.randomRange(0.9, 1.1, rng);
                     building = new Building({ x: 0, y: 0 }, 0, diag, BuildingType.GROCERY, ar);
                 }
                 break;
             case BuildingType.SUPERMARKET:
                 {
-                    const w = (config.buildings as any).dimensions.supermarket.width;
-                    const d = (config.buildings as any).dimensions.supermarket.depth;
-                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(config.buildings.areaScale) * math.randomRange(0.95, 1.08);
-                    const ar = w / d * math.randomRange(0.95, 1.05);
+                    const w = genOptions.buildings.dimensions.supermarket.width;
+                    const d = genOptions.buildings.dimensions.supermarket.depth;
+                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(genOptions.buildings.areaScale) * math.randomRange(0.95, 1.08, rng);
+                    const ar = w / d * math.randomRange(0.95, 1.05, rng);
                     building = new Building({ x: 0, y: 0 }, 0, diag, BuildingType.SUPERMARKET, ar);
                 }
                 break;
             case BuildingType.SHOPPING_CENTER:
                 {
-                    const w = (config.buildings as any).dimensions.shoppingCenter.width;
-                    const d = (config.buildings as any).dimensions.shoppingCenter.depth;
-                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(config.buildings.areaScale) * math.randomRange(0.98, 1.02);
-                    const ar = w / d * math.randomRange(0.98, 1.02);
+                    const w = genOptions.buildings.dimensions.shoppingCenter.width;
+                    const d = genOptions.buildings.dimensions.shoppingCenter.depth;
+                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(genOptions.buildings.areaScale) * math.randomRange(0.98, 1.02, rng);
+                    const ar = w / d * math.randomRange(0.98, 1.02, rng);
                     building = new Building({ x: 0, y: 0 }, 0, diag, BuildingType.SHOPPING_CENTER, ar);
                 }
                 break;
             case BuildingType.OFFICE:
                 {
-                    const w = (config.buildings as any).dimensions.office.width;
-                    const d = (config.buildings as any).dimensions.office.depth;
-                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(config.buildings.areaScale) * math.randomRange(0.95, 1.08);
-                    const ar = w / d * math.randomRange(0.95, 1.1);
+                    const w = genOptions.buildings.dimensions.office.width;
+                    const d = genOptions.buildings.dimensions.office.depth;
+                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(genOptions.buildings.areaScale) * math.randomRange(0.95, 1.08, rng);
+                    const ar = w / d * math.randomRange(0.95, 1.1, rng);
                     building = new Building({ x: 0, y: 0 }, 0, diag, BuildingType.OFFICE, ar);
                 }
                 break;
             case BuildingType.HOTEL:
                 {
-                    const w = (config.buildings as any).dimensions.hotel.width;
-                    const d = (config.buildings as any).dimensions.hotel.depth;
-                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(config.buildings.areaScale) * math.randomRange(0.95, 1.08);
-                    const ar = w / d * math.randomRange(0.95, 1.1);
+                    const w = genOptions.buildings.dimensions.hotel.width;
+                    const d = genOptions.buildings.dimensions.hotel.depth;
+                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(genOptions.buildings.areaScale) * math.randomRange(0.95, 1.08, rng);
+                    const ar = w / d * math.randomRange(0.95, 1.1, rng);
                     building = new Building({ x: 0, y: 0 }, 0, diag, BuildingType.HOTEL, ar);
                 }
                 break;
             case BuildingType.CONVENTION_CENTER:
                 {
-                    const w = (config.buildings as any).dimensions.conventionCenter.width;
-                    const d = (config.buildings as any).dimensions.conventionCenter.depth;
-                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(config.buildings.areaScale) * math.randomRange(0.98, 1.04);
-                    const ar = w / d * math.randomRange(0.95, 1.05);
+                    const w = genOptions.buildings.dimensions.conventionCenter.width;
+                    const d = genOptions.buildings.dimensions.conventionCenter.depth;
+                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(genOptions.buildings.areaScale) * math.randomRange(0.98, 1.04, rng);
+                    const ar = w / d * math.randomRange(0.95, 1.05, rng);
                     building = new Building({ x: 0, y: 0 }, 0, diag, BuildingType.CONVENTION_CENTER, ar);
                 }
                 break;
             case BuildingType.CINEMA:
                 {
-                    const w = (config.buildings as any).dimensions.cinema.width;
-                    const d = (config.buildings as any).dimensions.cinema.depth;
-                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(config.buildings.areaScale) * math.randomRange(0.96, 1.06);
-                    const ar = w / d * math.randomRange(0.9, 1.1);
+                    const w = genOptions.buildings.dimensions.cinema.width;
+                    const d = genOptions.buildings.dimensions.cinema.depth;
+                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(genOptions.buildings.areaScale) * math.randomRange(0.96, 1.06, rng);
+                    const ar = w / d * math.randomRange(0.9, 1.1, rng);
                     building = new Building({ x: 0, y: 0 }, 0, diag, BuildingType.CINEMA, ar);
                 }
                 break;
             case BuildingType.HOSPITAL_PRIVATE:
                 {
-                    const w = (config.buildings as any).dimensions.hospitalPrivate.width;
-                    const d = (config.buildings as any).dimensions.hospitalPrivate.depth;
-                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(config.buildings.areaScale) * math.randomRange(0.98, 1.04);
-                    const ar = w / d * math.randomRange(0.95, 1.05);
+                    const w = genOptions.buildings.dimensions.hospitalPrivate.width;
+                    const d = genOptions.buildings.dimensions.hospitalPrivate.depth;
+                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(genOptions.buildings.areaScale) * math.randomRange(0.98, 1.04, rng);
+                    const ar = w / d * math.randomRange(0.95, 1.05, rng);
                     building = new Building({ x: 0, y: 0 }, 0, diag, BuildingType.HOSPITAL_PRIVATE, ar);
                 }
                 break;
             case BuildingType.CLINIC:
                 {
-                    const w = (config.buildings as any).dimensions.clinic.width;
-                    const d = (config.buildings as any).dimensions.clinic.depth;
-                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(config.buildings.areaScale) * math.randomRange(0.95, 1.1);
-                    const ar = w / d * math.randomRange(0.9, 1.1);
+                    const w = genOptions.buildings.dimensions.clinic.width;
+                    const d = genOptions.buildings.dimensions.clinic.depth;
+                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(genOptions.buildings.areaScale) * math.randomRange(0.95, 1.1, rng);
+                    const ar = w / d * math.randomRange(0.9, 1.1, rng);
                     building = new Building({ x: 0, y: 0 }, 0, diag, BuildingType.CLINIC, ar);
                 }
                 break;
             case BuildingType.PUBLIC_OFFICE:
                 {
-                    const w = (config.buildings as any).dimensions.publicOffice.width;
-                    const d = (config.buildings as any).dimensions.publicOffice.depth;
-                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(config.buildings.areaScale) * math.randomRange(0.95, 1.08);
-                    const ar = w / d * math.randomRange(0.9, 1.1);
+                    const w = genOptions.buildings.dimensions.publicOffice.width;
+                    const d = genOptions.buildings.dimensions.publicOffice.depth;
+                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(genOptions.buildings.areaScale) * math.randomRange(0.95, 1.08, rng);
+                    const ar = w / d * math.randomRange(0.9, 1.1, rng);
                     building = new Building({ x: 0, y: 0 }, 0, diag, BuildingType.PUBLIC_OFFICE, ar);
                 }
                 break;
             case BuildingType.GAS_STATION:
                 {
-                    const w = (config.buildings as any).dimensions.gasStation.width;
-                    const d = (config.buildings as any).dimensions.gasStation.depth;
-                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(config.buildings.areaScale) * math.randomRange(0.95, 1.1);
-                    const ar = w / d * math.randomRange(0.9, 1.1);
+                    const w = genOptions.buildings.dimensions.gasStation.width;
+                    const d = genOptions.buildings.dimensions.gasStation.depth;
+                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(genOptions.buildings.areaScale) * math.randomRange(0.95, 1.1, rng);
+                    const ar = w / d * math.randomRange(0.9, 1.1, rng);
                     building = new Building({ x: 0, y: 0 }, 0, diag, BuildingType.GAS_STATION, ar);
                 }
                 break;
             case BuildingType.BANK:
                 {
-                    const w = (config.buildings as any).dimensions.bank.width;
-                    const d = (config.buildings as any).dimensions.bank.depth;
-                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(config.buildings.areaScale) * math.randomRange(0.95, 1.1);
-                    const ar = w / d * math.randomRange(0.95, 1.1);
+                    const w = genOptions.buildings.dimensions.bank.width;
+                    const d = genOptions.buildings.dimensions.bank.depth;
+                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(genOptions.buildings.areaScale) * math.randomRange(0.95, 1.1, rng);
+                    const ar = w / d * math.randomRange(0.95, 1.1, rng);
                     building = new Building({ x: 0, y: 0 }, 0, diag, BuildingType.BANK, ar);
                 }
                 break;
             case BuildingType.PARK:
                 {
-                    const w = (config.buildings as any).dimensions.park.width;
-                    const d = (config.buildings as any).dimensions.park.depth;
-                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(config.buildings.areaScale) * math.randomRange(0.95, 1.05);
-                    const ar = w / d * math.randomRange(0.95, 1.05);
+                    const w = genOptions.buildings.dimensions.park.width;
+                    const d = genOptions.buildings.dimensions.park.depth;
+                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(genOptions.buildings.areaScale) * math.randomRange(0.95, 1.05, rng);
+                    const ar = w / d * math.randomRange(0.95, 1.05, rng);
                     building = new Building({ x: 0, y: 0 }, 0, diag, BuildingType.PARK, ar);
                 }
                 break;
             case BuildingType.GREEN:
                 {
-                    const w = (config.buildings as any).dimensions.green.width;
-                    const d = (config.buildings as any).dimensions.green.depth;
-                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(config.buildings.areaScale) * math.randomRange(0.9, 1.1);
-                    const ar = w / d * math.randomRange(0.9, 1.1);
+                    const w = genOptions.buildings.dimensions.green.width;
+                    const d = genOptions.buildings.dimensions.green.depth;
+                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(genOptions.buildings.areaScale) * math.randomRange(0.9, 1.1, rng);
+                    const ar = w / d * math.randomRange(0.9, 1.1, rng);
                     building = new Building({ x: 0, y: 0 }, 0, diag, BuildingType.GREEN, ar);
                 }
                 break;
             case BuildingType.CHURCH:
                 {
-                    const w = (config.buildings as any).dimensions.church.width;
-                    const d = (config.buildings as any).dimensions.church.depth;
-                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(config.buildings.areaScale) * math.randomRange(0.95, 1.1);
-                    const ar = w / d * math.randomRange(0.8, 1.2);
+                    const w = genOptions.buildings.dimensions.church.width;
+                    const d = genOptions.buildings.dimensions.church.depth;
+                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(genOptions.buildings.areaScale) * math.randomRange(0.95, 1.1, rng);
+                    const ar = w / d * math.randomRange(0.8, 1.2, rng);
                     building = new Building({ x: 0, y: 0 }, 0, diag, BuildingType.CHURCH, ar);
                 }
                 break;
             case BuildingType.FACTORY:
                 {
-                    const w = (config.buildings as any).dimensions.factory.width;
-                    const d = (config.buildings as any).dimensions.factory.depth;
-                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(config.buildings.areaScale) * math.randomRange(0.95, 1.08);
-                    const ar = w / d * math.randomRange(0.9, 1.1);
+                    const w = genOptions.buildings.dimensions.factory.width;
+                    const d = genOptions.buildings.dimensions.factory.depth;
+                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(genOptions.buildings.areaScale) * math.randomRange(0.95, 1.08, rng);
+                    const ar = w / d * math.randomRange(0.9, 1.1, rng);
                     building = new Building({ x: 0, y: 0 }, 0, diag, BuildingType.FACTORY, ar);
                 }
                 break;
             case BuildingType.WAREHOUSE_SMALL:
                 {
-                    const w = (config.buildings as any).dimensions.warehouseSmall.width;
-                    const d = (config.buildings as any).dimensions.warehouseSmall.depth;
-                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(config.buildings.areaScale) * math.randomRange(0.95, 1.08);
-                    const ar = w / d * math.randomRange(0.9, 1.1);
+                    const w = genOptions.buildings.dimensions.warehouseSmall.width;
+                    const d = genOptions.buildings.dimensions.warehouseSmall.depth;
+                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(genOptions.buildings.areaScale) * math.randomRange(0.95, 1.08, rng);
+                    const ar = w / d * math.randomRange(0.9, 1.1, rng);
                     building = new Building({ x: 0, y: 0 }, 0, diag, BuildingType.WAREHOUSE_SMALL, ar);
                 }
                 break;
             case BuildingType.FACTORY_MEDIUM:
                 {
-                    const w = (config.buildings as any).dimensions.factoryMedium.width;
-                    const d = (config.buildings as any).dimensions.factoryMedium.depth;
-                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(config.buildings.areaScale) * math.randomRange(0.95, 1.08);
-                    const ar = w / d * math.randomRange(0.9, 1.1);
+                    const w = genOptions.buildings.dimensions.factoryMedium.width;
+                    const d = genOptions.buildings.dimensions.factoryMedium.depth;
+                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(genOptions.buildings.areaScale) * math.randomRange(0.95, 1.08, rng);
+                    const ar = w / d * math.randomRange(0.9, 1.1, rng);
                     building = new Building({ x: 0, y: 0 }, 0, diag, BuildingType.FACTORY_MEDIUM, ar);
                 }
                 break;
             case BuildingType.INDUSTRIAL_COMPLEX:
                 {
-                    const w = (config.buildings as any).dimensions.industrialComplex.width;
-                    const d = (config.buildings as any).dimensions.industrialComplex.depth;
-                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(config.buildings.areaScale) * math.randomRange(0.98, 1.02);
-                    const ar = w / d * math.randomRange(0.98, 1.02);
+                    const w = genOptions.buildings.dimensions.industrialComplex.width;
+                    const d = genOptions.buildings.dimensions.industrialComplex.depth;
+                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(genOptions.buildings.areaScale) * math.randomRange(0.98, 1.02, rng);
+                    const ar = w / d * math.randomRange(0.98, 1.02, rng);
                     building = new Building({ x: 0, y: 0 }, 0, diag, BuildingType.INDUSTRIAL_COMPLEX, ar);
                 }
                 break;
             case BuildingType.DISTRIBUTION_CENTER:
                 {
-                    const w = (config.buildings as any).dimensions.distributionCenter.width;
-                    const d = (config.buildings as any).dimensions.distributionCenter.depth;
-                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(config.buildings.areaScale) * math.randomRange(0.98, 1.04);
-                    const ar = w / d * math.randomRange(0.95, 1.05);
+                    const w = genOptions.buildings.dimensions.distributionCenter.width;
+                    const d = genOptions.buildings.dimensions.distributionCenter.depth;
+                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(genOptions.buildings.areaScale) * math.randomRange(0.98, 1.04, rng);
+                    const ar = w / d * math.randomRange(0.95, 1.05, rng);
                     building = new Building({ x: 0, y: 0 }, 0, diag, BuildingType.DISTRIBUTION_CENTER, ar);
                 }
                 break;
             case BuildingType.WORKSHOP:
                 {
-                    const w = (config.buildings as any).dimensions.workshop.width;
-                    const d = (config.buildings as any).dimensions.workshop.depth;
-                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(config.buildings.areaScale) * math.randomRange(0.95, 1.1);
-                    const ar = w / d * math.randomRange(0.9, 1.1);
+                    const w = genOptions.buildings.dimensions.workshop.width;
+                    const d = genOptions.buildings.dimensions.workshop.depth;
+                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(genOptions.buildings.areaScale) * math.randomRange(0.95, 1.1, rng);
+                    const ar = w / d * math.randomRange(0.9, 1.1, rng);
                     building = new Building({ x: 0, y: 0 }, 0, diag, BuildingType.WORKSHOP, ar);
                 }
                 break;
             case BuildingType.POWER_PLANT:
                 {
-                    const w = (config.buildings as any).dimensions.powerPlant.width;
-                    const d = (config.buildings as any).dimensions.powerPlant.depth;
-                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(config.buildings.areaScale) * math.randomRange(0.98, 1.02);
-                    const ar = w / d * math.randomRange(0.98, 1.02);
+                    const w = genOptions.buildings.dimensions.powerPlant.width;
+                    const d = genOptions.buildings.dimensions.powerPlant.depth;
+                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(genOptions.buildings.areaScale) * math.randomRange(0.98, 1.02, rng);
+                    const ar = w / d * math.randomRange(0.98, 1.02, rng);
                     building = new Building({ x: 0, y: 0 }, 0, diag, BuildingType.POWER_PLANT, ar);
                 }
                 break;
             case BuildingType.HOUSE:
                 {
-                    const w = config.buildings.dimensions.house.width;
-                    const d = config.buildings.dimensions.house.depth;
-                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(config.buildings.areaScale) * math.randomRange(0.9, 1.1);
-                    const ar = w / d * math.randomRange(0.9, 1.1);
+                    const w = genOptions.buildings.dimensions.house.width;
+                    const d = genOptions.buildings.dimensions.house.depth;
+                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(genOptions.buildings.areaScale) * math.randomRange(0.9, 1.1, rng);
+                    const ar = w / d * math.randomRange(0.9, 1.1, rng);
                     building = new Building({ x: 0, y: 0 }, 0, diag, BuildingType.HOUSE, ar);
                 }
                 break;
             case BuildingType.FARM:
                 {
-                    const w = (config.buildings as any).dimensions.farm.width;
-                    const d = (config.buildings as any).dimensions.farm.depth;
-                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(config.buildings.areaScale) * math.randomRange(0.95, 1.2);
-                    const ar = w / d * math.randomRange(0.9, 1.1);
+                    const w = genOptions.buildings.dimensions.farm.width;
+                    const d = genOptions.buildings.dimensions.farm.depth;
+                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(genOptions.buildings.areaScale) * math.randomRange(0.95, 1.2, rng);
+                    const ar = w / d * math.randomRange(0.9, 1.1, rng);
                     building = new Building({ x: 0, y: 0 }, 0, diag, BuildingType.FARM, ar);
                 }
                 break;
             case BuildingType.FARMHOUSE:
                 {
-                    const w = (config.buildings as any).dimensions.farmhouse.width;
-                    const d = (config.buildings as any).dimensions.farmhouse.depth;
-                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(config.buildings.areaScale) * math.randomRange(0.9, 1.1);
-                    const ar = w / d * math.randomRange(0.9, 1.1);
+                    const w = genOptions.buildings.dimensions.farmhouse.width;
+                    const d = genOptions.buildings.dimensions.farmhouse.depth;
+                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(genOptions.buildings.areaScale) * math.randomRange(0.9, 1.1, rng);
+                    const ar = w / d * math.randomRange(0.9, 1.1, rng);
                     building = new Building({ x: 0, y: 0 }, 0, diag, BuildingType.FARMHOUSE, ar);
                 }
                 break;
             case BuildingType.SILO:
                 {
-                    const w = (config.buildings as any).dimensions.silo.width;
-                    const d = (config.buildings as any).dimensions.silo.depth;
-                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(config.buildings.areaScale) * math.randomRange(0.95, 1.1);
-                    const ar = w / d * math.randomRange(0.9, 1.1);
+                    const w = genOptions.buildings.dimensions.silo.width;
+                    const d = genOptions.buildings.dimensions.silo.depth;
+                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(genOptions.buildings.areaScale) * math.randomRange(0.95, 1.1, rng);
+                    const ar = w / d * math.randomRange(0.9, 1.1, rng);
                     building = new Building({ x: 0, y: 0 }, 0, diag, BuildingType.SILO, ar);
                 }
                 break;
             case BuildingType.ANIMAL_BARN:
                 {
-                    const w = (config.buildings as any).dimensions.animalBarn.width;
-                    const d = (config.buildings as any).dimensions.animalBarn.depth;
-                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(config.buildings.areaScale) * math.randomRange(0.95, 1.1);
-                    const ar = w / d * math.randomRange(0.9, 1.1);
+                    const w = genOptions.buildings.dimensions.animalBarn.width;
+                    const d = genOptions.buildings.dimensions.animalBarn.depth;
+                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(genOptions.buildings.areaScale) * math.randomRange(0.95, 1.1, rng);
+                    const ar = w / d * math.randomRange(0.9, 1.1, rng);
                     building = new Building({ x: 0, y: 0 }, 0, diag, BuildingType.ANIMAL_BARN, ar);
                 }
                 break;
             case BuildingType.MACHINERY_SHED:
                 {
-                    const w = (config.buildings as any).dimensions.machineryShed.width;
-                    const d = (config.buildings as any).dimensions.machineryShed.depth;
-                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(config.buildings.areaScale) * math.randomRange(0.95, 1.1);
-                    const ar = w / d * math.randomRange(0.9, 1.1);
+                    const w = genOptions.buildings.dimensions.machineryShed.width;
+                    const d = genOptions.buildings.dimensions.machineryShed.depth;
+                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(genOptions.buildings.areaScale) * math.randomRange(0.95, 1.1, rng);
+                    const ar = w / d * math.randomRange(0.9, 1.1, rng);
                     building = new Building({ x: 0, y: 0 }, 0, diag, BuildingType.MACHINERY_SHED, ar);
                 }
                 break;
             case BuildingType.COOPERATIVE:
                 {
-                    const w = (config.buildings as any).dimensions.cooperative.width;
-                    const d = (config.buildings as any).dimensions.cooperative.depth;
-                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(config.buildings.areaScale) * math.randomRange(0.95, 1.15);
-                    const ar = w / d * math.randomRange(0.9, 1.1);
+                    const w = genOptions.buildings.dimensions.cooperative.width;
+                    const d = genOptions.buildings.dimensions.cooperative.depth;
+                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(genOptions.buildings.areaScale) * math.randomRange(0.95, 1.15, rng);
+                    const ar = w / d * math.randomRange(0.9, 1.1, rng);
                     building = new Building({ x: 0, y: 0 }, 0, diag, BuildingType.COOPERATIVE, ar);
                 }
                 break;
             case BuildingType.FIELD:
                 {
-                    const w = (config.buildings as any).dimensions.field.width;
-                    const d = (config.buildings as any).dimensions.field.depth;
-                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(config.buildings.areaScale) * math.randomRange(0.98, 1.02);
-                    const ar = w / d * math.randomRange(0.95, 1.05);
+                    const w = genOptions.buildings.dimensions.field.width;
+                    const d = genOptions.buildings.dimensions.field.depth;
+                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(genOptions.buildings.areaScale) * math.randomRange(0.98, 1.02, rng);
+                    const ar = w / d * math.randomRange(0.95, 1.05, rng);
                     building = new Building({ x: 0, y: 0 }, 0, diag, BuildingType.FIELD, ar);
                 }
                 break;
             case BuildingType.POND:
                 {
-                    const w = (config.buildings as any).dimensions.pond.width;
-                    const d = (config.buildings as any).dimensions.pond.depth;
-                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(config.buildings.areaScale) * math.randomRange(0.98, 1.05);
-                    const ar = w / d * math.randomRange(0.9, 1.1);
+                    const w = genOptions.buildings.dimensions.pond.width;
+                    const d = genOptions.buildings.dimensions.pond.depth;
+                    const diag = Math.hypot(w, d) / 2 * Math.sqrt(genOptions.buildings.areaScale) * math.randomRange(0.98, 1.05, rng);
+                    const ar = w / d * math.randomRange(0.9, 1.1, rng);
                     building = new Building({ x: 0, y: 0 }, 0, diag, BuildingType.POND, ar);
                 }
                 break;
@@ -655,8 +658,9 @@ export const buildingFactory = {
         return building;
     },
 
-    aroundSegment(buildingTemplate: () => Building, segment: Segment, count: number, radius: number, quadtree: Quadtree, zoneAt: (p: math.Point) => ZoneName = getZoneAt, time: number = Date.now()): Building[] {
+    aroundSegment(buildingTemplate: () => Building, segment: Segment, count: number, radius: number, quadtree: Quadtree, zoneAt: (p: math.Point) => ZoneName, time: number = 0, genOptions: GenerationOptions = generationOptions()): Building[] {
         // Posiciona construções alinhadas à via e com recuo — garante um lado próximo à estrada
+        const rng = genOptions.rng ?? Math.random;
         const buildings: Building[] = [];
     const segZone = zoneAt(segment.r.end);
         const s = segment.r.start, e = segment.r.end;
@@ -674,25 +678,25 @@ export const buildingFactory = {
     const placedTBySide: Record<1 | -1, number[]> = { 1: [], [-1]: [] } as any;
     for (let i = 0; i < count; i++) {
             // amostrar posição ao longo da via e lado
-            const t = math.randomRange(margin, Math.max(margin, len - margin));
-            const side = Math.random() < 0.5 ? -1 : +1;
+            const t = math.randomRange(margin, Math.max(margin, len - margin), rng);
+            const side = rng() < 0.5 ? -1 : +1;
             const base: math.Point = { x: s.x + ux * t, y: s.y + uy * t };
 
             // construir tipo por zona e alinhar
-            const b = buildingFactory.fromZone(segZone, time);
+            const b = buildingFactory.fromZone(segZone, time, genOptions);
             b.setDir(segment.dir());
             // distância transversal até encostar próximo da via = meia profundidade + recuo + meia via
             const halfAcross = b.diagonal * math.sinDegrees(b.aspectDegree);
             const off = (w / 2) + baseSetback + Math.max(2, halfAcross);
-            const jSide = math.randomRange(-0.8, 0.8);
-            const jAlong = math.randomRange(-2.0, 2.0);
+            const jSide = math.randomRange(-0.8, 0.8, rng);
+            const jAlong = math.randomRange(-2.0, 2.0, rng);
             const cx = base.x + ux * jAlong + nx * (off + jSide) * side;
             const cy = base.y + uy * jAlong + ny * (off + jSide) * side;
             b.setCenter({ x: cx, y: cy });
 
             // colisão/ajuste local
             let permitBuilding = false;
-            for (let j = 0; j < Math.max(3, config.mapGeneration.BUILDING_PLACEMENT_LOOP_LIMIT + 1); j++) {
+            for (let j = 0; j < Math.max(3, genOptions.mapGeneration.BUILDING_PLACEMENT_LOOP_LIMIT + 1); j++) {
                 let collisionCount = 0;
                 const queryBounds = b.collider.limits();
                 const potentialCollisions: any[] = quadtree.retrieve(queryBounds);
@@ -797,7 +801,7 @@ export const buildingFactory = {
                     const isFactory = heavySet.has((b.type as any));
                     const isIndustrial = segZone === 'industrial';
                     if (isFactory && isIndustrial) {
-                        const spacing = ((config as any).zones.industrial.minFactorySpacingM ?? 200);
+                        const spacing = ((genOptions.zones as any).industrial.minFactorySpacingM ?? 200);
                         const spacing2 = spacing * spacing;
                         let tooClose = false;
                         for (const ob of buildings) {
@@ -849,7 +853,7 @@ export const buildingFactory = {
         buildingPicker: () => Building,
         segment: Segment,
         quadtree: Quadtree,
-        options?: {
+        options: {
             marginM?: number;        // margem nos extremos da rua
             spacingM?: number;       // distância entre centros ao longo da rua
             setbackM?: number;       // recuo da borda da via
@@ -859,10 +863,12 @@ export const buildingFactory = {
             placeBothSides?: boolean;
             startOffsetM?: number;   // deslocamento inicial ao longo da via (para centralizar a malha)
             staggerOppositeSide?: boolean; // desfasar casas do lado oposto em meio passo
-        },
-        zoneAt: (p: math.Point) => ZoneName = getZoneAt,
-        time: number = Date.now()
+        } | undefined,
+        zoneAt: (p: math.Point) => ZoneName,
+        time: number = 0,
+        genOptions: GenerationOptions = generationOptions()
     ): Building[] {
+        const rng = genOptions.rng ?? Math.random;
         const opts = options || {};
         const margin = opts.marginM ?? 10;
         const baseSpacing = Math.max(10, opts.spacingM ?? 20);
@@ -899,7 +905,7 @@ export const buildingFactory = {
             const sides = both ? [-1, +1] as const : [+1] as const;
             for (const side of sides) {
                 const tp = t + ((opts.staggerOppositeSide && side < 0) ? spacing * 0.5 : 0);
-                const base: math.Point = { x: s.x + ux * tp + (Math.random() * 2 - 1) * jAlong, y: s.y + uy * tp + (Math.random() * 2 - 1) * jAlong };
+                const base: math.Point = { x: s.x + ux * tp + (rng() * 2 - 1) * jAlong, y: s.y + uy * tp + (rng() * 2 - 1) * jAlong };
                 // escolher tipo via callback (ex.: sempre casa na residencial)
                 let b = buildingPicker();
                 // forçar orientação alinhada à via
@@ -909,15 +915,15 @@ export const buildingFactory = {
                 // recuo transversal: via/2 + setback + margem adicional
                 const extra = Math.max(0, segZone === 'residential' ? 2 : 0);
                 const off = (w / 2) + setback + Math.max(3, halfAcross + extra);
-                const cx = base.x + nx * off * side + (Math.random() * 2 - 1) * jSide;
-                const cy = base.y + ny * off * side + (Math.random() * 2 - 1) * jSide;
+                const cx = base.x + nx * off * side + (rng() * 2 - 1) * jSide;
+                const cy = base.y + ny * off * side + (rng() * 2 - 1) * jSide;
                 b.setCenter({ x: cx, y: cy });
 
                 // Nota: filtro de footprint removido a pedido do usuário
 
                 // tentativa rápida de resolver colisões locais como no aroundSegment
                 let permit = false;
-                for (let j = 0; j < Math.max(3, config.mapGeneration.BUILDING_PLACEMENT_LOOP_LIMIT + 1); j++) {
+                for (let j = 0; j < Math.max(3, genOptions.mapGeneration.BUILDING_PLACEMENT_LOOP_LIMIT + 1); j++) {
                     let collisions = 0;
                     const bounds = b.collider.limits();
                     const candidates: any[] = quadtree.retrieve(bounds);
@@ -1017,7 +1023,7 @@ export const buildingFactory = {
                         const isFactory = heavySet2.has((b.type as any));
                         const isIndustrial = segZone === 'industrial';
                         if (isFactory && isIndustrial) {
-                            const spacing = ((config as any).zones.industrial.minFactorySpacingM ?? 200);
+                            const spacing = ((genOptions.zones as any).industrial.minFactorySpacingM ?? 200);
                             const spacing2 = spacing * spacing;
                             let tooClose = false;
                             for (const ob of buildings) {
@@ -0,0 +1,135 @@
+import type { Point } from '../generic_modules/math';
+import { CollisionObject, CollisionObjectType } from '../generic_modules/collision';
+import Quadtree from '../lib/quadtree';
+import { Segment } from './mapgen';
+import { Building, BuildingType } from './build';
+import { config, scale } from './config';
+
+// Movimento do personagem com colisão: prédios (Building.collider) e bandas de borda dos quarteirões
+// (retângulos ao longo das arestas, como desenhados pelo renderer). Cada sobreposição é desfeita pelo
+// vetor de separação de CollisionObject.collide, o que faz o personagem deslizar rente às paredes.
+// Com walkableOnly, só aceita posições sobre vias ou calçadas.
+
+export type CharacterParams = typeof config.character;
+
+const BOUNDS_MARGIN_M = 2000;
+
+export class CharacterCollision {
+    private body: CollisionObject;
+    private bands: Quadtree<CollisionObject> | null = null;
+    private half = scale.characterDiameterM / 2;
+
+    constructor(
+        private qTree: Quadtree | null,
+        private segments: Segment[],
+        blockPaths: Point[][] = [],
+        private params: CharacterParams = config.character
+    ) {
+        this.body = new CollisionObject(this, CollisionObjectType.RECT, { corners: this.cornersAt({ x: 0, y: 0 }) });
+        const rCfg = config.render;
+        if (params.collideEdgeBands && rCfg.blockEdgeBandsEnabled && blockPaths.length) this.buildBands(blockPaths, rCfg.blockEdgeBandThicknessM ?? 1.0);
+    }
+
+    private cornersAt(p: Point): Point[] {
+        const h = this.half;
+        return [{ x: p.x - h, y: p.y - h }, { x: p.x + h, y: p.y - h }, { x: p.x + h, y: p.y + h }, { x: p.x - h, y: p.y + h }];
+    }
+
+    /** Uma banda por aresta: [a, b, b + n·t, a + n·t], com a mesma normal usada no desenho das bandas */
+    private buildBands(paths: Point[][], thicknessM: number) {
+        let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+        const rects: CollisionObject[] = [];
+        for (const pts of paths) {
+            let area2 = 0;
+            for (let i = 0; i < pts.length; i++) {
+                const p = pts[i], q = pts[(i + 1) % pts.length];
+                area2 += p.x * q.y - q.x * p.y;
+            }
+            const clockwise = area2 < 0;
+            for (let i = 0; i < pts.length; i++) {
+                const a = pts[i], b = pts[(i + 1) % pts.length];
+                const dx = b.x - a.x, dy = b.y - a.y;
+                const len = Math.hypot(dx, dy);
+                if (len < 1e-6) continue;
+                const nx = (clockwise ? dy : -dy) / len * thicknessM, ny = (clockwise ? -dx : dx) / len * thicknessM;
+                const corners = [{ x: a.x, y: a.y }, { x: b.x, y: b.y }, { x: b.x + nx, y: b.y + ny }, { x: a.x + nx, y: a.y + ny }];
+                const rect = new CollisionObject(null, CollisionObjectType.RECT, { corners });
+                rect.o = rect;
+                rects.push(rect);
+                const lim = rect.limits();
+                minX = Math.min(minX, lim.x); minY = Math.min(minY, lim.y);
+                maxX = Math.max(maxX, lim.x + lim.width); maxY = Math.max(maxY, lim.y + lim.height);
+            }
+        }
+        if (!rects.length) return;
+        const m = BOUNDS_MARGIN_M;
+        this.bands = new Quadtree<CollisionObject>({ x: minX - m, y: minY - m, width: maxX - minX + 2 * m, height: maxY - minY + 2 * m }, 10, 10);
+        rects.forEach(r => this.bands!.insert(r.limits()));
+    }
+
+    private nearbyColliders(p: Point): CollisionObject[] {
+        const R = Math.max(1, this.params.queryRadiusM);
+        const box = { x: p.x - R, y: p.y - R, width: 2 * R, height: 2 * R };
+        const out: CollisionObject[] = [];
+        if (this.params.collideBuildings && this.qTree) {
+            for (const item of this.qTree.retrieve(box)) {
+                const b = item.o;
+                if (b instanceof Building && b.type !== BuildingType.GREEN) out.push(b.collider);
+            }
+        }
+        if (this.bands) for (const item of this.bands.retrieve(box)) out.push(item.o);
+        return out;
+    }
+
+    /** Sobre uma via ou sua calçada (anel de sidewalkWidthM na borda do quarteirão) */
+    isWalkable(p: Point): boolean {
+        const extra = config.render.sidewalkWidthM ?? 2.0;
+        const R = Math.max(1, this.params.queryRadiusM);
+        const candidates: Segment[] = this.qTree
+            ? this.qTree.retrieve({ x: p.x - R, y: p.y - R, width: 2 * R, height: 2 * R })
+                .map(m => m.o).filter((o): o is Segment => o instanceof Segment)
+            : this.segments;
+        return candidates.some(s => {
+            const ax = s.r.start.x, ay = s.r.start.y;
+            const vx = s.r.end.x - ax, vy = s.r.end.y - ay;
+            const L2 = vx * vx + vy * vy;
+            const t = L2 > 1e-9 ? Math.max(0, Math.min(1, ((p.x - ax) * vx + (p.y - ay) * vy) / L2)) : 0;
+            return Math.hypot(ax + vx * t - p.x, ay + vy * t - p.y) <= s.width / 2 + extra;
+        });
+    }
+
+    private step(from: Point, dx: number, dy: number): Point {
+        let p = { x: from.x + dx, y: from.y + dy };
+        if (this.params.walkableOnly && !this.isWalkable(p)) {
+            // deslizar pela borda da área caminhável: tentar cada eixo separadamente
+            const px = { x: from.x + dx, y: from.y }, py = { x: from.x, y: from.y + dy };
+            if (dx && this.isWalkable(px)) p = px;
+            else if (dy && this.isWalkable(py)) p = py;
+            else return from;
+        }
+        for (let iter = 0; iter < this.params.resolveIterations; iter++) {
+            let pushed = false;
+            for (const other of this.nearbyColliders(p)) {
+                this.body.updateCollisionProperties({ corners: this.cornersAt(p) });
+                const res = this.body.collide(other);
+                if (res && typeof res !== 'boolean') {
+                    p = { x: p.x + res.x, y: p.y + res.y };
+                    pushed = true;
+                }
+            }
+            if (!pushed) break;
+        }
+        if (this.params.walkableOnly && !this.isWalkable(p)) return from;
+        return p;
+    }
+
+    /** Nova posição após tentar deslocar `delta`, em passos de até maxStepM */
+    move(pos: Point, delta: Point): Point {
+        const dist = Math.hypot(delta.x, delta.y);
+        if (dist < 1e-9) return pos;
+        const n = Math.max(1, Math.ceil(dist / Math.max(0.01, this.params.maxStepM)));
+        let p = pos;
+        for (let i = 0; i < n; i++) p = this.step(p, delta.x / n, delta.y / n);
+        return p;
+    }
+}
@@ -0,0 +1,659 @@
+import * as mapgen from './mapgen';
+import { Segment, ZoneName, RoadClass } from './mapgen';
+import type { CityFields } from './mapgen';
+import { buildingFactory, Building, BuildingType } from './build';
+import { RoadGraph } from './road_graph';
+import { extractBlocks, centroidOf, pointInPolygon } from './block_geometry';
+import type { Block } from './block_geometry';
+import { subdivideBlocks, placeBuildingsOnLots } from './lots';
+import { config, generationOptions } from './config';
+import * as util from '../generic_modules/utility';
+import type { GenerationOptions, DeepPartial } from './config';
+import type { Point } from '../generic_modules/math';
+import type Quadtree from '../lib/quadtree';
+
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const ClipperLib: any = require('clipper-lib');
+
+// Geração "headless" da cidade: vias, quarteirões, construções e zonas como dados puros,
+// sem depender de window/DOM/PIXI (usável em Node, jobs em lote e testes).
+
+export interface CitySegment {
+    id: number;
+    start: Point;
+    end: Point;
+    width: number;
+    highway: boolean;
+    roadClass: RoadClass;
+    /** 0 = solo, > 0 = ponte/viaduto, < 0 = túnel */
+    level: number;
+    oneWay: boolean;
+}
+
+export interface CityBlock {
+    id: number;
+    polygon: Point[];
+    area: number;
+    zone: ZoneName;
+    /** ids dos segmentos que delimitam o quarteirão */
+    segments: number[];
+    frontageM: number;
+}
+
+export interface CityBuilding {
+    id: number;
+    type: BuildingType;
+    center: Point;
+    dir: number;
+    corners: Point[];
+    zone: ZoneName;
+}
+
+/** Grade regular de zonas (linha a linha, a partir do canto x/y) */
+export interface CityZoneGrid {
+    x: number;
+    y: number;
+    cellSizeM: number;
+    cols: number;
+    rows: number;
+    cells: ZoneName[];
+}
+
+export interface CityData {
+    seed: string | number;
+    segments: CitySegment[];
+    blocks: CityBlock[];
+    buildings: CityBuilding[];
+    zones: CityZoneGrid;
+}
+
+export interface CityOptions {
+    /** gerar construções (default: true) */
+    buildings?: boolean;
+    /** extrair quarteirões (default: true) */
+    blocks?: boolean;
+    /** tamanho da célula da grade de zonas em metros (default: 100) */
+    zoneCellSizeM?: number;
+    /** escala inteira usada pelo Clipper (default: config.render.clipperScale) */
+    clipperScale?: number;
+    /** overrides dos parâmetros de geração (mesclados sobre o config atual) */
+    generation?: DeepPartial<GenerationOptions>;
+}
+
+/**
+ * Une os retângulos das vias em uma PolyTree do Clipper (coordenadas escaladas por clipScale).
+ */
+export function roadUnionTree(segments: Segment[], clipScale: number): any {
+    // 1. Converter todos os segmentos de via em polígonos para o Clipper
+    const roadPolygons = segments.map(segment => {
+        const r = segment.width / 2;
+        const sW = segment.r.start;
+        const eW = segment.r.end;
+        const vx = eW.x - sW.x, vy = eW.y - sW.y;
+        const len = Math.hypot(vx, vy) || 1;
+        const ux = vx / len, uy = vy / len;
+        const nx = -uy, ny = ux; // normal
+
+        const p1 = { x: sW.x + nx * r, y: sW.y + ny * r };
+        const p2 = { x: sW.x - nx * r, y: sW.y - ny * r };
+        const p3 = { x: eW.x - nx * r, y: eW.y - ny * r };
+        const p4 = { x: eW.x + nx * r, y: eW.y + ny * r };
+
+        return [
+            { X: p1.x * clipScale, Y: p1.y * clipScale },
+            { X: p4.x * clipScale, Y: p4.y * clipScale },
+            { X: p3.x * clipScale, Y: p3.y * clipScale },
+            { X: p2.x * clipScale, Y: p2.y * clipScale },
+        ];
+    });
+
+    // 2. Unir todos os polígonos de via em uma PolyTree.
+    // A PolyTree nos dará a hierarquia de polígonos, permitindo identificar os buracos (quarteirões).
+    const cpr = new ClipperLib.Clipper();
+    const unionPolyTree = new ClipperLib.PolyTree();
+    cpr.AddPaths(roadPolygons, ClipperLib.PolyType.ptSubject, true);
+    cpr.Execute(ClipperLib.ClipType.ctUnion, unionPolyTree, ClipperLib.PolyFillType.pftNonZero, ClipperLib.PolyFillType.pftNonZero);
+    return unionPolyTree;
+}
+
+/**
+ * Devolve os "buracos" da união das vias (quarteirões) em coordenadas do Clipper.
+ */
+export function roadBlockPaths(unionPolyTree: any): any[] {
+    // 3. Extrair os "buracos" da PolyTree. Estes são os nossos quarteirões.
+    const blockPaths = new ClipperLib.Paths();
+    for (const topNode of unionPolyTree.Childs()) {
+        // Os filhos diretos da união são os contornos externos das redes de ruas.
+        // Os filhos DESTES nós (netos da raiz) são os buracos que queremos.
+        for (const holeNode of topNode.Childs()) {
+            if (holeNode.IsHole()) {
+                blockPaths.push(holeNode.Contour());
+            }
+        }
+    }
+    return blockPaths;
+}
+
+/**
+ * Distribui construções: parcelando os quarteirões (buildings.placement = 'lots', usa `blocks` se informados;
+ * vias fora de quarteirões seguem a regra por segmento) ou ao longo dos segmentos (lotes nas zonas residencial/comercial, dispersão nas demais), e garante ao menos uma construção perto de cada rua sem saída. As construções aceitas são inseridas no qTree.
+ * Zonas, população e água vêm dos campos da geração (`fields`).
+ */
+export function placeBuildings(segments: Segment[], qTree: Quadtree, fields: CityFields, genOptions: GenerationOptions = generationOptions(), blocks?: Block[]): Building[] {
+    const graph = RoadGraph.fromSegments(segments);
+    const { heatmap, terrain } = fields;
+    const zoneAt = (p: Point) => fields.zoning.zoneAt(p);
+
+    // Tempo lógico fixo e fluxo injetado: a mesma seed reproduz as mesmas construções
+    const timeNow = 0;
+    const rng = genOptions.rng ?? Math.random;
+
+    // população desenhada: áreas escuras ficam com mais lotes vagos (nos dois modos de distribuição)
+    const minOcc = genOptions.zoningModel.imageFields.minLotOccupancy;
+    const occupied = (p: Point) => !heatmap.populationImage || rng() < minOcc + (1 - minOcc) * heatmap.populationAt(p.x, p.y);
+
+    let buildings: Building[] = [];
+    // vias com construções ao longo do segmento: uma a cada 4 no modo 'scatter'; no modo 'lots', as que não
+    // delimitam nenhum quarteirão (ruas sem saída, franja da malha) e por isso não recebem lotes
+    let alongSegments = segments.filter((s, i) => i % 4 === 0);
+    if (genOptions.buildings.placement === 'lots') {
+        // Parcelamento: uma construção do mix da zona por lote com testada para a rua
+        const lotBlocks = blocks ?? extractBlocks(graph, zoneAt);
+        const lots = subdivideBlocks(lotBlocks, genOptions).filter(lot => occupied(centroidOf(lot.polygon)));
+        buildings = placeBuildingsOnLots(lots, qTree, genOptions);
+        const bounding = new Set(lotBlocks.flatMap(b => b.segments));
+        alongSegments = segments.filter(s => !bounding.has(s));
+    }
+    for (const segment of alongSegments) {
+        const zone = zoneAt(segment.r.end);
+        const zc = (genOptions.zones as any)?.[zone] || {};
+        // Regra: não construir em quarteirões muito pequenos (< 100 m²)
+        const blockAreaEstimate = segment.width * (zc.blockLengthM ?? genOptions.mapGeneration.DEFAULT_SEGMENT_LENGTH);
+        if (blockAreaEstimate < 100) {
+            continue;
+        }
+        // Densidade e raio de dispersão vindos do config para permitir ajuste via UI
+        const baseCount = zc.density ?? (zone === 'residential' ? 10 : 6);
+        const popLocal = heatmap.populationAt(segment.r.end.x, segment.r.end.y);
+        // Modular densidade por valor do heatmap (0..1) => 0.6x .. 1.6x
+        const densityMult = 0.6 + 1.0 * Math.max(0, Math.min(1, popLocal));
+        let count = Math.max(1, Math.round(baseCount * densityMult));
+        const radius = zc.scatterRadiusM ?? 420;
+        // Ajuste por cobertura alvo (aproxima % de área ocupada por quarteirão)
+        const w = segment.width;
+        const segArea = w * (zc.blockLengthM ?? genOptions.mapGeneration.DEFAULT_SEGMENT_LENGTH);
+        const targetCoverage = zc.coverageTarget ?? 0;
+        if (targetCoverage > 0) {
+            // média de área por construção (aproxima pelas dimensões dos tipos com pesos do mix)
+            const mix = (zc.buildingMix || {}) as Record<string, number>;
+                const dim = (genOptions.buildings as any).dimensions;
+            let avgArea = 0, sumP = 0;
+            Object.keys(mix).forEach(k => {
+                const p = mix[k] || 0; sumP += p;
+                const d = dim[k];
+                if (d) avgArea += p * (d.width * d.depth);
+            });
+            if (sumP > 0) avgArea /= sumP; else avgArea = 120; // fallback ~ casa pequena
+            const targetCount = Math.max(1, Math.round((segArea * targetCoverage) / avgArea));
+            // suavizar para não oscilar muito
+            count = Math.max(1, Math.round(0.5 * count + 0.5 * targetCount));
+        }
+        // Ajustar o mix de tipos pelo heatmap: áreas quentes => +comercial/+residencial; frias => +casa/+fazenda/+import
+        const baseMix = (zc.buildingMix || {}) as Record<string, number>;
+        const heat = Math.max(0, Math.min(1, popLocal));
+        const s = (heat - 0.5) * 2; // [-1,1]
+        const boostHigh: Record<string, number> = { 
+            commercial: 0.4, commercialMedium: 0.5, commercialLarge: 0.6,
+            kiosk: 0.25, shopSmall: 0.35, bakery: 0.3, bar: 0.32, pharmacy: 0.28, grocery: 0.34,
+            restaurant: 0.4, supermarket: 0.5, shoppingCenter: 0.65, cinema: 0.5,
+            office: 0.55, hotel: 0.45, parkingLot: 0.2, conventionCenter: 0.55,
+            gasStation: 0.2, bank: 0.3, clinic: 0.25, hospitalPrivate: 0.4, publicOffice: 0.25,
+            residential: 0.3, house: -0.4, houseSmall: -0.3, houseHigh: -0.2, apartmentBlock: 0.2, condoTower: 0.4,
+            school: 0.1, leisureArea: -0.1, import: -0.2, factory: -0.3, factoryMedium: -0.35, distributionCenter: -0.4,
+            industrialComplex: -0.45, powerPlant: -0.5, workshop: -0.2, warehouseSmall: -0.25,
+            farm: -0.6, farmhouse: -0.5, silo: -0.5, animalBarn: -0.5, machineryShed: -0.5, cooperative: -0.4, field: -0.6, pond: -0.3,
+            park: -0.2, green: -0.2, church: 0.0
+        } as any;
+        const boostLow: Record<string, number>  = { 
+            commercial: -0.3, commercialMedium: -0.35, commercialLarge: -0.5,
+            kiosk: -0.1, shopSmall: -0.15, bakery: -0.12, bar: -0.12, pharmacy: -0.1, grocery: -0.14,
+            restaurant: -0.15, supermarket: -0.25, shoppingCenter: -0.5, cinema: -0.3,
+            office: -0.35, hotel: -0.3, parkingLot: -0.1, conventionCenter: -0.45,
+            gasStation: -0.2, bank: -0.2, clinic: -0.1, hospitalPrivate: -0.35, publicOffice: -0.1,
+            residential: -0.2, house: 0.45, houseSmall: 0.4, houseHigh: 0.2, apartmentBlock: -0.1, condoTower: -0.4,
+            school: 0.15, leisureArea: 0.2, import: 0.2, factory: 0.3, factoryMedium: 0.35, distributionCenter: 0.4,
+            industrialComplex: 0.45, powerPlant: 0.5, workshop: 0.25, warehouseSmall: 0.2,
+            farm: 0.7, farmhouse: 0.6, silo: 0.5, animalBarn: 0.5, machineryShed: 0.5, cooperative: 0.4, field: 0.6, pond: 0.3,
+            park: 0.25, green: 0.35, church: 0.05
+        } as any;
+        const adj: Record<string, number> = {};
+        let keys = ['house','houseSmall','houseHigh','apartmentBlock','condoTower','school','leisureArea','residential','commercial','commercialMedium','commercialLarge','kiosk','shopSmall','bakery','bar','pharmacy','grocery','restaurant','supermarket','shoppingCenter','cinema','office','hotel','conventionCenter','parkingLot','gasStation','bank','clinic','hospitalPrivate','publicOffice','park','green','church','import','factory','factoryMedium','warehouseSmall','distributionCenter','industrialComplex','workshop','powerPlant','farm','farmhouse','silo','animalBarn','machineryShed','cooperative','field','pond'] as const;
+        // Filtrar por zona do segmento: evita prédios grandes em residencial
+        if (zc === (genOptions.zones as any).residential) {
+            keys = ['houseSmall','house','houseHigh','apartmentBlock','school','leisureArea','park','green','church'] as any;
+        } else if (zc === (genOptions.zones as any).commercial) {
+            keys = ['kiosk','shopSmall','bakery','bar','pharmacy','grocery','restaurant','supermarket','commercial','commercialMedium','bank','gasStation','office','hotel','parkingLot','cinema','clinic','hospitalPrivate','publicOffice','conventionCenter','park','houseSmall','house','apartmentBlock','residential'] as any;
+        } else if (zc === (genOptions.zones as any).industrial) {
+            keys = ['workshop','warehouseSmall','factory','factoryMedium','distributionCenter','industrialComplex','powerPlant'] as any;
+        } else if (zc === (genOptions.zones as any).rural) {
+            keys = ['field','farm','farmhouse','silo','animalBarn','machineryShed','cooperative','pond'] as any;
+        }
+        for (const k of keys) {
+            const base = baseMix[k] ?? 0;
+            const b = s >= 0 ? boostHigh[k] : boostLow[k];
+            const m = 1 + Math.abs(s) * b; // multiplicador
+            adj[k] = Math.max(0, base * m);
+        }
+        // Proibir parques apenas nas zonas industrial e rural
+        if (zone === 'industrial' || zone === 'rural') {
+            adj['park' as any] = 0;
+        }
+        // normalizar
+        let sum = 0; keys.forEach(k => sum += adj[k]);
+        if (sum <= 0) { keys.forEach(k => adj[k] = (k === 'house' ? 1 : 0)); sum = 1; }
+        keys.forEach(k => adj[k] /= sum);
+
+        const pickByAdjustedMix = () => {
+            let r = rng();
+            for (const k of keys) {
+                const p = adj[k] || 0;
+                if (r < p) {
+                    switch (k) {
+                        case 'kiosk': return buildingFactory.byType((BuildingType as any).KIOSK, timeNow, genOptions);
+                        case 'house': return buildingFactory.byType(BuildingType.HOUSE, timeNow, genOptions);
+                        case 'houseSmall': return buildingFactory.byType((BuildingType as any).HOUSE_SMALL, timeNow, genOptions);
+                        case 'houseHigh': return buildingFactory.byType((BuildingType as any).HOUSE_HIGH, timeNow, genOptions);
+                        case 'apartmentBlock': return buildingFactory.byType((BuildingType as any).APARTMENT_BLOCK, timeNow, genOptions);
+                        case 'condoTower': return buildingFactory.byType((BuildingType as any).CONDO_TOWER, timeNow, genOptions);
+                        case 'school': return buildingFactory.byType((BuildingType as any).SCHOOL, timeNow, genOptions);
+                        case 'leisureArea': return buildingFactory.byType((BuildingType as any).LEISURE, timeNow, genOptions);
+                        case 'residential': return buildingFactory.byType(BuildingType.RESIDENTIAL, timeNow, genOptions);
+                        case 'commercial': return buildingFactory.byType(BuildingType.COMMERCIAL, timeNow, genOptions);
+                        case 'commercialMedium': return buildingFactory.byType((BuildingType as any).COMMERCIAL_MEDIUM, timeNow, genOptions);
+                        case 'commercialLarge': return buildingFactory.byType((BuildingType as any).COMMERCIAL_LARGE, timeNow, genOptions);
+                        case 'bakery': return buildingFactory.byType((BuildingType as any).BAKERY, timeNow, genOptions);
+                        case 'shopSmall': return buildingFactory.byType((BuildingType as any).SHOP_SMALL, timeNow, genOptions);
+                        case 'restaurant': return buildingFactory.byType((BuildingType as any).RESTAURANT, timeNow, genOptions);
+                        case 'bar': return buildingFactory.byType((BuildingType as any).BAR, timeNow, genOptions);
+                        case 'pharmacy': return buildingFactory.byType((BuildingType as any).PHARMACY, timeNow, genOptions);
+                        case 'grocery': return buildingFactory.byType((BuildingType as any).GROCERY, timeNow, genOptions);
+                        case 'supermarket': return buildingFactory.byType((BuildingType as any).SUPERMARKET, timeNow, genOptions);
+                        case 'shoppingCenter': return buildingFactory.byType((BuildingType as any).SHOPPING_CENTER, timeNow, genOptions);
+                        case 'cinema': return buildingFactory.byType((BuildingType as any).CINEMA, timeNow, genOptions);
+                        case 'office': return buildingFactory.byType((BuildingType as any).OFFICE, timeNow, genOptions);
+                        case 'hotel': return buildingFactory.byType((BuildingType as any).HOTEL, timeNow, genOptions);
+                        case 'conventionCenter': return buildingFactory.byType((BuildingType as any).CONVENTION_CENTER, timeNow, genOptions);
+                        case 'parkingLot': return buildingFactory.byType((BuildingType as any).PARKING, timeNow, genOptions);
+                        case 'gasStation': return buildingFactory.byType((BuildingType as any).GAS_STATION, timeNow, genOptions);
+                        case 'bank': return buildingFactory.byType((BuildingType as any).BANK, timeNow, genOptions);
+                        case 'clinic': return buildingFactory.byType((BuildingType as any).CLINIC, timeNow, genOptions);
+                        case 'hospitalPrivate': return buildingFactory.byType((BuildingType as any).HOSPITAL_PRIVATE, timeNow, genOptions);
+                        case 'publicOffice': return buildingFactory.byType((BuildingType as any).PUBLIC_OFFICE, timeNow, genOptions);
+                        case 'park': return buildingFactory.byType((BuildingType as any).PARK, timeNow, genOptions);
+                        case 'green': return buildingFactory.byType((BuildingType as any).GREEN, timeNow, genOptions);
+                        case 'church': return buildingFactory.byType((BuildingType as any).CHURCH, timeNow, genOptions);
+                        case 'import': return buildingFactory.byType(BuildingType.IMPORT, timeNow, genOptions);
+                        case 'factory': return buildingFactory.byType((BuildingType as any).FACTORY, timeNow, genOptions);
+                        case 'factoryMedium': return buildingFactory.byType((BuildingType as any).FACTORY_MEDIUM, timeNow, genOptions);
+                        case 'warehouseSmall': return buildingFactory.byType((BuildingType as any).WAREHOUSE_SMALL, timeNow, genOptions);
+                        case 'distributionCenter': return buildingFactory.byType((BuildingType as any).DISTRIBUTION_CENTER, timeNow, genOptions);
+                        case 'industrialComplex': return buildingFactory.byType((BuildingType as any).INDUSTRIAL_COMPLEX, timeNow, genOptions);
+                        case 'workshop': return buildingFactory.byType((BuildingType as any).WORKSHOP, timeNow, genOptions);
+                        case 'powerPlant': return buildingFactory.byType((BuildingType as any).POWER_PLANT, timeNow, genOptions);
+                        case 'farm': return buildingFactory.byType(BuildingType.FARM, timeNow, genOptions);
+                        case 'farmhouse': return buildingFactory.byType((BuildingType as any).FARMHOUSE, timeNow, genOptions);
+                        case 'silo': return buildingFactory.byType((BuildingType as any).SILO, timeNow, genOptions);
+                        case 'animalBarn': return buildingFactory.byType((BuildingType as any).ANIMAL_BARN, timeNow, genOptions);
+                        case 'machineryShed': return buildingFactory.byType((BuildingType as any).MACHINERY_SHED, timeNow, genOptions);
+                        case 'cooperative': return buildingFactory.byType((BuildingType as any).COOPERATIVE, timeNow, genOptions);
+                        case 'field': return buildingFactory.byType((BuildingType as any).FIELD, timeNow, genOptions);
+                        case 'pond': return buildingFactory.byType((BuildingType as any).POND, timeNow, genOptions);
+                    }
+                }
+                r -= p;
+            }
+            return buildingFactory.byType(BuildingType.HOUSE, timeNow, genOptions);
+        };
+        // Para zonas residenciais, preferir lotes alinhados ao longo da rua (organização tipo quarteirão)
+        let newBuildings: Building[] = [];
+        if (zone === 'residential') {
+            const margin = Math.max(8, (zc.blockLengthM ?? genOptions.mapGeneration.DEFAULT_SEGMENT_LENGTH) * 0.1);
+            const len = Math.hypot(segment.r.end.x - segment.r.start.x, segment.r.end.y - segment.r.start.y);
+            const segArea = segment.width * (zc.blockLengthM ?? genOptions.mapGeneration.DEFAULT_SEGMENT_LENGTH);
+            const targetCoverage = Math.max(0, Math.min(0.9, zc.coverageTarget ?? 0.3));
+                const houseDim = (genOptions.buildings as any).dimensions.house;
+            const avgArea = (houseDim.width * houseDim.depth) || 120;
+            const targetCount = Math.max(2, Math.round((segArea * targetCoverage) / avgArea));
+            const perSide = Math.max(1, Math.ceil(targetCount / 2));
+            const useful = Math.max(10, len - 2 * margin);
+            const rawSpacing = useful / perSide;
+            // Se houver configuração de lote, priorizar a frente (larguraM do lote) como espaçamento realista
+            const lot = (zc.lot || {}) as any;
+            const lotFront = Math.max(8, Math.min(22, lot.widthM ?? rawSpacing));
+            const spacingM = Math.max(8, Math.min(24, lotFront)); // permitir adensar mais
+            const frontSetback = Math.max(4, Math.min(9, lot.frontSetbackM ?? 6));
+            // Exigir que exista espaço útil para pelo menos meia vaga em cada extremidade
+            const cornerBuffer = Math.max(spacingM * 0.5, lotFront * 0.5, 6) + 4;
+            // Variedade com gradiente: mais verticais perto do centro (popLocal alto)
+            const pickResidentialVariety = () => {
+                const dens = Math.max(0, Math.min(1, popLocal)); // 0..1
+                // Pesos baseados na densidade local
+                const wHouseSmall = (1 - dens) * 0.28 + dens * 0.14;
+                const wHouse      = (1 - dens) * 0.62 + dens * 0.46;
+                const wHouseHigh  = (1 - dens) * 0.06 + dens * 0.12;
+                const wApt        = (1 - dens) * 0.08 + dens * 0.24;
+                const wCondo      = (1 - dens) * 0.00 + dens * 0.03;
+                const wSchool     = (1 - dens) * 0.02 + dens * 0.015;
+                const wLeisure    = (1 - dens) * 0.02 + dens * 0.01;
+                const wChurch     = (1 - dens) * 0.02 + dens * 0.005;
+                let sum = wHouseSmall + wHouse + wHouseHigh + wApt + wCondo + wSchool + wLeisure + wChurch;
+                if (sum <= 0) sum = 1;
+                let r = rng() * sum;
+                if ((r -= wHouseSmall) < 0) return buildingFactory.byType((BuildingType as any).HOUSE_SMALL, timeNow, genOptions);
+                if ((r -= wHouse) < 0) return buildingFactory.byType(BuildingType.HOUSE, timeNow, genOptions);
+                if ((r -= wHouseHigh) < 0) return buildingFactory.byType((BuildingType as any).HOUSE_HIGH, timeNow, genOptions);
+                if ((r -= wApt) < 0) return buildingFactory.byType((BuildingType as any).APARTMENT_BLOCK, timeNow, genOptions);
+                if ((r -= wCondo) < 0) return buildingFactory.byType((BuildingType as any).CONDO_TOWER, timeNow, genOptions);
+                if ((r -= wSchool) < 0) return buildingFactory.byType((BuildingType as any).SCHOOL, timeNow, genOptions);
+                if ((r -= wLeisure) < 0) return buildingFactory.byType((BuildingType as any).LEISURE, timeNow, genOptions);
+                return buildingFactory.byType((BuildingType as any).CHURCH, timeNow, genOptions);
+            };
+            const opts = {
+                marginM: Math.max(margin, cornerBuffer),
+                spacingM,
+                setbackM: frontSetback,
+                sideSetbackM: Math.max(1.5, Math.min(4, (zc.lot?.sideSetbackM ?? 2))),
+                sideJitterM: 0.25,
+                alongJitterM: 0.15,
+                // centralizar as fileiras: começar no meio do espaço útil menos meio passo
+                startOffsetM: Math.max(0, (useful % spacingM) * 0.5),
+                staggerOppositeSide: true,
+                placeBothSides: true,
+            };
+            newBuildings = buildingFactory.lotsAlongSegment(pickResidentialVariety, segment, qTree, opts, zoneAt, timeNow, genOptions);
+        } else if (zone === 'commercial') {
+            const len = Math.hypot(segment.r.end.x - segment.r.start.x, segment.r.end.y - segment.r.start.y);
+            // Picker com variedade (sem comerciais gigantes nas fileiras)
+            const pickCommercialVariety = () => {
+                const r = rng();
+                if (r < 0.06) return buildingFactory.byType((BuildingType as any).KIOSK, timeNow, genOptions);
+                if (r < 0.12) return buildingFactory.byType((BuildingType as any).SHOP_SMALL, timeNow, genOptions);
+                if (r < 0.18) return buildingFactory.byType((BuildingType as any).BAKERY, timeNow, genOptions);
+                if (r < 0.24) return buildingFactory.byType((BuildingType as any).BAR, timeNow, genOptions);
+                if (r < 0.29) return buildingFactory.byType((BuildingType as any).PHARMACY, timeNow, genOptions);
+                if (r < 0.37) return buildingFactory.byType((BuildingType as any).GROCERY, timeNow, genOptions);
+                if (r < 0.47) return buildingFactory.byType((BuildingType as any).RESTAURANT, timeNow, genOptions);
+                if (r < 0.55) return buildingFactory.byType((BuildingType as any).SUPERMARKET, timeNow, genOptions);
+                if (r < 0.60) return buildingFactory.byType((BuildingType as any).COMMERCIAL, timeNow, genOptions);
+                if (r < 0.68) return buildingFactory.byType((BuildingType as any).COMMERCIAL_MEDIUM, timeNow, genOptions);
+                if (r < 0.74) return buildingFactory.byType((BuildingType as any).OFFICE, timeNow, genOptions);
+                if (r < 0.77) return buildingFactory.byType((BuildingType as any).HOTEL, timeNow, genOptions);
+                if (r < 0.83) return buildingFactory.byType((BuildingType as any).PARKING, timeNow, genOptions);
+                if (r < 0.86) return buildingFactory.byType((BuildingType as any).BANK, timeNow, genOptions);
+                if (r < 0.89) return buildingFactory.byType((BuildingType as any).CLINIC, timeNow, genOptions);
+                if (r < 0.91) return buildingFactory.byType((BuildingType as any).CINEMA, timeNow, genOptions);
+                if (r < 0.93) return buildingFactory.byType((BuildingType as any).PUBLIC_OFFICE, timeNow, genOptions);
+                if (r < 0.94) return buildingFactory.byType((BuildingType as any).CONVENTION_CENTER, timeNow, genOptions);
+                if (r < 0.96) return buildingFactory.byType((BuildingType as any).PARK, timeNow, genOptions); // pequena presença de parques na comercial
+                // Pequena presença residencial em zona comercial (misto), mantendo foco em comércio
+                if (r < 0.972) return buildingFactory.byType((BuildingType as any).HOUSE_SMALL, timeNow, genOptions);
+                if (r < 0.985) return buildingFactory.byType((BuildingType as any).HOUSE, timeNow, genOptions);
+                if (r < 0.992) return buildingFactory.byType((BuildingType as any).APARTMENT_BLOCK, timeNow, genOptions);
+                if (r < 0.996) return buildingFactory.byType((BuildingType as any).RESIDENTIAL, timeNow, genOptions);
+                return buildingFactory.byType((BuildingType as any).GAS_STATION, timeNow, genOptions);
+            };
+            const baseSpacing = 24; // mais denso; ainda comporta tipos médios
+            const margin = Math.max(10, baseSpacing * 0.6) + 4;
+            const opts = {
+                marginM: margin,
+                spacingM: baseSpacing,
+                setbackM: 2,
+                sideSetbackM: 1.5,
+                sideJitterM: 0.2,
+                alongJitterM: 0.1,
+                startOffsetM: Math.max(0, (len - 2 * margin) % baseSpacing * 0.5),
+                staggerOppositeSide: false,
+                placeBothSides: true,
+            };
+            newBuildings = buildingFactory.lotsAlongSegment(pickCommercialVariety, segment, qTree, opts, zoneAt, timeNow, genOptions);
+        } else {
+            newBuildings = buildingFactory.aroundSegment(
+                pickByAdjustedMix,
+                segment, count, radius, qTree, zoneAt, timeNow, genOptions
+            );
+        }
+        newBuildings = newBuildings.filter(b => occupied(b.center));
+        newBuildings.forEach(b => qTree.insert(b.collider.limits()));
+        buildings = buildings.concat(newBuildings);
+    }
+
+    // Passada final: remover quaisquer colisões residuais entre construções
+    const resolved: Building[] = [];
+    outer: for (const b of buildings) {
+        if (terrain.isWater(b.center)) continue; // nada sobre água
+        for (const o of resolved) {
+            if (b.collider.collide(o.collider)) {
+                continue outer; // descarta b em caso de conflito
+            }
+        }
+        resolved.push(b);
+    }
+    buildings = resolved;
+
+    // Garante pelo menos uma construção próxima a ruas sem saída (cul-de-sac)
+    const deadEndNodes = graph.deadEnds();
+    const nearRadius = 80; // m: raio para considerar "próximo ao fim"
+    const nearR2 = nearRadius * nearRadius;
+    const setbackByZone: Record<ZoneName, number> = { downtown: 2, commercial: 2, industrial: 4, rural: 6, residential: 6 };
+
+    const hasBuildingNear = (p: Point) => buildings.some(b => {
+        const dx = b.center.x - p.x; const dy = b.center.y - p.y; return dx*dx + dy*dy <= nearR2;
+    });
+
+    for (const node of deadEndNodes) {
+        const P: Point = node.p;
+        if (hasBuildingNear(P)) continue;
+        const edge = graph.edges[node.edges[0]];
+        const seg = edge.segment;
+        // direção para "dentro" da rua (afastando do fim sem saída)
+        const dirVec = edge.a === node.id
+            ? { x: seg.r.end.x - seg.r.start.x, y: seg.r.end.y - seg.r.start.y }
+            : { x: seg.r.start.x - seg.r.end.x, y: seg.r.start.y - seg.r.end.y };
+        const L = Math.hypot(dirVec.x, dirVec.y) || 1;
+        const ux = dirVec.x / L, uy = dirVec.y / L;
+        const nx = -uy, ny = ux;
+        const w = seg.width;
+        const zone = zoneAt(P);
+        const baseSetback = setbackByZone[zone];
+
+        // Escolher um tipo pequeno por zona para caber mais fácil
+        const pickSmallByZone = () => {
+            switch (zone) {
+                case 'residential': return buildingFactory.byType(BuildingType.HOUSE_SMALL, timeNow, genOptions);
+                case 'commercial': return buildingFactory.byType(BuildingType.KIOSK, timeNow, genOptions);
+                case 'industrial': return buildingFactory.byType(BuildingType.WORKSHOP, timeNow, genOptions);
+                case 'rural': return buildingFactory.byType(BuildingType.FARMHOUSE, timeNow, genOptions);
+                case 'downtown': default: return buildingFactory.byType(BuildingType.SHOP_SMALL, timeNow, genOptions);
+            }
+        };
+
+        // ponto base alguns metros para dentro da rua a partir do fim
+        const margin = Math.max(14, w * 0.6 + 4) + 4;
+        const base: Point = { x: P.x + ux * margin, y: P.y + uy * margin };
+
+        const tryPlace = (): Building | null => {
+            // tenta alguns tipos pequenos antes de desistir
+            const templates = [pickSmallByZone(), buildingFactory.fromZone(zone, timeNow, genOptions)];
+            for (const tmpl of templates) {
+                // clonar building template em uma instância nova simples
+                const b = buildingFactory.byType(tmpl.type, timeNow, genOptions);
+                b.setDir(seg.dir());
+                const halfAcross = b.diagonal * Math.sin(Math.PI * (b.aspectDegree / 180));
+                const off = (w / 2) + baseSetback + Math.max(2, halfAcross);
+                const alongStep = Math.max(6, (2 * b.diagonal * Math.cos(Math.PI * (b.aspectDegree / 180))) * 0.6);
+                const slideK = [0, 1, -1, 2, -2];
+                const sides: (1|-1)[] = [+1, -1];
+                for (const side of sides) {
+                    for (const k of slideK) {
+                        const px = base.x + ux * (alongStep * k);
+                        const py = base.y + uy * (alongStep * k);
+                        const cx = px + nx * off * side;
+                        const cy = py + ny * off * side;
+                        b.setCenter({ x: cx, y: cy });
+                        // colisão simples com quadtree + locais
+                        let collisions = 0;
+                        const bounds = b.collider.limits();
+                        const locals = buildings.filter(ob => {
+                            const lim = ob.collider.limits();
+                            return !(lim.x + lim.width < bounds.x || bounds.x + bounds.width < lim.x || lim.y + lim.height < bounds.y || bounds.y + bounds.height < lim.y);
+                        });
+                        for (const other of [...qTree.retrieve(bounds).map(m => m.o), ...locals]) {
+                            if (other === b) continue;
+                            if (b.collider.collide(other.collider)) { collisions++; break; }
+                        }
+                        if (collisions === 0) {
+                            return b;
+                        }
+                    }
+                }
+            }
+            return null;
+        };
+
+        const placed = tryPlace();
+        if (placed && !terrain.isWater(placed.center)) {
+            buildings.push(placed);
+            qTree.insert(placed.collider.limits());
+        }
+    }
+
+    return buildings;
+}
+
+/** Fluxo aleatório das construções, separado do das vias para não depender da quantidade de sorteios da malha */
+export const buildingsRNG = (seed: string | number) => util.seededRNG(`${seed}:buildings`);
+
+export interface RezoneResult {
+    /** quarteirões cuja zona mudou (já com block.zone atualizado) */
+    blocks: Block[];
+    removed: Building[];
+    added: Building[];
+}
+
+/**
+ * Depois de mudar o zoneamento numa área (pincel de zonas), relê em `zoning` a zona dos quarteirões que cruzam
+ * `area` e, nos que mudaram, troca as construções por um novo parcelamento com o mix da zona nova.
+ * `buildings` e qTree são alterados no lugar.
+ */
+export function rezoneBlocks(blocks: Block[], buildings: Building[], qTree: Quadtree, zoning: CityFields['zoning'], area: { x: number; y: number; width: number; height: number }, genOptions: GenerationOptions = generationOptions()): RezoneResult {
+    const result: RezoneResult = { blocks: [], removed: [], added: [] };
+    for (const block of blocks) {
+        let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+        for (const p of block.centerline) {
+            minX = Math.min(minX, p.x); minY = Math.min(minY, p.y);
+            maxX = Math.max(maxX, p.x); maxY = Math.max(maxY, p.y);
+        }
+        if (maxX < area.x || minX > area.x + area.width || maxY < area.y || minY > area.y + area.height) continue;
+        const zone = zoning.zoneAt(centroidOf(block.polygon));
+        if (zone === block.zone) continue;
+        block.zone = zone;
+        result.blocks.push(block);
+    }
+    if (!result.blocks.length) return result;
+
+    // construções antigas: centro dentro da face (eixo das vias) de um quarteirão refeito
+    const faces = result.blocks.map(b => ({ vertices: b.centerline }));
+    for (let i = buildings.length - 1; i >= 0; i--) {
+        const b = buildings[i];
+        if (!faces.some(f => pointInPolygon(b.center, f))) continue;
+        qTree.remove(b.collider.limits(), b);
+        buildings.splice(i, 1);
+        result.removed.push(b);
+    }
+    result.added = placeBuildingsOnLots(subdivideBlocks(result.blocks, genOptions), qTree, genOptions);
+    buildings.push(...result.added);
+    return result;
+}
+
+/**
+ * Amostra as zonas de `zoning` em uma grade regular cobrindo a extensão da malha viária.
+ */
+export function zoneGridFor(segments: Segment[], zoning: CityFields['zoning'], cellSizeM: number = 100): CityZoneGrid {
+    cellSizeM = Math.max(1, cellSizeM);
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    segments.forEach(s => {
+        minX = Math.min(minX, s.r.start.x, s.r.end.x);
+        minY = Math.min(minY, s.r.start.y, s.r.end.y);
+        maxX = Math.max(maxX, s.r.start.x, s.r.end.x);
+        maxY = Math.max(maxY, s.r.start.y, s.r.end.y);
+    });
+    if (!isFinite(minX)) { minX = minY = maxX = maxY = 0; }
+    const x0 = Math.floor(minX / cellSizeM) * cellSizeM;
+    const y0 = Math.floor(minY / cellSizeM) * cellSizeM;
+    const cols = Math.max(1, Math.ceil((maxX - x0) / cellSizeM));
+    const rows = Math.max(1, Math.ceil((maxY - y0) / cellSizeM));
+    const cells: ZoneName[] = [];
+    for (let r = 0; r < rows; r++) {
+        for (let c = 0; c < cols; c++) {
+            cells.push(zoning.zoneAt({ x: x0 + (c + 0.5) * cellSizeM, y: y0 + (r + 0.5) * cellSizeM }));
+        }
+    }
+    return { x: x0, y: y0, cellSizeM, cols, rows, cells };
+}
+
+/**
+ * Converte o estado vivo (segmentos, polígonos de quarteirão, construções, zoneamento) em dados puros.
+ */
+export function toCityData(seed: string | number, segments: Segment[], blocks: Block[], buildings: Building[], zoning: CityFields['zoning'], zoneCellSizeM?: number): CityData {
+    const segmentIds = new Map<Segment, number>();
+    segments.forEach((s, i) => segmentIds.set(s, s.id ?? i));
+
+    return {
+        seed,
+        segments: segments.map((s, i) => ({
+            id: s.id ?? i,
+            start: { x: s.r.start.x, y: s.r.start.y },
+            end: { x: s.r.end.x, y: s.r.end.y },
+            width: s.width,
+            highway: !!s.q.highway,
+            roadClass: s.roadClass,
+            level: s.level,
+            oneWay: s.oneWay,
+        })),
+        blocks: blocks.map(b => ({
+            id: b.id,
+            polygon: b.polygon.map(p => ({ x: p.x, y: p.y })),
+            area: b.area,
+            zone: b.zone,
+            segments: b.segments.map(s => segmentIds.get(s)).filter((id): id is number => id !== undefined),
+            frontageM: b.frontageM,
+        })),
+        buildings: buildings.map((b, i) => ({
+            // ids locais (Building.id_counter é global ao processo)
+            id: i,
+            type: b.type,
+            center: { x: b.center.x, y: b.center.y },
+            dir: b.dir,
+            corners: b.corners.map(c => ({ x: c.x, y: c.y })),
+            zone: zoning.zoneAt(b.center),
+        })),
+        zones: zoneGridFor(segments, zoning, zoneCellSizeM),
+    };
+}
+
+/**
+ * Gera uma cidade completa a partir de uma seed e devolve somente dados serializáveis.
+ */
+export function generateCity(seed: string | number, options: CityOptions = {}): CityData {
+    const genOptions = generationOptions(options.generation ?? {});
+    const result = mapgen.generate(seed, genOptions);
+    const { segments, qTree, zoning } = result;
+    const clipScale = options.clipperScale ?? (config as any).render.clipperScale ?? 100;
+
+    const blocks = options.blocks === false ? [] : extractBlocks(segments, p => zoning.zoneAt(p), { clipperScale: clipScale });
+
+    const buildingOptions = { ...genOptions, rng: genOptions.rng ?? buildingsRNG(seed) };
+    const buildings = options.buildings === false ? [] : placeBuildings(segments, qTree, result, buildingOptions, options.blocks === false ? undefined : blocks);
+
+    return toCityData(seed, segments, blocks, buildings, zoning, options.zoneCellSizeM);
+}
@@ -1,18 +1,55 @@
+import * as _ from 'lodash';
 import { randomRange } from '../generic_modules/math';
+import type { RNG, Point } from '../generic_modules/math';
+import type { ZoneName, CityLayers, RoadClass } from './mapgen';
 
 const branchAngleDev = 3;
 const forwardAngleDev = 15;
 
-const randomAngle = (limit: number): number => {
+const randomAngle = (limit: number, rng: RNG = Math.random): number => {
     // non-linear distribution
     const nonUniformNorm = Math.pow(Math.abs(limit), 3);
     let val = 0;
-    while (val === 0 || Math.random() < Math.pow(Math.abs(val), 3) / nonUniformNorm) {
-        val = randomRange(-limit, +limit);
+    while (val === 0 || rng() < Math.pow(Math.abs(val), 3) / nonUniformNorm) {
+        val = randomRange(-limit, +limit, rng);
     }
     return val;
 };
 
+export type GrowthPattern = 'free' | 'grid' | 'radial';
+export type GrowthRuleName = 'classic' | 'grid' | 'organic' | 'spaced' | 'sparse' | 'radial';
+
+/** Regra de crescimento da malha (config.growthRules; chave em config.zones[zona].growth) */
+export interface GrowthRule {
+    pattern: GrowthPattern;
+    gridAngleDeg?: number;
+    center?: Point | null;
+    branchAngleJitterDeg?: number;
+    straightAngleJitterDeg?: number;
+    branchProbabilityFactor: number;
+    segmentLengthFactor: number;
+    deadEndProbability: number;
+}
+
+/** Parâmetros de uma classe viária (config.roadClasses); campos opcionais ausentes desligam o comportamento */
+export interface RoadClassSpec {
+    widthVsCharacter: number;
+    maxSpeedKmh: number;
+    capacity: number;
+    bridge?: boolean;
+    tunnel?: boolean;
+    gradeSeparated?: boolean;
+    followPopulation?: boolean;
+    branchClass?: `${RoadClass}`;
+    ruralBranchClass?: `${RoadClass}`;
+    sameClassBranchProbability?: number;
+    branchProbability?: number;
+    alleyProbability?: number;
+    branchDelay?: number;
+    color: number;
+    lineWidthPx: number;
+}
+
 // Escala e unidades
 export const units = {
     world: 'meters', // 1 unidade do mundo = 1 metro
@@ -34,15 +71,29 @@ export const scale = {
 };
 
 // Larguras baseadas no diâmetro do personagem (ombros) com opção de override direto em metros
-export const roadWidthM = () => {
-    const o = (config as any)?.mapGeneration?.ROAD_WIDTH_OVERRIDE_M;
+export const roadWidthM = (mapGeneration: { ROAD_WIDTH_OVERRIDE_M?: number | null } = config.mapGeneration) => {
+    const o = mapGeneration?.ROAD_WIDTH_OVERRIDE_M;
     return (typeof o === 'number' && o > 0) ? o : scale.characterDiameterM * scale.multipliers.streetVsCharacter;
 };
-export const highwayWidthM = () => {
-    const o = (config as any)?.mapGeneration?.HIGHWAY_WIDTH_OVERRIDE_M;
+export const highwayWidthM = (mapGeneration: { HIGHWAY_WIDTH_OVERRIDE_M?: number | null } = config.mapGeneration) => {
+    const o = mapGeneration?.HIGHWAY_WIDTH_OVERRIDE_M;
     return (typeof o === 'number' && o > 0) ? o : scale.characterDiameterM * scale.multipliers.highwayVsCharacter;
 };
 
+/**
+ * Largura da classe viária: motorway/local seguem highwayWidthM/roadWidthM (e seus overrides da UI),
+ * as demais usam roadClasses[classe].widthVsCharacter.
+ */
+export const roadClassWidthM = (
+    roadClass: string,
+    mapGeneration: { ROAD_WIDTH_OVERRIDE_M?: number | null; HIGHWAY_WIDTH_OVERRIDE_M?: number | null } = config.mapGeneration,
+    roadClasses: Record<string, { widthVsCharacter?: number }> = config.roadClasses
+) => {
+    if (roadClass === 'motorway') return highwayWidthM(mapGeneration);
+    if (roadClass === 'local') return roadWidthM(mapGeneration);
+    return scale.characterDiameterM * (roadClasses[roadClass]?.widthVsCharacter ?? scale.multipliers.streetVsCharacter);
+};
+
 export const config = {
     mapGeneration: {
         BUILDING_PLACEMENT_LOOP_LIMIT: 3,
@@ -55,8 +106,8 @@ export const config = {
         // Larguras derivadas da escala; manter os campos para retrocompat, mas não usar diretamente
         DEFAULT_SEGMENT_WIDTH: 0, // ignorado (usamos roadWidthM())
         HIGHWAY_SEGMENT_WIDTH: 0, // ignorado (usamos highwayWidthM())
-        RANDOM_BRANCH_ANGLE: () => randomAngle(branchAngleDev),
-        RANDOM_STRAIGHT_ANGLE: () => randomAngle(forwardAngleDev),
+        RANDOM_BRANCH_ANGLE: (rng?: RNG) => randomAngle(branchAngleDev, rng),
+        RANDOM_STRAIGHT_ANGLE: (rng?: RNG) => randomAngle(forwardAngleDev, rng),
     DEFAULT_BRANCH_PROBABILITY: 0.55,
     HIGHWAY_BRANCH_PROBABILITY: 0.08,
         HIGHWAY_BRANCH_POPULATION_THRESHOLD: 0.1,
@@ -85,9 +136,95 @@ export const config = {
         QUADTREE_MAX_LEVELS: 10,
         DEBUG: false,
     },
+    // Hierarquia viária: largura (x diâmetro do personagem), velocidade (km/h), capacidade (veículos por segmento),
+    // regras de ramificação usadas em globalGoals e estilo no renderer.
+    // followPopulation: segue o lado mais populoso, como as antigas rodovias (sameClassBranchProbability
+    //   padrão = mapGeneration.HIGHWAY_BRANCH_PROBABILITY)
+    // branchClass/branchProbability/branchDelay: ramos perpendiculares (padrões: DEFAULT_BRANCH_PROBABILITY
+    //   e NORMAL_BRANCH_TIME_DELAY_FROM_HIGHWAY); ruralBranchClass substitui branchClass na zona rural
+    // alleyProbability: chance de um ramo virar viela
+    // bridge/tunnel: atravessa água por ponte / encosta íngreme por túnel em vez de desviar;
+    // gradeSeparated: cruza as demais classes em outro nível (viaduto/passagem inferior), sem interseção
+    roadClasses: {
+        motorway: {
+            widthVsCharacter: 60, maxSpeedKmh: 100, capacity: 12,
+            bridge: true, tunnel: true, gradeSeparated: true,
+            followPopulation: true, branchClass: 'arterial',
+            color: 0x7F8C8D, lineWidthPx: 5,
+        },
+        arterial: {
+            widthVsCharacter: 50, maxSpeedKmh: 60, capacity: 9,
+            bridge: true,
+            sameClassBranchProbability: 0.05, branchClass: 'collector', branchDelay: 2,
+            color: 0x90A4AE, lineWidthPx: 4,
+        },
+        collector: {
+            widthVsCharacter: 44, maxSpeedKmh: 50, capacity: 7,
+            branchClass: 'local', ruralBranchClass: 'ruralTrack', branchDelay: 0,
+            color: 0x9EABA9, lineWidthPx: 3,
+        },
+        local: {
+            widthVsCharacter: 40, maxSpeedKmh: 40, capacity: 6,
+            branchClass: 'local', ruralBranchClass: 'ruralTrack', alleyProbability: 0.06, branchDelay: 0,
+            color: 0xA1AFA9, lineWidthPx: 2,
+        },
+        alley: {
+            widthVsCharacter: 24, maxSpeedKmh: 20, capacity: 2,
+            branchProbability: 0,
+            color: 0xB4BCB8, lineWidthPx: 1,
+        },
+        ruralTrack: {
+            widthVsCharacter: 28, maxSpeedKmh: 30, capacity: 3,
+            branchClass: 'ruralTrack', branchProbability: 0.25, branchDelay: 0,
+            color: 0xB89F7E, lineWidthPx: 1.5,
+        },
+    } as Record<RoadClass, RoadClassSpec>,
+    // Terreno (relevo, costa, lagos e rios) amostrado por ruído distorcido a partir da seed do mapa.
+    // Mesma fonte para o crescimento das vias, zoneamento, heatmap, construções e renderer.
+    terrain: {
+        enabled: true,
+        // ruído de relevo: elevação = (ruído - seaLevel) * reliefM  (< 0 => água)
+        noiseScale: 1 / 3500,
+        octaves: 4,
+        lacunarity: 2.0,
+        gain: 0.5,
+        reliefM: 160,
+        seaLevel: 0.28,
+        // área central sempre em terra firme (a raiz da malha nasce ali)
+        centerClearRadiusM: 700,
+        centerLiftM: 25,
+        // costa: o terreno afunda além de distanceM numa direção sorteada pela seed
+        coast: { enabled: true, distanceM: 3500, falloffM: 1500 },
+        // rios: linhas de nível zero de um segundo ruído, escavando as margens
+        rivers: { enabled: true, noiseScale: 1 / 7000, widthM: 45, bankDepthM: 3 },
+        // crescimento das vias: inclinação máxima (rampa) e tentativas de desvio
+        maxGrade: 0.12,
+        // vão máximo de ponte (classes com bridge: true em roadClasses)
+        maxBridgeLengthM: 600,
+        sampleStepM: 8,
+        bendStepDeg: 10,
+        maxBendDeg: 40,
+        // renderer: tamanho da célula (m) e opacidade da camada
+        renderCellM: 60,
+        renderAlpha: 0.55,
+    },
     zoningModel: {
-    mode: 'heatmap' as 'perlin' | 'procedural' | 'geo' | 'concentric' | 'heatmap',
+    mode: 'heatmap' as 'perlin' | 'procedural' | 'geo' | 'concentric' | 'heatmap' | 'voronoi',
         cityCenter: { x: 0, y: 0 },
+    // Região metropolitana: centros somados ao cityCenter (CBD, peso 1). Cada centro tem bandas de
+    // rUnit * radiusScale, weight < 1 empurra as bandas para fora (núcleo menos denso) e highways
+    // rodovias-semente de onde a malha cresce (nenhuma se o centro cair na água). Desligado => cidade de um centro só
+    polycentric: {
+            enabled: false,
+            centers: [
+                // subcentros
+                { x: 4200, y: 1800, weight: 0.75, radiusScale: 0.5, highways: 2 },
+                { x: -3600, y: 2800, weight: 0.7, radiusScale: 0.45, highways: 2 },
+                // cidades-satélite
+                { x: 1200, y: -8800, weight: 0.45, radiusScale: 0.25, highways: 1 },
+                { x: -9200, y: -2600, weight: 0.45, radiusScale: 0.25, highways: 1 },
+            ],
+    },
     // Escala do raio efetivo do heatmap radial (0.0..1.0) — menor => bandas menores
     heatmapRadiusScale: 0.35,
     // Peso da textura (ruído) no heatmap — menor => anéis mais limpos
@@ -137,9 +274,36 @@ export const config = {
             t2: 0.70,
             t3: 0.82,
             t4: 0.93,
-    }
+    },
+    // Modo 'geo': zonas de um GeoJSON importado (parseGeoZones + MapActions.setLayers), coordenadas em metros do mundo
+    geo: {
+            // propriedade da feature com o nome da zona
+            zoneProperty: 'zone',
+            // fora de todos os polígonos (ou zona desconhecida): zona fixa ou 'procedural' (classificação radial)
+            fallbackZone: 'rural' as ZoneName | 'procedural',
+    },
+    // Imagens desenhadas (image_fields.ts): população em tons de cinza e zonas por cor de render.zoneColors,
+    // esticadas num quadrado de lado 2 * extentM em torno de cityCenter
+    imageFields: {
+            extentM: 8000,
+            // distância RGB máxima até a cor de uma zona
+            zoneColorTolerance: 60,
+            // com imagem de população, lote ocupado com probabilidade minLotOccupancy + (1 - minLotOccupancy) * população
+            minLotOccupancy: 0.2,
+    },
+    // Modo 'voronoi': tesselação de tools/zone_gen (Voronoi + Lloyd) semeada pela seed do mapa,
+    // num quadrado de lado 2 * extentM em torno de cityCenter; fora dele vale geo.fallbackZone
+    voronoi: {
+            counts: { downtown: 1, commercial: 4, industrial: 3, residential: 6, rural: 4 },
+            extentM: 6000,
+            lloydIterations: 4,
+    },
     },
     buildings: {
+        // 'lots': parcelar os quarteirões (config.zones[zona].lot) e uma construção por lote
+        // (vias que não fecham quarteirão recebem construções ao longo do segmento);
+        // 'scatter': distribuição antiga ao longo dos segmentos
+        placement: 'lots' as 'lots' | 'scatter',
         // Fator de área dos prédios (1.0 = original). 0.5 => metade da área
     areaScale: 1.0,
         // Dimensões reais aproximadas (em metros) para footprint (largura x profundidade)
@@ -212,8 +376,34 @@ export const config = {
         isoC: -1,
         isoD: 0.5,
         cameraFollow: true,
+    // Câmera livre: arrastar desloca a vista (e desliga cameraFollow); roda/pinça ancoram o zoom sob o cursor
+    zoomMin: 0.002,
+    zoomMax: 20,
+    // fator de zoom por unidade de deltaY da roda: exp(-deltaY * wheelZoomSpeed)
+    wheelZoomSpeed: 0.0015,
+    // deslocamento (px CSS) a partir do qual um clique vira arraste
+    dragThresholdPx: 5,
     // Modo simples: desenhar ruas como linhas finas, sem espessura/preenchimento
     simpleRoads: false,
+    // Camada de terreno (água e relevo) sob a malha
+    showTerrain: true,
+    // Pontes/viadutos (level > 0) e túneis (level < 0)
+    bridgeDeckLiftM: 6,
+    bridgeShadowAlpha: 0.28,
+    bridgeRailColor: 0x5A5F63,
+    tunnelColor: 0x3A3F44,
+    tunnelAlpha: 0.45,
+    // Rota escolhida por clique (linha e marcadores de origem/destino)
+    routeColor: 0xFF6D00,
+    routeAlpha: 0.9,
+    routeLineWidthM: 3,
+    routeMarkerRadiusM: 5,
+    routeStartColor: 0x00C853,
+    routeEndColor: 0xD50000,
+    // Destaque da entidade sob o cursor no inspetor
+    inspectHighlightColor: 0x00E5FF,
+    // Colorir vias pela classe (roadClasses[classe].color/lineWidthPx) em vez de baseRoadColor
+    roadClassStyling: true,
     // Overlay opcional: mostra o corredor de afastamento lateral (w/2+1 de cada lado)
     showClearanceDebug: false,
     // Mostrar preenchimento das vias (superfície). Desligue para ver apenas o contorno
@@ -483,13 +673,175 @@ export const config = {
         DEFAULT_CARGO_CAPACITY: 1,
         MIN_SPEED_PROPORTION: 0.1,
     },
+    // Geração de viagens origem–destino. Perfis por BuildingType, por 100 m² de projeção do prédio:
+    // residents (moradores), jobs (postos de trabalho), goodsOut/goodsIn (unidades de carga por dia)
+    trips: {
+        // fração dos moradores que faz a viagem casa -> trabalho por dia
+        commuteShare: 0.5,
+        // alcance médio (m) da função de impedância exp(-d / meanTripM) por motivo
+        meanTripM: { commute: 2500, goods: 4000 },
+        // destinos mantidos por origem (os de maior fluxo), para a matriz ficar esparsa
+        maxDestinationsPerOrigin: 8,
+        profiles: {
+            house: { residents: 3 }, houseSmall: { residents: 3.5 }, houseHigh: { residents: 4 },
+            residential: { residents: 8 }, apartmentBlock: { residents: 14 }, condoTower: { residents: 24 },
+            farmhouse: { residents: 1 },
+            office: { jobs: 8 }, publicOffice: { jobs: 6 }, bank: { jobs: 5 }, hotel: { jobs: 2, goodsIn: 0.3 },
+            school: { jobs: 2 }, hospitalPrivate: { jobs: 4, goodsIn: 0.5 }, clinic: { jobs: 4, goodsIn: 0.3 },
+            conventionCenter: { jobs: 1 }, cinema: { jobs: 1 }, church: { jobs: 0.2 },
+            commercial: { jobs: 3, goodsIn: 0.8 }, commercialMedium: { jobs: 3, goodsIn: 0.8 }, commercialLarge: { jobs: 3, goodsIn: 1 },
+            shopSmall: { jobs: 3, goodsIn: 1 }, kiosk: { jobs: 4, goodsIn: 1 }, bakery: { jobs: 4, goodsIn: 1 },
+            restaurant: { jobs: 4, goodsIn: 1 }, bar: { jobs: 4, goodsIn: 1 }, pharmacy: { jobs: 4, goodsIn: 1 },
+            grocery: { jobs: 3, goodsIn: 1.5 }, supermarket: { jobs: 2, goodsIn: 1.5 }, shoppingCenter: { jobs: 3, goodsIn: 1 },
+            gasStation: { jobs: 2, goodsIn: 1 }, parkingLot: { jobs: 0.1 },
+            factory: { jobs: 1.5, goodsOut: 2, goodsIn: 1 }, factoryMedium: { jobs: 1.5, goodsOut: 2, goodsIn: 1 },
+            industrialComplex: { jobs: 1.2, goodsOut: 2.5, goodsIn: 1.2 }, workshop: { jobs: 2, goodsOut: 1, goodsIn: 0.5 },
+            warehouseSmall: { jobs: 0.6, goodsOut: 1.5, goodsIn: 1 }, distributionCenter: { jobs: 0.6, goodsOut: 3, goodsIn: 2 },
+            powerPlant: { jobs: 0.3 }, import: { goodsOut: 5 },
+            farm: { jobs: 0.05, goodsOut: 0.1 }, field: { goodsOut: 0.02 }, silo: { goodsOut: 0.5, goodsIn: 0.3 },
+            animalBarn: { jobs: 0.2, goodsOut: 0.2 }, machineryShed: { jobs: 0.2 }, cooperative: { jobs: 1, goodsOut: 1, goodsIn: 0.5 },
+        } as Record<string, { residents?: number; jobs?: number; goodsOut?: number; goodsIn?: number }>,
+    },
+    // Roteamento (generic_modules/astar.ts): custo em segundos = tempo de percurso + penalidades de conversão.
+    // speedMps 0 => velocidade da via (currentSpeed com useTrafficSpeed, senão maxSpeed da classe)
+    // turnPenaltyS: custo de uma conversão de 90° (proporcional ao ângulo acima de straightToleranceDeg)
+    // uTurnPenaltyS: retorno no fim de uma via sem saída
+    routing: {
+        profiles: {
+            driving: { speedMps: 0, useTrafficSpeed: true, respectOneWay: true, turnPenaltyS: 4, uTurnPenaltyS: 30, straightToleranceDeg: 20, excludedClasses: [] as string[] },
+            walking: { speedMps: 1.4, useTrafficSpeed: false, respectOneWay: false, turnPenaltyS: 0, uTurnPenaltyS: 0, straightToleranceDeg: 20, excludedClasses: ['motorway'] as string[] },
+        },
+        // alternativas: as vias já usadas ficam alternativePenalty vezes mais caras a cada rodada;
+        // rotas que repetem mais de maxAlternativeOverlap do comprimento de uma anterior são descartadas
+        alternatives: 3,
+        alternativePenalty: 1.6,
+        maxAlternativeOverlap: 0.8,
+        // limite de estados expandidos por busca (protege malhas enormes)
+        maxExpansions: 200000,
+        // clique no mapa: 1º clique = origem, 2º = destino (botão direito/Esc limpa)
+        clickToRoute: true,
+        clickProfile: 'driving' as 'driving' | 'walking',
+        // distância máxima do clique até a via mais próxima
+        pickRadiusM: 60,
+    },
+    // Simulação de tráfego (veículos entre construções, rotas por A*, congestionamento via Segment.users)
+    traffic: {
+        enabled: false,
+        maxVehicles: 200,
+        spawnPerSecond: 4,
+        // viagens mais curtas que isso não são geradas
+        minTripM: 300,
+        // raio de busca da via de acesso de cada construção
+        accessRadiusM: 150,
+        // acelera o relógio da simulação em relação ao tempo real
+        timeScale: 1.0,
+        // sortear origem/destino pela matriz OD (trips.ts) em vez de pares aleatórios
+        useTripTable: true,
+        // veículo espera no fim do trecho se o próximo tiver users >= capacity * jamOccupancy
+        jamOccupancy: 2.0,
+        carLengthM: 4.5,
+        carWidthM: 2.0,
+        colors: [0xE53935, 0x1E88E5, 0xFDD835, 0x43A047, 0xFB8C00, 0xECEFF1, 0x263238],
+    },
     controls: {
     characterSpeedMps: 25, // velocidade base em m/s (ajustável na UI)
     sprintMultiplier: 3,   // multiplicador ao segurar Shift
     },
+    // Inspetor (picking.ts): ao passar o cursor mostra a entidade sob ele (prédio > via > quarteirão)
+    picking: {
+        inspectorEnabled: false,
+        // raio de busca no quadtree ao redor do cursor
+        queryRadiusM: 40,
+        // folga além da meia largura para acertar vias estreitas
+        toleranceM: 2,
+    },
+    // Edição manual da malha (road_editor.ts); pontas encaixam em nós/vias a até mapGeneration.ROAD_SNAP_DISTANCE
+    editor: {
+        tool: 'none' as 'none' | 'draw' | 'delete' | 'drag' | 'split' | 'paint',
+        // classe das vias desenhadas à mão
+        drawClass: 'local' as 'motorway' | 'arterial' | 'collector' | 'local' | 'alley',
+        // raio (pixels de tela) para pegar um nó com a ferramenta de arrastar
+        nodePickRadiusPx: 14,
+        previewColor: 0xFF4081,
+        // Pincel de zonas (zoning.paint do mapa atual): zona pintada ('erase' volta ao zoneamento do modo atual)
+        paintZone: 'commercial' as ZoneName | 'erase',
+        brushRadiusM: 60,
+        // lado das células da pintura (salvo junto no snapshot)
+        paintCellM: 16,
+    },
+    // Colisão do personagem (character.ts) com prédios e bandas de borda dos quarteirões
+    character: {
+        collideBuildings: true,
+        collideEdgeBands: true,
+        // mantém o personagem sobre vias e calçadas
+        walkableOnly: false,
+        // passo máximo por verificação (evita atravessar bandas finas em quadros longos)
+        maxStepM: 0.25,
+        resolveIterations: 3,
+        // raio de busca dos obstáculos/vias ao redor do personagem
+        queryRadiusM: 30,
+    },
+    // Regras de crescimento da malha por zona (config.zones.*.growth); valem para as vias que não seguem
+    // a população (motorways continuam como antes, mas seus ramos obedecem à regra da zona).
+    // pattern: 'free' (ângulos livres), 'grid' (alinha a gridAngleDeg + k*90) ou 'radial' (radiais/anéis em torno de center)
+    // branchAngleJitterDeg/straightAngleJitterDeg: desvio uniforme (±); sem valor usa RANDOM_BRANCH/STRAIGHT_ANGLE
+    // deadEndProbability: chance de uma via local/viela parar (cul-de-sac)
+    growthRules: {
+        classic: {
+            pattern: 'free' as GrowthPattern,
+            branchProbabilityFactor: 1.0,
+            segmentLengthFactor: 1.0,
+            deadEndProbability: 0,
+        },
+        grid: {
+            pattern: 'grid' as GrowthPattern,
+            gridAngleDeg: 0,
+            branchAngleJitterDeg: 0,
+            straightAngleJitterDeg: 0,
+            branchProbabilityFactor: 1.0,
+            segmentLengthFactor: 1.0,
+            deadEndProbability: 0,
+        },
+        organic: {
+            pattern: 'free' as GrowthPattern,
+            branchAngleJitterDeg: 25,
+            straightAngleJitterDeg: 16,
+            branchProbabilityFactor: 0.9,
+            segmentLengthFactor: 0.7,
+            deadEndProbability: 0.15,
+        },
+        spaced: {
+            pattern: 'free' as GrowthPattern,
+            branchAngleJitterDeg: 3,
+            straightAngleJitterDeg: 2,
+            branchProbabilityFactor: 0.5,
+            segmentLengthFactor: 1.0,
+            deadEndProbability: 0,
+        },
+        sparse: {
+            pattern: 'free' as GrowthPattern,
+            branchAngleJitterDeg: 12,
+            straightAngleJitterDeg: 8,
+            branchProbabilityFactor: 0.3,
+            segmentLengthFactor: 1.2,
+            deadEndProbability: 0.1,
+        },
+        radial: {
+            pattern: 'radial' as GrowthPattern,
+            // null => centro da cidade mais próximo (zoningModel.cityCenter ou centros policêntricos)
+            center: null as Point | null,
+            branchAngleJitterDeg: 0,
+            straightAngleJitterDeg: 0,
+            branchProbabilityFactor: 1.0,
+            segmentLengthFactor: 1.0,
+            deadEndProbability: 0,
+        },
+    } as Record<GrowthRuleName, GrowthRule>,
     zones: {
         // Parâmetros por zona: comprimento típico de quadra e mix de tipos de prédio
         downtown: {
+            // regra de crescimento das ruas (ver growthRules)
+            growth: 'grid' as GrowthRuleName,
             blockLengthM: 80,
             // Centro com comércio e residencial vertical
             buildingMix: {
@@ -501,8 +853,18 @@ export const config = {
             density: 10,
             scatterRadiusM: 140,
             coverageTarget: 0.40,
+            lot: {
+                // Centro: lotes largos, sem recuo frontal/lateral
+                widthM: 22,
+                depthM: 35,
+                frontSetbackM: 0,
+                sideSetbackM: 0,
+                rearSetbackM: 4,
+            }
         },
         residential: {
+            // regra de crescimento das ruas (ver growthRules)
+            growth: 'organic' as GrowthRuleName,
             blockLengthM: 100,
             // Predominância de casas com alguns equipamentos
             buildingMix: {
@@ -523,6 +885,8 @@ export const config = {
             }
         },
         commercial: {
+            // regra de crescimento das ruas (ver growthRules)
+            growth: 'classic' as GrowthRuleName,
             blockLengthM: 85,
             // Comércio dominante, com algum residencial
             buildingMix: {
@@ -539,8 +903,17 @@ export const config = {
             density: 12,
             scatterRadiusM: 100,
             coverageTarget: 0.42,
+            lot: {
+                widthM: 16,
+                depthM: 30,
+                frontSetbackM: 2,
+                sideSetbackM: 1,
+                rearSetbackM: 4,
+            }
         },
         industrial: {
+            // regra de crescimento das ruas (ver growthRules)
+            growth: 'spaced' as GrowthRuleName,
             blockLengthM: 140,
             // Fábricas/galpões dominam
             buildingMix: {
@@ -554,8 +927,17 @@ export const config = {
             coverageTarget: 0.22,
             // Afastamento mínimo entre fábricas (m)
             minFactorySpacingM: 200,
+            lot: {
+                widthM: 50,
+                depthM: 80,
+                frontSetbackM: 10,
+                sideSetbackM: 5,
+                rearSetbackM: 8,
+            }
         },
         rural: {
+            // regra de crescimento das ruas (ver growthRules)
+            growth: 'sparse' as GrowthRuleName,
             blockLengthM: 190,
             // Fazendas e casas esparsas; pouco comércio
             buildingMix: {
@@ -567,6 +949,50 @@ export const config = {
             density: 2,
             scatterRadiusM: 180,
             coverageTarget: 0.06,
+            lot: {
+                // Glebas rurais
+                widthM: 120,
+                depthM: 200,
+                frontSetbackM: 15,
+                sideSetbackM: 10,
+                rearSetbackM: 10,
+            }
         }
     }
-};
\ No newline at end of file
+};
+
+// Parâmetros de geração por chamada (vias, zonas e construções). Permite gerar cidades com
+// parâmetros diferentes no mesmo processo sem depender do `config` global mutado pela UI.
+export interface GenerationOptions {
+    mapGeneration: typeof config.mapGeneration;
+    zoningModel: typeof config.zoningModel;
+    zones: typeof config.zones;
+    buildings: typeof config.buildings;
+    roadClasses: typeof config.roadClasses;
+    growthRules: typeof config.growthRules;
+    terrain: typeof config.terrain;
+    /** fluxo aleatório injetado; sem ele, generate() deriva um da seed */
+    rng?: RNG;
+    /** zonas importadas/pintadas/desenhadas e população desenhada (ausente => só o modelo procedural) */
+    layers?: CityLayers;
+}
+
+export type DeepPartial<T> = { [K in keyof T]?: T[K] extends (...args: any[]) => any ? T[K] : T[K] extends object ? DeepPartial<T[K]> : T[K] };
+
+/**
+ * Cópia independente das seções do `config` (valores da UI no momento da chamada), com os overrides
+ * mesclados: alterar as opções devolvidas nunca muda o config global.
+ */
+export function generationOptions(overrides?: DeepPartial<GenerationOptions>): GenerationOptions {
+    const live: GenerationOptions = {
+        mapGeneration: config.mapGeneration,
+        zoningModel: config.zoningModel,
+        zones: config.zones,
+        buildings: config.buildings,
+        roadClasses: config.roadClasses,
+        growthRules: config.growthRules,
+        terrain: config.terrain,
+    };
+    const options = _.cloneDeep(live);
+    return overrides ? _.merge(options, overrides) : options;
+}
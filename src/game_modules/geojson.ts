@@ -0,0 +1,134 @@
+import type { Point } from '../generic_modules/math';
+import { units } from './config';
+import type { ZoneName } from './mapgen';
+import type { CityData, CityZoneGrid } from './city';
+
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const ClipperLib: any = require('clipper-lib');
+
+// Exportação da cidade para GeoJSON em metros do mundo (x = leste, y = norte), sem reprojeção.
+// Cada feature carrega `layer` ('road' | 'block' | 'building' | 'zone') para filtragem nas ferramentas GIS.
+
+export type Position = [number, number];
+
+export type GeoJSONGeometry =
+    | { type: 'LineString'; coordinates: Position[] }
+    | { type: 'Polygon'; coordinates: Position[][] }
+    | { type: 'MultiPolygon'; coordinates: Position[][][] };
+
+export interface GeoJSONFeature {
+    type: 'Feature';
+    id?: string | number;
+    geometry: GeoJSONGeometry;
+    properties: Record<string, any>;
+}
+
+export interface GeoJSONFeatureCollection {
+    type: 'FeatureCollection';
+    features: GeoJSONFeature[];
+    /** membros estrangeiros: unidade das coordenadas e seed de origem */
+    units: string;
+    seed: string | number;
+}
+
+const signedArea = (ring: Point[]) => {
+    let a = 0;
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+        a += (ring[j].x * ring[i].y) - (ring[i].x * ring[j].y);
+    }
+    return a / 2;
+};
+
+/** Anel fechado com orientação da RFC 7946: externo anti-horário, buracos horário */
+const toRing = (pts: Point[], hole: boolean = false): Position[] => {
+    const ccw = signedArea(pts) > 0;
+    const ordered = (ccw === !hole) ? pts : pts.slice().reverse();
+    const ring: Position[] = ordered.map(p => [p.x, p.y]);
+    const first = ring[0], last = ring[ring.length - 1];
+    if (first && (first[0] !== last[0] || first[1] !== last[1])) ring.push([first[0], first[1]]);
+    return ring;
+};
+
+/**
+ * Une as células da grade de zonas em polígonos (com buracos) por zona.
+ */
+export function zonePolygons(grid: CityZoneGrid): Array<{ zone: ZoneName; polygons: Point[][][] }> {
+    const S = 100; // escala inteira do Clipper (cm)
+    const byZone = new Map<ZoneName, any[]>();
+    grid.cells.forEach((zone, i) => {
+        const c = i % grid.cols, r = Math.floor(i / grid.cols);
+        const x0 = Math.round((grid.x + c * grid.cellSizeM) * S), y0 = Math.round((grid.y + r * grid.cellSizeM) * S);
+        const x1 = Math.round((grid.x + (c + 1) * grid.cellSizeM) * S), y1 = Math.round((grid.y + (r + 1) * grid.cellSizeM) * S);
+        if (!byZone.has(zone)) byZone.set(zone, []);
+        byZone.get(zone)!.push([{ X: x0, Y: y0 }, { X: x1, Y: y0 }, { X: x1, Y: y1 }, { X: x0, Y: y1 }]);
+    });
+
+    const out: Array<{ zone: ZoneName; polygons: Point[][][] }> = [];
+    byZone.forEach((cells, zone) => {
+        const cpr = new ClipperLib.Clipper();
+        const tree = new ClipperLib.PolyTree();
+        cpr.AddPaths(cells, ClipperLib.PolyType.ptSubject, true);
+        cpr.Execute(ClipperLib.ClipType.ctUnion, tree, ClipperLib.PolyFillType.pftNonZero, ClipperLib.PolyFillType.pftNonZero);
+        const toPts = (path: any[]) => path.map(p => ({ x: p.X / S, y: p.Y / S }));
+        const polygons: Point[][][] = [];
+        // Contornos externos em qualquer profundidade (ilhas dentro de buracos incluídas)
+        const walk = (node: any) => {
+            for (const child of node.Childs()) {
+                if (!child.IsHole()) {
+                    const rings = [toPts(child.Contour())];
+                    for (const hole of child.Childs()) rings.push(toPts(hole.Contour()));
+                    polygons.push(rings);
+                }
+                walk(child);
+            }
+        };
+        walk(tree);
+        out.push({ zone, polygons });
+    });
+    return out;
+}
+
+/**
+ * Converte uma cidade (ver generateCity/toCityData) em uma única FeatureCollection.
+ */
+export function cityToGeoJSON(city: CityData): GeoJSONFeatureCollection {
+    const features: GeoJSONFeature[] = [];
+
+    city.segments.forEach(s => {
+        features.push({
+            type: 'Feature',
+            id: `road-${s.id}`,
+            geometry: { type: 'LineString', coordinates: [[s.start.x, s.start.y], [s.end.x, s.end.y]] },
+            properties: { layer: 'road', id: s.id, width: s.width, highway: s.highway, roadClass: s.roadClass, level: s.level, oneWay: s.oneWay },
+        });
+    });
+
+    city.blocks.forEach(b => {
+        features.push({
+            type: 'Feature',
+            id: `block-${b.id}`,
+            geometry: { type: 'Polygon', coordinates: [toRing(b.polygon)] },
+            properties: { layer: 'block', id: b.id, area: b.area, zone: b.zone, frontageM: b.frontageM, segments: b.segments },
+        });
+    });
+
+    city.buildings.forEach(b => {
+        features.push({
+            type: 'Feature',
+            id: `building-${b.id}`,
+            geometry: { type: 'Polygon', coordinates: [toRing(b.corners)] },
+            properties: { layer: 'building', id: b.id, type: b.type, zone: b.zone, dir: b.dir },
+        });
+    });
+
+    zonePolygons(city.zones).forEach(({ zone, polygons }) => {
+        features.push({
+            type: 'Feature',
+            id: `zone-${zone}`,
+            geometry: { type: 'MultiPolygon', coordinates: polygons.map(rings => rings.map((ring, i) => toRing(ring, i > 0))) },
+            properties: { layer: 'zone', zone },
+        });
+    });
+
+    return { type: 'FeatureCollection', features, units: units.world, seed: city.seed };
+}
@@ -0,0 +1,168 @@
+import type { Point } from '../generic_modules/math';
+import type { ZoneName } from './mapgen';
+import { config } from './config';
+import type { GenerationOptions } from './config';
+
+// Campos desenhados à mão em imagem (PNG) e esticados sobre um retângulo do mundo:
+// população em tons de cinza (branco = 1, preto = 0) e zonas por cor (config.render.zoneColors).
+// Recebe os pixels RGBA já decodificados (ImageData de um canvas), sem depender do DOM.
+// Coluna 0 fica em bounds.x e linha 0 em bounds.y (como na vista de cima); pixels com alpha < 128
+// ficam fora do campo e o ponto volta ao modelo procedural.
+
+export interface ImagePixels {
+    width: number;
+    height: number;
+    /** RGBA, 4 bytes por pixel, linha a linha */
+    data: ArrayLike<number>;
+}
+
+export interface WorldRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/** Imagem de origem de um campo e o retângulo do mundo que ela cobre (vai para o snapshot) */
+export interface ImageSource {
+    pixels: ImagePixels;
+    bounds: WorldRect;
+}
+
+/** Campo de população: valor em [0, 1] em p, ou null fora da imagem/em pixel transparente */
+export type PopulationField = ((p: Point) => number | null) & { source: ImageSource };
+
+export interface ZoneField {
+    zoneAt: (p: Point) => ZoneName | null;
+    /** pixels por zona reconhecida (resumo para a UI) */
+    counts: Partial<Record<ZoneName, number>>;
+    /** pixels opacos cuja cor não se aproxima de nenhuma zona */
+    unknown: number;
+    source: ImageSource & { colors: Record<ZoneName, number>; toleranceRGB: number };
+}
+
+/** Imagem serializada: pixels RGBA em base64 */
+export interface ImageSnapshot {
+    width: number;
+    height: number;
+    bounds: WorldRect;
+    rgba: string;
+}
+
+/** Retângulo do mundo coberto pelas imagens: quadrado de lado 2 * extentM em torno de cityCenter */
+export function imageBounds(model: GenerationOptions['zoningModel'] = config.zoningModel): WorldRect {
+    const c = model.cityCenter;
+    const e = Math.max(1, model.imageFields.extentM);
+    return { x: c.x - e, y: c.y - e, width: 2 * e, height: 2 * e };
+}
+
+const checkPixels = (img: ImagePixels) => {
+    if (!(img.width > 0 && img.height > 0) || img.data.length < img.width * img.height * 4) {
+        throw new Error(`invalid image data (${img.width}x${img.height})`);
+    }
+};
+
+/** Coordenadas contínuas de pixel (centro do pixel em i + 0.5); null fora do retângulo */
+const toPixel = (p: Point, img: ImagePixels, bounds: WorldRect) => {
+    const u = (p.x - bounds.x) / bounds.width, v = (p.y - bounds.y) / bounds.height;
+    if (!(u >= 0 && u <= 1 && v >= 0 && v <= 1)) return null;
+    return { px: u * img.width, py: v * img.height };
+};
+
+/** População pela luminância, com interpolação bilinear entre pixels opacos */
+export function populationField(img: ImagePixels, bounds: WorldRect = imageBounds()): PopulationField {
+    checkPixels(img);
+    const { width: W, height: H, data } = img;
+    // NaN = transparente
+    const values = new Float32Array(W * H);
+    for (let i = 0; i < W * H; i++) {
+        const o = i * 4;
+        values[i] = data[o + 3] < 128 ? NaN : (0.299 * data[o] + 0.587 * data[o + 1] + 0.114 * data[o + 2]) / 255;
+    }
+    const field = (p: Point) => {
+        const at = toPixel(p, img, bounds);
+        if (!at) return null;
+        const fx = Math.max(0, Math.min(W - 1, at.px - 0.5)), fy = Math.max(0, Math.min(H - 1, at.py - 0.5));
+        const x0 = Math.floor(fx), y0 = Math.floor(fy);
+        const x1 = Math.min(W - 1, x0 + 1), y1 = Math.min(H - 1, y0 + 1);
+        const tx = fx - x0, ty = fy - y0;
+        let sum = 0, wsum = 0;
+        const add = (x: number, y: number, w: number) => {
+            const v = values[y * W + x];
+            if (w > 0 && !isNaN(v)) { sum += v * w; wsum += w; }
+        };
+        add(x0, y0, (1 - tx) * (1 - ty));
+        add(x1, y0, tx * (1 - ty));
+        add(x0, y1, (1 - tx) * ty);
+        add(x1, y1, tx * ty);
+        // pixel mais próximo transparente => fora do campo
+        if (isNaN(values[Math.min(H - 1, Math.floor(at.py)) * W + Math.min(W - 1, Math.floor(at.px))]) || wsum <= 0) return null;
+        return sum / wsum;
+    };
+    return Object.assign(field, { source: { pixels: img, bounds } });
+}
+
+/**
+ * Zonas por cor: cada pixel opaco vai para a zona de cor mais próxima (RGB) a até toleranceRGB;
+ * amostragem pelo pixel mais próximo (bordas nítidas entre zonas).
+ */
+export function zoneField(
+    img: ImagePixels,
+    bounds: WorldRect = imageBounds(),
+    colors: Record<ZoneName, number> = config.render.zoneColors,
+    toleranceRGB: number = config.zoningModel.imageFields.zoneColorTolerance
+): ZoneField {
+    checkPixels(img);
+    const { width: W, height: H, data } = img;
+    const palette = (Object.keys(colors) as ZoneName[]).map(zone => ({
+        zone, r: (colors[zone] >> 16) & 0xFF, g: (colors[zone] >> 8) & 0xFF, b: colors[zone] & 0xFF,
+    }));
+    const tol2 = toleranceRGB * toleranceRGB;
+    // índice na paleta por pixel; -1 = sem zona
+    const cells = new Int8Array(W * H).fill(-1);
+    const counts: Partial<Record<ZoneName, number>> = {};
+    let unknown = 0;
+    for (let i = 0; i < W * H; i++) {
+        const o = i * 4;
+        if (data[o + 3] < 128) continue;
+        let best = -1, bestD = tol2;
+        palette.forEach((c, k) => {
+            const d = (data[o] - c.r) ** 2 + (data[o + 1] - c.g) ** 2 + (data[o + 2] - c.b) ** 2;
+            if (d <= bestD) { bestD = d; best = k; }
+        });
+        if (best < 0) { unknown++; continue; }
+        cells[i] = best;
+        const z = palette[best].zone;
+        counts[z] = (counts[z] ?? 0) + 1;
+    }
+    return {
+        counts,
+        unknown,
+        source: { pixels: img, bounds, colors, toleranceRGB },
+        zoneAt: (p: Point) => {
+            const at = toPixel(p, img, bounds);
+            if (!at) return null;
+            const k = cells[Math.min(H - 1, Math.floor(at.py)) * W + Math.min(W - 1, Math.floor(at.px))];
+            return k >= 0 ? palette[k].zone : null;
+        },
+    };
+}
+
+/** Serializa a imagem de origem (base64 em blocos para não estourar a pilha de argumentos) */
+export function encodeImage(src: ImageSource): ImageSnapshot {
+    const bytes = Uint8Array.from(src.pixels.data);
+    let bin = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        bin += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + 0x8000)));
+    }
+    return { width: src.pixels.width, height: src.pixels.height, bounds: { ...src.bounds }, rgba: btoa(bin) };
+}
+
+export function decodeImage(snap: ImageSnapshot): ImageSource {
+    const bin = atob(snap.rgba);
+    const data = new Uint8ClampedArray(bin.length);
+    for (let i = 0; i < bin.length; i++) data[i] = bin.charCodeAt(i);
+    const pixels = { width: snap.width, height: snap.height, data };
+    checkPixels(pixels);
+    return { pixels, bounds: { ...snap.bounds } };
+}
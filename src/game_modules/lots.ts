@@ -0,0 +1,281 @@
+import type { Point, RNG } from '../generic_modules/math';
+import { Building, BuildingType, buildingFactory } from './build';
+import { generationOptions } from './config';
+import type { GenerationOptions } from './config';
+import type { Block } from './block_geometry';
+import type { ZoneName } from './mapgen';
+import type Quadtree from '../lib/quadtree';
+
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const ClipperLib: any = require('clipper-lib');
+
+// Parcelamento dos quarteirões em lotes voltados para a rua (divisão recursiva pela OBB)
+// e uma construção por lote, respeitando os recuos de config.zones[zona].lot.
+
+export interface LotParams {
+    widthM: number;
+    depthM: number;
+    frontSetbackM: number;
+    sideSetbackM: number;
+    rearSetbackM: number;
+}
+
+export interface Lot {
+    id: number;
+    blockId: number;
+    zone: ZoneName;
+    /** contorno do lote (anti-horário) */
+    polygon: Point[];
+    area: number;
+    /** testada: aresta do lote sobre o limite do quarteirão, com o interior à esquerda */
+    front: [Point, Point];
+    /** retângulo edificável após os recuos (vazio se os recuos consomem o lote) */
+    buildable: Point[];
+}
+
+const S = 100; // escala inteira do Clipper (cm)
+
+const signedArea = (pts: Point[]) => {
+    let a = 0;
+    for (let i = 0, j = pts.length - 1; i < pts.length; j = i++) {
+        a += (pts[j].x * pts[i].y) - (pts[i].x * pts[j].y);
+    }
+    return a / 2;
+};
+
+const ccw = (pts: Point[]) => (signedArea(pts) >= 0 ? pts : pts.slice().reverse());
+
+const distToSegment2 = (p: Point, a: Point, b: Point) => {
+    const vx = b.x - a.x, vy = b.y - a.y;
+    const L2 = vx * vx + vy * vy || 1;
+    const t = Math.max(0, Math.min(1, ((p.x - a.x) * vx + (p.y - a.y) * vy) / L2));
+    const dx = a.x + vx * t - p.x, dy = a.y + vy * t - p.y;
+    return dx * dx + dy * dy;
+};
+
+const insidePolygon = (p: Point, poly: Point[]) => {
+    let inside = false;
+    for (let i = 0, j = poly.length - 1; i < poly.length; j = i++) {
+        if (((poly[i].y > p.y) !== (poly[j].y > p.y)) &&
+            (p.x < (poly[j].x - poly[i].x) * (p.y - poly[i].y) / (poly[j].y - poly[i].y) + poly[i].x)) {
+            inside = !inside;
+        }
+    }
+    return inside;
+};
+
+/** Retângulo orientado de área mínima (testa a direção de cada aresta). u = eixo maior. */
+function orientedBox(poly: Point[]) {
+    let best = { area: Infinity, center: { x: 0, y: 0 }, u: { x: 1, y: 0 }, long: 0, short: 0 };
+    for (let i = 0; i < poly.length; i++) {
+        const a = poly[i], b = poly[(i + 1) % poly.length];
+        const L = Math.hypot(b.x - a.x, b.y - a.y);
+        if (L < 1e-6) continue;
+        const ux = (b.x - a.x) / L, uy = (b.y - a.y) / L;
+        let s0 = Infinity, s1 = -Infinity, t0 = Infinity, t1 = -Infinity;
+        for (const p of poly) {
+            const s = p.x * ux + p.y * uy, t = -p.x * uy + p.y * ux;
+            s0 = Math.min(s0, s); s1 = Math.max(s1, s); t0 = Math.min(t0, t); t1 = Math.max(t1, t);
+        }
+        const area = (s1 - s0) * (t1 - t0);
+        if (area < best.area) {
+            const sc = (s0 + s1) / 2, tc = (t0 + t1) / 2;
+            const center = { x: sc * ux - tc * uy, y: sc * uy + tc * ux };
+            best = (s1 - s0) >= (t1 - t0)
+                ? { area, center, u: { x: ux, y: uy }, long: s1 - s0, short: t1 - t0 }
+                : { area, center, u: { x: -uy, y: ux }, long: t1 - t0, short: s1 - s0 };
+        }
+    }
+    return best;
+}
+
+/** Corta o polígono pela reta (ponto p, normal n) e devolve as partes de cada lado */
+function cutPolygon(poly: Point[], p: Point, n: Point, extent: number): Point[][] {
+    const d = { x: -n.y, y: n.x };
+    const half = (sign: number) => [
+        { x: p.x + d.x * extent, y: p.y + d.y * extent },
+        { x: p.x + d.x * extent + n.x * extent * sign, y: p.y + d.y * extent + n.y * extent * sign },
+        { x: p.x - d.x * extent + n.x * extent * sign, y: p.y - d.y * extent + n.y * extent * sign },
+        { x: p.x - d.x * extent, y: p.y - d.y * extent },
+    ];
+    const toClip = (pts: Point[]) => pts.map(q => ({ X: Math.round(q.x * S), Y: Math.round(q.y * S) }));
+    const out: Point[][] = [];
+    for (const sign of [1, -1]) {
+        const cpr = new ClipperLib.Clipper();
+        cpr.AddPath(toClip(poly), ClipperLib.PolyType.ptSubject, true);
+        cpr.AddPath(toClip(half(sign)), ClipperLib.PolyType.ptClip, true);
+        const solution = new ClipperLib.Paths();
+        cpr.Execute(ClipperLib.ClipType.ctIntersection, solution, ClipperLib.PolyFillType.pftNonZero, ClipperLib.PolyFillType.pftNonZero);
+        for (const path of solution) {
+            const pts = ccw(path.map((q: any) => ({ x: q.X / S, y: q.Y / S })));
+            if (pts.length >= 3) out.push(pts);
+        }
+    }
+    return out;
+}
+
+/** Parâmetros de lote da zona (config.zones[zona].lot), com largura/profundidade mínimas e recuos >= 0 */
+export function lotParamsFor(zone: ZoneName, genOptions: GenerationOptions = generationOptions()): LotParams {
+    const lot = genOptions.zones[zone].lot;
+    return {
+        widthM: Math.max(4, lot.widthM),
+        depthM: Math.max(6, lot.depthM),
+        frontSetbackM: Math.max(0, lot.frontSetbackM),
+        sideSetbackM: Math.max(0, lot.sideSetbackM),
+        rearSetbackM: Math.max(0, lot.rearSetbackM),
+    };
+}
+
+/**
+ * Divide um quarteirão em lotes: corta ao meio no eixo maior enquanto a OBB for mais funda que
+ * dois lotes (fileiras de fundo com fundo) e em faixas de `widthM` ao longo da frente.
+ * Lotes sem testada para a rua ou pequenos demais são descartados.
+ */
+export function subdivideBlock(block: Block, params: LotParams, rng: RNG = Math.random): Lot[] {
+    const boundary = block.polygon;
+    const minArea = params.widthM * params.depthM * 0.3;
+    const leaves: Point[][] = [];
+
+    // Depois do primeiro corte em faixas o eixo da rua fica fixo (a OBB das faixas estreitas gira 90°)
+    const split = (poly: Point[], depth: number, axis?: Point) => {
+        const box = orientedBox(poly);
+        const u = axis ?? box.u;
+        let s0 = Infinity, s1 = -Infinity;
+        for (const q of poly) { const sq = q.x * u.x + q.y * u.y; s0 = Math.min(s0, sq); s1 = Math.max(s1, sq); }
+        const along = s1 - s0;
+        const extent = box.long + box.short + 10;
+        let parts: Point[][] | null = null;
+        if (!axis && depth < 16 && box.short > params.depthM * 2) {
+            // fileiras de fundo com fundo: corte paralelo ao eixo maior
+            parts = cutPolygon(poly, box.center, { x: -u.y, y: u.x }, extent);
+            if (parts.length >= 2) { parts.forEach(part => split(part, depth + 1)); return; }
+        }
+        if (depth < 24 && along > params.widthM * 1.5) {
+            // faixas ao longo da frente, cortando perto do meio em múltiplos da largura do lote
+            const n = Math.max(1, Math.round(along / params.widthM));
+            const k = Math.floor(n / 2);
+            const at = s0 + (k / n) * along + (rng() - 0.5) * params.widthM * 0.2;
+            const sc = box.center.x * u.x + box.center.y * u.y;
+            const p = { x: box.center.x + u.x * (at - sc), y: box.center.y + u.y * (at - sc) };
+            parts = cutPolygon(poly, p, u, extent);
+        }
+        if (!parts || parts.length < 2) {
+            leaves.push(poly);
+            return;
+        }
+        parts.forEach(part => split(part, depth + 1, u));
+    };
+    split(ccw(boundary), 0);
+
+    const tol2 = 0.25;
+    const lots: Lot[] = [];
+    for (const poly of leaves) {
+        const area = signedArea(poly);
+        if (area < minArea) continue;
+        // testada: maior aresta cujo ponto médio está sobre o limite do quarteirão
+        let front: [Point, Point] | null = null, frontLen = 1;
+        for (let i = 0; i < poly.length; i++) {
+            const a = poly[i], b = poly[(i + 1) % poly.length];
+            const len = Math.hypot(b.x - a.x, b.y - a.y);
+            if (len <= frontLen) continue;
+            const mid = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+            let onBoundary = false;
+            for (let j = 0; j < boundary.length && !onBoundary; j++) {
+                onBoundary = distToSegment2(mid, boundary[j], boundary[(j + 1) % boundary.length]) < tol2;
+            }
+            if (onBoundary) { front = [a, b]; frontLen = len; }
+        }
+        if (!front) continue;
+        lots.push({ id: lots.length, blockId: block.id, zone: block.zone, polygon: poly, area, front, buildable: buildableRect(poly, front, params) });
+    }
+    return lots;
+}
+
+/** Retângulo edificável no referencial da testada (u ao longo da rua, v para dentro) */
+function buildableRect(poly: Point[], front: [Point, Point], params: LotParams): Point[] {
+    const [a, b] = front;
+    const L = Math.hypot(b.x - a.x, b.y - a.y) || 1;
+    const u = { x: (b.x - a.x) / L, y: (b.y - a.y) / L };
+    const v = { x: -u.y, y: u.x };
+    let s0 = Infinity, s1 = -Infinity, t1 = 0;
+    for (const p of poly) {
+        const dx = p.x - a.x, dy = p.y - a.y;
+        s0 = Math.min(s0, dx * u.x + dy * u.y);
+        s1 = Math.max(s1, dx * u.x + dy * u.y);
+        t1 = Math.max(t1, dx * v.x + dy * v.y);
+    }
+    const ss = s0 + params.sideSetbackM, se = s1 - params.sideSetbackM;
+    const ts = params.frontSetbackM, te = t1 - params.rearSetbackM;
+    if (se - ss < 1 || te - ts < 1) return [];
+    const at = (s: number, t: number) => ({ x: a.x + u.x * s + v.x * t, y: a.y + u.y * s + v.y * t });
+    return [at(ss, ts), at(se, ts), at(se, te), at(ss, te)];
+}
+
+/**
+ * Parcela todos os quarteirões com os parâmetros de lote da zona de cada um.
+ */
+export function subdivideBlocks(blocks: Block[], genOptions: GenerationOptions = generationOptions()): Lot[] {
+    const rng = genOptions.rng ?? Math.random;
+    const lots: Lot[] = [];
+    blocks.forEach(block => {
+        subdivideBlock(block, lotParamsFor(block.zone, genOptions), rng).forEach(lot => {
+            lot.id = lots.length;
+            lots.push(lot);
+        });
+    });
+    return lots;
+}
+
+/**
+ * Uma construção do mix da zona encaixada no retângulo edificável, alinhada à rua e encostada no recuo frontal.
+ * Sorteia alguns tipos e fica com o primeiro que cabe; senão reduz o que melhor se ajusta (até 35%).
+ */
+export function buildingForLot(lot: Lot, genOptions: GenerationOptions = generationOptions()): Building | null {
+    if (lot.buildable.length < 4) return null;
+    const [p0, p1, , p3] = lot.buildable;
+    const W = Math.hypot(p1.x - p0.x, p1.y - p0.y);
+    const D = Math.hypot(p3.x - p0.x, p3.y - p0.y);
+    const u = { x: (p1.x - p0.x) / W, y: (p1.y - p0.y) / W };
+    const v = { x: (p3.x - p0.x) / D, y: (p3.y - p0.y) / D };
+
+    let pick: { tmpl: Building; w: number; d: number; fit: number } | null = null;
+    for (let i = 0; i < 6; i++) {
+        const tmpl = buildingFactory.fromZone(lot.zone, 0, genOptions);
+        if (tmpl.type === BuildingType.GREEN) continue;
+        const w = 2 * tmpl.diagonal * Math.sin(tmpl.aspectDegree * Math.PI / 180);
+        const d = 2 * tmpl.diagonal * Math.cos(tmpl.aspectDegree * Math.PI / 180);
+        const fit = Math.min(1, W / w, D / d);
+        if (!pick || fit > pick.fit) pick = { tmpl, w, d, fit };
+        if (fit >= 1) break;
+    }
+    if (!pick || pick.fit < 0.35) return null;
+
+    // Eixo de profundidade do Building = (sin dir, cos dir)
+    const dir = Math.atan2(v.x, v.y) * 180 / Math.PI;
+    const aspect = Math.tan(pick.tmpl.aspectDegree * Math.PI / 180);
+    for (let scale = pick.fit; scale >= pick.fit * 0.5; scale *= 0.85) {
+        const w = pick.w * scale, d = pick.d * scale;
+        const center = {
+            x: p0.x + u.x * (W / 2) + v.x * (d / 2),
+            y: p0.y + u.y * (W / 2) + v.y * (d / 2),
+        };
+        const building = new Building(center, dir, pick.tmpl.diagonal * scale, pick.tmpl.type, aspect);
+        if (building.corners.every(c => insidePolygon(c, lot.polygon))) return building;
+        if (w < 2 || d < 2) break;
+    }
+    return null;
+}
+
+/**
+ * Posiciona uma construção por lote e insere as aceitas no qTree (quando informado).
+ */
+export function placeBuildingsOnLots(lots: Lot[], qTree?: Quadtree, genOptions: GenerationOptions = generationOptions()): Building[] {
+    const buildings: Building[] = [];
+    lots.forEach(lot => {
+        const b = buildingForLot(lot, genOptions);
+        if (!b) return;
+        buildings.push(b);
+        if (qTree) qTree.insert(b.collider.limits());
+    });
+    return buildings;
+}
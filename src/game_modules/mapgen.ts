@@ -1,14 +1,18 @@
 import * as _ from 'lodash';
 import { Noise } from 'noisejs';
 import Quadtree from '../lib/quadtree';
-import seedrandom from 'seedrandom';
 
 import * as math from '../generic_modules/math';
 import * as util from '../generic_modules/utility';
 import { CollisionObject, CollisionObjectType } from '../generic_modules/collision';
-import { config, roadWidthM, highwayWidthM } from './config';
-import Zoning from './zoning';
+import { config, roadClassWidthM, generationOptions } from './config';
+import type { GenerationOptions } from './config';
+import { Zoning, cityCenters, centerDistance, parseGeoZones } from './zoning';
+import type { GeoZonePolygon, ZoneOverrides } from './zoning';
+import { Terrain } from './terrain';
+import { generateZoneTessellation } from '../tools/zone_gen';
 import { Point } from '../generic_modules/math';
+import type { PopulationField, ZoneField } from './image_fields';
 
 export enum SegmentEnd {
     START = "start",
@@ -22,12 +26,34 @@ interface SegmentRoad {
     setEnd: (val: Point) => void;
 }
 
+/** Hierarquia viária; parâmetros de cada classe em config.roadClasses */
+export enum RoadClass {
+    MOTORWAY = "motorway",
+    ARTERIAL = "arterial",
+    COLLECTOR = "collector",
+    LOCAL = "local",
+    ALLEY = "alley",
+    RURAL_TRACK = "ruralTrack"
+}
+
+/** Classe de segmentos sem roadClass explícita (snapshots antigos): highway => motorway, senão local */
+export const roadClassOf = (q: SegmentMeta): RoadClass => q.roadClass ?? (q.highway ? RoadClass.MOTORWAY : RoadClass.LOCAL);
+
 interface SegmentMeta {
+    roadClass?: RoadClass;
+    /** mantido em sincronia com roadClass === MOTORWAY para o código legado */
     highway?: boolean;
     color?: number;
     severed?: boolean;
+    /** nível de separação: 0 = solo, > 0 = ponte/viaduto, < 0 = túnel/passagem inferior */
+    level?: number;
+    /** mão única: veículos só trafegam de r.start para r.end */
+    oneWay?: boolean;
 }
 
+/** Tabela de classes viárias (e ajustes de largura) usada para medir e limitar um trecho */
+export type RoadSpec = Pick<GenerationOptions, 'mapGeneration' | 'roadClasses'>;
+
 export class Segment {
     width: number;
     collider: CollisionObject;
@@ -51,13 +77,14 @@ export class Segment {
         start: Point,
         end: Point,
         public t: number = 0,
-        public q: SegmentMeta = {}
+        public q: SegmentMeta = {},
+        spec: RoadSpec = config
     ) {
         start = _.cloneDeep(start);
         end = _.cloneDeep(end);
 
     // Largura em metros, escalada a partir da altura do personagem
-    this.width = q.highway ? highwayWidthM() : roadWidthM();
+    this.width = roadClassWidthM(roadClassOf(q), spec.mapGeneration, spec.roadClasses);
         this.collider = new CollisionObject(this, CollisionObjectType.LINE, { start, end, width: this.width });
 
         this.r = {
@@ -75,7 +102,27 @@ export class Segment {
             }
         };
 
-        [this.maxSpeed, this.capacity] = q.highway ? [1200, 12] : [800, 6];
+        // velocidade em m/s (coordenadas do mundo em metros)
+        const rc = spec.roadClasses[roadClassOf(q)];
+        this.maxSpeed = rc.maxSpeedKmh / 3.6;
+        this.capacity = rc.capacity;
+    }
+
+    get roadClass(): RoadClass {
+        return roadClassOf(this.q);
+    }
+
+    get level(): number {
+        return this.q.level ?? 0;
+    }
+
+    get oneWay(): boolean {
+        return !!this.q.oneWay;
+    }
+
+    /** Troca o nível sem afetar as continuações que compartilham o mesmo q */
+    setLevel(level: number): void {
+        if (this.level !== level) this.q = { ...this.q, level };
     }
 
     currentSpeed(): number {
@@ -113,10 +160,12 @@ export class Segment {
         if (this.links.b.length > 0) {
             return math.equalV(this.links.b[0].r.start, this.r.start) ||
                    math.equalV(this.links.b[0].r.end, this.r.start);
-        } else {
+        } else if (this.links.f.length > 0) {
              return math.equalV(this.links.f[0].r.start, this.r.end) ||
                    math.equalV(this.links.f[0].r.end, this.r.end);
         }
+        // trecho solto (ex.: desenhado no editor sem tocar outras vias)
+        return false;
     }
 
     cost(): number {
@@ -158,7 +207,8 @@ export class Segment {
         return undefined;
     }
 
-    split(point: Point, segment: Segment, segmentList: Segment[], qTree: Quadtree): void {
+    /** Divide o trecho em point; `segment` (se houver) é a via que chega ao ponto e passa a ligar as duas partes */
+    split(point: Point, segment: Segment | null, segmentList: Segment[], qTree: Quadtree): void {
         const startIsBackwards = this.startIsBackwards();
 
         const splitPart = segmentFactory.fromExisting(this);
@@ -185,9 +235,9 @@ export class Segment {
             }
         });
 
-        firstSplit.links.f = [segment, secondSplit];
-        secondSplit.links.b = [segment, firstSplit];
-        segment.links.f.push(firstSplit, secondSplit);
+        firstSplit.links.f = segment ? [segment, secondSplit] : [secondSplit];
+        secondSplit.links.b = segment ? [segment, firstSplit] : [firstSplit];
+        segment?.links.f.push(firstSplit, secondSplit);
     }
 }
 
@@ -196,10 +246,16 @@ const segmentFactory = {
         t = util.defaultFor(t, segment.t);
         r = util.defaultFor(r, segment.r);
         q = util.defaultFor(q, segment.q);
-        return new Segment(r.start, r.end, t, q);
+        const copy = new Segment(r.start, r.end, t, q);
+        // herdar largura e limites do original (podem ter vindo de GenerationOptions próprias)
+        copy.width = segment.width;
+        copy.collider.updateCollisionProperties({ width: copy.width });
+        copy.maxSpeed = segment.maxSpeed;
+        copy.capacity = segment.capacity;
+        return copy;
     },
 
-    usingDirection(start: Point, dir?: number, length?: number, t?: number, q?: SegmentMeta): Segment {
+    usingDirection(start: Point, dir?: number, length?: number, t?: number, q?: SegmentMeta, spec?: RoadSpec): Segment {
         dir = util.defaultFor(dir, 90);
         length = util.defaultFor(length, config.mapGeneration.DEFAULT_SEGMENT_LENGTH);
 
@@ -207,34 +263,47 @@ const segmentFactory = {
             x: start.x + length * math.sinDegrees(dir),
             y: start.y + length * math.cosDegrees(dir)
         };
-    return new Segment(start, end, t, q);
+    return new Segment(start, end, t, q, spec);
     }
 };
 
-let noise: Noise;
-
 export type ZoneName = 'downtown' | 'residential' | 'commercial' | 'industrial' | 'rural';
 
-export function getZoneAt(p: Point | { x: number; y: number }): ZoneName {
-    // Zonas puramente por ruído distorcido (independente das ruas)
-    return Zoning.zoneAt(p);
-}
-
-export const heatmap = {
+/** Campo de população de uma geração (MapGenerationResult.heatmap) */
+export class Heatmap {
     // deslocamento global para alinhar regiões quentes com a cidade
-    shiftX: 0,
-    shiftY: 0,
+    shiftX = 0;
+    shiftY = 0;
     // unidade de raio (R): definido como maxDist/5 após gerar as ruas
-    rUnit: 3000,
+    rUnit = 3000;
+    private noise: Noise;
+
+    constructor(
+        /** seed do ruído (snapshots) */
+        readonly noiseSeed: number,
+        // modelo de zoneamento da geração (ver GenerationOptions)
+        public zoningModel: GenerationOptions['zoningModel'] = config.zoningModel,
+        private terrain: Terrain | null = null,
+        // população desenhada (PNG em tons de cinza); fora dela vale o perfil radial
+        public populationImage: PopulationField | null = null
+    ) {
+        this.noise = new Noise(noiseSeed);
+    }
+
     popOnRoad(r: { start: Point, end: Point }): number {
         return (this.populationAt(r.start.x, r.start.y) + this.populationAt(r.end.x, r.end.y)) / 2;
-    },
+    }
+
     populationAt(x: number, y: number): number {
-        // Bandas por distância com base em R = rUnit (maxDist/5)
-        const cx = config.zoningModel.cityCenter.x + this.shiftX;
-        const cy = config.zoningModel.cityCenter.y + this.shiftY;
-        const r = Math.hypot(x - cx, y - cy);
+        // água não tem população (vias não crescem para lá)
+        if (this.terrain?.isWater({ x, y })) return 0;
+        // imagem e perfil radial no mesmo referencial (deslocado por shiftX/shiftY)
+        const p = { x: x - this.shiftX, y: y - this.shiftY };
+        const drawn = this.populationImage ? this.populationImage(p) : null;
+        if (drawn != null) return drawn;
+        // Bandas por distância com base em R = rUnit (maxDist/5), combinadas entre os centros da região
         const R = Math.max(200, this.rUnit || 3000);
+        const r = centerDistance(p, this.zoningModel, 4 * R);
         // faixa: [0,R) [R,2R) [2R,3R) [3R,4R) [4R,inf)
         let band = 0;
         if (r < R) band = 4; // mais quente
@@ -245,17 +314,18 @@ export const heatmap = {
         // leve variação interna de banda para não ficar chapado
         const X = (x + this.shiftX) / 12000;
         const Y = (y + this.shiftY) / 12000;
-        const n = (noise.simplex2(X, Y) + 1) / 2;
+        const n = (this.noise.simplex2(X, Y) + 1) / 2;
         const jitter = (n - 0.5) * 0.08; // +-0.04
         const base = band / 4; // 0..1
         const val = Math.max(0, Math.min(1, base + jitter));
         return val;
-    },
+    }
+
     calibrateTo(target: Point) {
         // Para perfis radiais (heatmap/concentric), o "deslocamento" é inerentemente
         // zero porque eles são definidos em relação a um centro fixo. Para outros
         // modos, o deslocamento pode ser usado para mover a origem do ruído.
-        if (config.zoningModel.mode === 'concentric' || config.zoningModel.mode === 'heatmap') {
+        if (this.zoningModel.mode === 'concentric' || this.zoningModel.mode === 'heatmap') {
             this.shiftX = 0;
             this.shiftY = 0;
         } else {
@@ -263,14 +333,89 @@ export const heatmap = {
             this.shiftY = target.y;
         }
     }
-};
+}
+
+/** Camadas fornecidas pelo usuário (importação, pincel, imagens): entradas da geração e do snapshot */
+export interface CityLayers {
+    geoZones?: GeoZonePolygon[] | null;
+    zoneOverrides?: ZoneOverrides | null;
+    zoneImage?: ZoneField | null;
+    populationImage?: PopulationField | null;
+}
+
+/** Campos derivados da seed que pertencem a uma geração (nunca ao módulo) */
+export interface CityFields {
+    zoning: Zoning;
+    heatmap: Heatmap;
+    terrain: Terrain;
+}
+
+/** Cria terreno, heatmap e zoneamento de uma geração a partir da seed do ruído e das camadas */
+export function createFields(seed: string | number, noiseSeed: number, options: GenerationOptions, zoningSeed: number = noiseSeed, terrainSeed: number = noiseSeed): CityFields {
+    const layers = options.layers ?? {};
+    const terrain = new Terrain(terrainSeed, options.terrain, options.zoningModel.cityCenter);
+    const heatmap = new Heatmap(noiseSeed, options.zoningModel, terrain, layers.populationImage ?? null);
+    const zoning = new Zoning(zoningSeed, options.zoningModel, terrain, heatmap);
+    zoning.setGeoZones(layers.geoZones ?? null);
+    applyGeneratedZones(seed, options.zoningModel, zoning);
+    zoning.setOverrides(layers.zoneOverrides ?? null);
+    zoning.setZoneImage(layers.zoneImage ?? null);
+    return { zoning, heatmap, terrain };
+}
 
 function doRoadSegmentsIntersect(r1: { start: Point, end: Point }, r2: { start: Point, end: Point }): ReturnType<typeof math.doLineSegmentsIntersect> {
     return math.doLineSegmentsIntersect(r1.start, r1.end, r2.start, r2.end, true);
 }
 
-function localConstraints(segment: Segment, segments: Segment[], qTree: Quadtree, debugData: any): boolean {
+/**
+ * Terreno: se o trecho cruza água ou rampa acima de terrain.maxGrade, gira a ponta final em passos de
+ * bendStepDeg (alternando os lados, até maxBendDeg) mantendo o comprimento. Classes com bridge/tunnel
+ * atravessam como ponte (água com outra margem ao alcance) ou túnel (encosta). false => nada serviu.
+ */
+function fitToTerrain(segment: Segment, options: GenerationOptions, terrain: Terrain): boolean {
+    if (!terrain.isEnabled()) return true;
+    const start = segment.r.start;
+    const probe = terrain.probe(start, segment.r.end);
+    if (!probe.blocked) return true;
+    const tp = options.terrain;
+    const rc = options.roadClasses[segment.roadClass];
+    const len = segment.length();
+    const dir = segment.dir();
+    if (probe.water && rc.bridge) {
+        const u = { x: math.sinDegrees(dir), y: math.cosDegrees(dir) };
+        if (terrain.shoreAcross(start, u, tp.maxBridgeLengthM) !== null) {
+            segment.setLevel(1);
+            return true;
+        }
+    }
+    for (let bend = tp.bendStepDeg; bend <= tp.maxBendDeg; bend += tp.bendStepDeg) {
+        for (const side of [1, -1]) {
+            const d = dir + side * bend;
+            const end = { x: start.x + len * math.sinDegrees(d), y: start.y + len * math.cosDegrees(d) };
+            if (!terrain.probe(start, end).blocked) {
+                segment.r.setEnd(end);
+                return true;
+            }
+        }
+    }
+    if (!probe.water && rc.tunnel) {
+        segment.setLevel(-1);
+        return true;
+    }
+    return false;
+}
+
+function localConstraints(segment: Segment, segments: Segment[], qTree: Quadtree, debugData: any, options: GenerationOptions, fields: CityFields): boolean {
+    const mg = options.mapGeneration;
+    // o nível é recalculado para cada trecho (continuações herdam o q do anterior)
+    segment.setLevel(0);
+    // rodovias-semente (t = 0) tentam se ajustar ao terreno, mas nunca são barradas por ele
+    if (!fitToTerrain(segment, options, fields.terrain) && segment.t > 0) return false;
     let action = { priority: 0, func: undefined as (() => boolean) | undefined, q: {} as any };
+    // cruzamento em desnível com classe gradeSeparated: sem interseção, só o trecho dessa classe sobe
+    // (o novo ou o existente); a outra via continua no solo
+    const gradeSeparated = (q: SegmentMeta) => !!options.roadClasses[roadClassOf(q)].gradeSeparated;
+    const crossed: Segment[] = [];
 
     // helper: distância ponto->segmento com projeção clampada
     const distPointToSegment = (P: Point, A: Point, B: Point): number => {
@@ -284,9 +429,10 @@ function localConstraints(segment: Segment, segments: Segment[], qTree: Quadtree
         return Math.hypot(P.x - D.x, P.y - D.y);
     };
 
-    // largura efetiva do segmento em validação (uniforme por tipo: highway vs rua)
+    // largura efetiva do segmento em validação (uniforme por classe viária)
     // Removemos multiplicadores por zona para evitar “duas espessuras” na mesma via
-    const segEffWidth = segment.q.highway ? highwayWidthM() : roadWidthM();
+    const classWidth = (q: SegmentMeta) => roadClassWidthM(roadClassOf(q), mg, options.roadClasses);
+    const segEffWidth = classWidth(segment.q);
 
     // PASSO 1: varrer com bbox original para decidir interseções/encaixes e capturar endpoint candidato
     const matches = qTree.retrieve(segment.collider.limits()) as {o: Segment}[];
@@ -294,15 +440,21 @@ function localConstraints(segment: Segment, segments: Segment[], qTree: Quadtree
         const other = match.o;
         if (other === segment) continue;
 
+        // níveis diferentes nunca se conectam no meio do trecho
+        const otherLevel = other.level;
+        const sameLevel = otherLevel === segment.level;
+
         if (action.priority <= 4) {
             const intersection = doRoadSegmentsIntersect(segment.r, other.r);
-            if (intersection) {
+            if (intersection && sameLevel && gradeSeparated(segment.q) !== gradeSeparated(other.q)) {
+                crossed.push(other);
+            } else if (intersection && sameLevel) {
                 if (!action.q.t || intersection.t < action.q.t) {
                     action.q.t = intersection.t;
                     action.priority = 4;
                     action.q.endCandidate = intersection;
                     action.func = () => {
-                        if (util.minDegreeDifference(other.dir(), segment.dir()) < config.mapGeneration.MINIMUM_INTERSECTION_DEVIATION) {
+                        if (util.minDegreeDifference(other.dir(), segment.dir()) < mg.MINIMUM_INTERSECTION_DEVIATION) {
                             return false;
                         }
                         other.split(intersection, segment, segments, qTree);
@@ -318,8 +470,8 @@ function localConstraints(segment: Segment, segments: Segment[], qTree: Quadtree
             }
         }
         
-        if (action.priority <= 3) {
-            if (math.length(segment.r.end, other.r.end) <= config.mapGeneration.ROAD_SNAP_DISTANCE) {
+        if (action.priority <= 3 && sameLevel) {
+            if (math.length(segment.r.end, other.r.end) <= mg.ROAD_SNAP_DISTANCE) {
                 const point = other.r.end;
                 action.priority = 3;
                 action.q.endCandidate = point;
@@ -352,9 +504,9 @@ function localConstraints(segment: Segment, segments: Segment[], qTree: Quadtree
             }
         }
 
-        if (action.priority <= 2) {
+        if (action.priority <= 2 && sameLevel) {
             const { distance2, pointOnLine, lineProj2, length2 } = math.distanceToLine(segment.r.end, other.r.start, other.r.end);
-            if (distance2 < config.mapGeneration.ROAD_SNAP_DISTANCE * config.mapGeneration.ROAD_SNAP_DISTANCE &&
+            if (distance2 < mg.ROAD_SNAP_DISTANCE * mg.ROAD_SNAP_DISTANCE &&
                 lineProj2 >= 0 && lineProj2 <= length2) {
                 
                 const point = pointOnLine;
@@ -364,7 +516,7 @@ function localConstraints(segment: Segment, segments: Segment[], qTree: Quadtree
                     segment.r.setEnd(point);
                     segment.q.severed = true;
 
-                    if (util.minDegreeDifference(other.dir(), segment.dir()) < config.mapGeneration.MINIMUM_INTERSECTION_DEVIATION) {
+                    if (util.minDegreeDifference(other.dir(), segment.dir()) < mg.MINIMUM_INTERSECTION_DEVIATION) {
                         return false;
                     }
 
@@ -380,6 +532,13 @@ function localConstraints(segment: Segment, segments: Segment[], qTree: Quadtree
         }
     }
     
+    // desnível só vale para os cruzamentos que restam no trecho até o endpoint escolhido
+    const candEnd: Point = action.q.endCandidate ?? segment.r.end;
+    const raised = crossed
+        .filter(other => math.doLineSegmentsIntersect(segment.r.start, candEnd, other.r.start, other.r.end, true))
+        .map(other => gradeSeparated(segment.q) ? segment : other);
+    if (raised.includes(segment)) segment.setLevel(1);
+
     // PASSO 2: aplicar regra de afastamento lateral com endpoint candidato e bbox expandido
     // helper: distância mínima entre dois segmentos 2D (AB e CD)
     const segSegDistance = (A: Point, B: Point, C: Point, D: Point): number => {
@@ -437,14 +596,13 @@ function localConstraints(segment: Segment, segments: Segment[], qTree: Quadtree
         const dPy = w.y + (sc * u.y) - (tc * v.y);
         return Math.hypot(dPx, dPy);
     };
-    const candEnd: Point = action.q.endCandidate ?? segment.r.end;
     const minX = Math.min(segment.r.start.x, candEnd.x);
     const minY = Math.min(segment.r.start.y, candEnd.y);
     const dx = Math.abs(segment.r.start.x - candEnd.x);
     const dy = Math.abs(segment.r.start.y - candEnd.y);
-    // margem de busca baseada no pior caso de outra via (considerando apenas larguras globais)
-    const maxOtherWidth = Math.max(highwayWidthM(), roadWidthM());
-    const margin = 0.5 * (segEffWidth + maxOtherWidth) + config.mapGeneration.CLEARANCE_EXTRA_M;
+    // margem de busca baseada no pior caso de outra via (a classe mais larga)
+    const maxOtherWidth = Math.max(...Object.values(RoadClass).map(c => roadClassWidthM(c, mg, options.roadClasses)));
+    const margin = 0.5 * (segEffWidth + maxOtherWidth) + mg.CLEARANCE_EXTRA_M;
     const queryBox = { x: minX - margin, y: minY - margin, width: dx + 2 * margin, height: dy + 2 * margin } as any;
 
     const nearMatches = qTree.retrieve(queryBox) as {o: Segment}[];
@@ -460,9 +618,11 @@ function localConstraints(segment: Segment, segments: Segment[], qTree: Quadtree
         const other = m.o;
         if (other === segment) continue;
         // requisito de afastamento lateral com larguras uniformes por tipo de via
-    const req = 0.5 * (segEffWidth + (other.q.highway ? highwayWidthM() : roadWidthM())) + config.mapGeneration.CLEARANCE_EXTRA_M;
+    const req = 0.5 * (segEffWidth + classWidth(other.q)) + mg.CLEARANCE_EXTRA_M;
 
         const inter = math.doLineSegmentsIntersect(segment.r.start, candEnd, other.r.start, other.r.end, true) as any;
+        // vias em níveis diferentes (ou que vão se separar agora) só dispensam o afastamento onde se cruzam
+        if (inter && (other.level !== segment.level || raised.includes(other))) continue;
         // detectar compartilhamento de endpoint
         const shareEndpoint = (
             math.length(segment.r.start, other.r.start) < 1e-6 ||
@@ -504,7 +664,7 @@ function localConstraints(segment: Segment, segments: Segment[], qTree: Quadtree
             const lenSeg = Math.hypot(candEnd.x - segment.r.start.x, candEnd.y - segment.r.start.y);
             const lenOther = Math.hypot(other.r.end.x - other.r.start.x, other.r.end.y - other.r.start.y);
             // Extensões dinâmicas: A é estendida pela metade da espessura de B, e B pela metade da espessura de A
-            const otherWidthEff = other.q.highway ? highwayWidthM() : roadWidthM();
+            const otherWidthEff = classWidth(other.q);
             const sSeg = Math.min(0.5 * lenSeg, Math.max(2, otherWidthEff / 2));
             const sOther = Math.min(0.5 * lenOther, Math.max(2, segEffWidth / 2));
             const t0 = inter ? (inter.t as number) : paramOnSegment(I, segment.r.start, candEnd); // parâmetro no segmento candidato
@@ -543,7 +703,7 @@ function localConstraints(segment: Segment, segments: Segment[], qTree: Quadtree
                 const dOtherToEnd = distToNearestEnd(S.point, other.r.start, other.r.end);
                 const widthSegLocal = segEffWidth * Math.min(1, dSegToEnd / taperLenSeg);
                 const widthOtherLocal = otherWidthEff * Math.min(1, dOtherToEnd / taperLenOther);
-                const reqLocal = 0.5 * (widthSegLocal + widthOtherLocal) + config.mapGeneration.CLEARANCE_EXTRA_M;
+                const reqLocal = 0.5 * (widthSegLocal + widthOtherLocal) + mg.CLEARANCE_EXTRA_M;
 
                 if (dmin < reqLocal) {
                     return false;
@@ -559,28 +719,64 @@ function localConstraints(segment: Segment, segments: Segment[], qTree: Quadtree
     }
 
     // Se passou no clearance, aplicamos a ação (se existir) ou aceitamos
-    if (action.func) return action.func();
+    if (action.func && !action.func()) return false;
+    raised.forEach(span => span.setLevel(1));
     return true;
 }
 
+/**
+ * Ajusta a direção (graus, 0 = +y) ao padrão da regra de crescimento: 'grid' encaixa em gridAngleDeg + k*90,
+ * 'radial' em radiais/tangentes ao centro (rules.center ou o centro da cidade mais próximo); 'free' não altera.
+ */
+function orientToPattern(direction: number, at: Point, rules: { pattern?: string; gridAngleDeg?: number; center?: Point | null }, model: GenerationOptions['zoningModel']): number {
+    let ref: number;
+    if (rules.pattern === 'grid') {
+        ref = rules.gridAngleDeg ?? 0;
+    } else if (rules.pattern === 'radial') {
+        const c = rules.center ?? _.minBy(cityCenters(model), k => Math.hypot(at.x - k.x, at.y - k.y))!;
+        if (Math.hypot(at.x - c.x, at.y - c.y) < 1e-6) return direction;
+        ref = Math.atan2(at.x - c.x, at.y - c.y) * 180 / Math.PI;
+    } else {
+        return direction;
+    }
+    return ref + Math.round((direction - ref) / 90) * 90;
+}
+
 const globalGoals = {
-    generate(previousSegment: Segment): Segment[] {
+    generate(previousSegment: Segment, options: GenerationOptions, rng: math.RNG, fields: CityFields): Segment[] {
+        const mg = options.mapGeneration;
         const newBranches: Segment[] = [];
         if (!previousSegment.q.severed) {
             const template = (direction: number, length: number, t: number, q: SegmentMeta) =>
-                segmentFactory.usingDirection(previousSegment.r.end, direction, length, t, q);
-
+                segmentFactory.usingDirection(previousSegment.r.end, direction, length, t, q, options);
+
+            const cls = previousSegment.roadClass;
+            const rc = options.roadClasses[cls];
+            const localZone = fields.zoning.zoneAt(previousSegment.r.end);
+            const zoneCfg = options.zones[localZone];
+            const rules = options.growthRules[zoneCfg.growth];
+            const zoneBlockLen = (zoneCfg.blockLengthM || mg.DEFAULT_SEGMENT_LENGTH) * (rules.segmentLengthFactor ?? 1);
+            const orient = (direction: number) => orientToPattern(direction, previousSegment.r.end, rules, options.zoningModel);
             const templateContinue = (direction: number) => template(direction, previousSegment.length(), 0, previousSegment.q);
-            const localZone = getZoneAt(previousSegment.r.end);
-            const zoneBlockLen = (config as any).zones?.[localZone]?.blockLengthM || config.mapGeneration.DEFAULT_SEGMENT_LENGTH;
-            const templateBranch = (direction: number) => template(direction, zoneBlockLen, previousSegment.q.highway ? config.mapGeneration.NORMAL_BRANCH_TIME_DELAY_FROM_HIGHWAY : 0, {});
+            const branchAngle = () => rules.branchAngleJitterDeg != null
+                ? math.randomRange(-rules.branchAngleJitterDeg, rules.branchAngleJitterDeg, rng)
+                : mg.RANDOM_BRANCH_ANGLE(rng);
+            const branchClassFor = (): RoadClass => {
+                if (rc.alleyProbability && rng() < rc.alleyProbability) return RoadClass.ALLEY;
+                return ((localZone === 'rural' && rc.ruralBranchClass) || rc.branchClass || RoadClass.LOCAL) as RoadClass;
+            };
+            const templateBranch = (direction: number) => {
+                const branchClass = branchClassFor();
+                return template(orient(direction), zoneBlockLen, rc.branchDelay ?? mg.NORMAL_BRANCH_TIME_DELAY_FROM_HIGHWAY,
+                    { roadClass: branchClass, highway: branchClass === RoadClass.MOTORWAY });
+            };
 
             const continueStraight = templateContinue(previousSegment.dir());
-            const straightPop = heatmap.popOnRoad(continueStraight.r);
+            const straightPop = fields.heatmap.popOnRoad(continueStraight.r);
 
-            if (previousSegment.q.highway) {
-                const randomStraight = templateContinue(previousSegment.dir() + config.mapGeneration.RANDOM_STRAIGHT_ANGLE());
-                const randomPop = heatmap.popOnRoad(randomStraight.r);
+            if (rc.followPopulation) {
+                const randomStraight = templateContinue(previousSegment.dir() + mg.RANDOM_STRAIGHT_ANGLE(rng));
+                const randomPop = fields.heatmap.popOnRoad(randomStraight.r);
                 
                 let roadPop;
                 if (randomPop > straightPop) {
@@ -590,22 +786,38 @@ const globalGoals = {
                     newBranches.push(continueStraight);
                     roadPop = straightPop;
                 }
-                if (roadPop > config.mapGeneration.HIGHWAY_BRANCH_POPULATION_THRESHOLD) {
-                    if (Math.random() < config.mapGeneration.HIGHWAY_BRANCH_PROBABILITY) {
-                        newBranches.push(templateContinue(previousSegment.dir() - 90 + config.mapGeneration.RANDOM_BRANCH_ANGLE()));
-                    } else if (Math.random() < config.mapGeneration.HIGHWAY_BRANCH_PROBABILITY) {
-                        newBranches.push(templateContinue(previousSegment.dir() + 90 + config.mapGeneration.RANDOM_BRANCH_ANGLE()));
+                const sameClassProbability = rc.sameClassBranchProbability ?? mg.HIGHWAY_BRANCH_PROBABILITY;
+                if (roadPop > mg.HIGHWAY_BRANCH_POPULATION_THRESHOLD) {
+                    if (rng() < sameClassProbability) {
+                        newBranches.push(templateContinue(previousSegment.dir() - 90 + mg.RANDOM_BRANCH_ANGLE(rng)));
+                    } else if (rng() < sameClassProbability) {
+                        newBranches.push(templateContinue(previousSegment.dir() + 90 + mg.RANDOM_BRANCH_ANGLE(rng)));
                     }
                 }
-            } else if (straightPop > config.mapGeneration.NORMAL_BRANCH_POPULATION_THRESHOLD) {
-                newBranches.push(continueStraight);
+            } else if (straightPop > mg.NORMAL_BRANCH_POPULATION_THRESHOLD) {
+                // vias locais podem terminar em cul-de-sac conforme a regra da zona
+                const minor = cls === RoadClass.LOCAL || cls === RoadClass.ALLEY || cls === RoadClass.RURAL_TRACK;
+                if (!(minor && rules.deadEndProbability && rng() < rules.deadEndProbability)) {
+                    const straightAngle = rules.straightAngleJitterDeg != null
+                        ? math.randomRange(-rules.straightAngleJitterDeg, rules.straightAngleJitterDeg, rng)
+                        : 0;
+                    newBranches.push(straightAngle === 0 && rules.pattern === 'free'
+                        ? continueStraight
+                        : templateContinue(orient(previousSegment.dir() + straightAngle)));
+                }
+                // classes intermediárias (ex.: arteriais) também se ramificam na própria classe
+                if (rc.sameClassBranchProbability && rng() < rc.sameClassBranchProbability) {
+                    const side = rng() < 0.5 ? -90 : 90;
+                    newBranches.push(templateContinue(orient(previousSegment.dir() + side + branchAngle())));
+                }
             }
 
-            if (straightPop > config.mapGeneration.NORMAL_BRANCH_POPULATION_THRESHOLD) {
-                if (Math.random() < config.mapGeneration.DEFAULT_BRANCH_PROBABILITY) {
-                    newBranches.push(templateBranch(previousSegment.dir() - 90 + config.mapGeneration.RANDOM_BRANCH_ANGLE()));
-                } else if (Math.random() < config.mapGeneration.DEFAULT_BRANCH_PROBABILITY) {
-                    newBranches.push(templateBranch(previousSegment.dir() + 90 + config.mapGeneration.RANDOM_BRANCH_ANGLE()));
+            const branchProbability = (rc.branchProbability ?? mg.DEFAULT_BRANCH_PROBABILITY) * (rules.branchProbabilityFactor ?? 1);
+            if (straightPop > mg.NORMAL_BRANCH_POPULATION_THRESHOLD) {
+                if (rng() < branchProbability) {
+                    newBranches.push(templateBranch(previousSegment.dir() - 90 + branchAngle()));
+                } else if (rng() < branchProbability) {
+                    newBranches.push(templateBranch(previousSegment.dir() + 90 + branchAngle()));
                 }
             }
         }
@@ -625,57 +837,88 @@ const globalGoals = {
     }
 };
 
-function addSegment(segment: Segment, segmentList: Segment[], qTree: Quadtree): void {
+export function addSegment(segment: Segment, segmentList: Segment[], qTree: Quadtree): void {
     segmentList.push(segment);
     qTree.insert(segment.collider.limits());
 }
 
-export interface MapGenerationResult {
+export interface MapGenerationResult extends CityFields {
     segments: Segment[];
     qTree: Quadtree;
-    heatmap: typeof heatmap;
     debugData: any;
 }
 
-export function generate(seed: string | number): MapGenerationResult {
+/** Modo 'voronoi': gera a tesselação de zonas da seed e a entrega ao zoneamento (demais modos: nada a fazer) */
+export function applyGeneratedZones(seed: string | number, model: GenerationOptions['zoningModel'], zoning: Zoning): void {
+    if (model.mode !== 'voronoi') return;
+    const v = model.voronoi;
+    const c = model.cityCenter;
+    const zones = generateZoneTessellation({
+        numCentro: v.counts.downtown,
+        numComercial: v.counts.commercial,
+        numIndustrial: v.counts.industrial,
+        numResidencial: v.counts.residential,
+        numRural: v.counts.rural,
+        bounds: { xmin: c.x - v.extentM, xmax: c.x + v.extentM, ymin: c.y - v.extentM, ymax: c.y + v.extentM },
+        scaleMin: 0,
+        scaleMax: 0,
+        center: c,
+        lloydIterations: v.lloydIterations,
+    }, util.seededRNG(`${seed}:zones`));
+    zoning.setGeoZones(parseGeoZones(zones, model.geo?.zoneProperty).polygons);
+}
+
+/** Rodovia-semente: par de trechos opostos saindo de `at` (o primeiro no rumo headingDeg), ligados entre si */
+function seedHighway(at: Point, headingDeg: number, options: GenerationOptions): Segment[] {
+    const mg = options.mapGeneration;
+    const len = mg.HIGHWAY_SEGMENT_LENGTH;
+    const a = headingDeg * Math.PI / 180;
+    const segment = new Segment({ x: at.x, y: at.y }, { x: at.x + len * Math.cos(a), y: at.y + len * Math.sin(a) }, 0, { roadClass: RoadClass.MOTORWAY, highway: true }, options);
+    const opposite = segmentFactory.fromExisting(segment);
+    opposite.r.setEnd({ x: at.x - len * Math.cos(a), y: at.y - len * Math.sin(a) });
+    opposite.links.b.push(segment);
+    segment.links.b.push(opposite);
+    return [segment, opposite];
+}
+
+export function generate(seed: string | number, options: GenerationOptions = generationOptions()): MapGenerationResult {
     const debugData = {};
+    const mg = options.mapGeneration;
 
-    seedrandom(seed.toString(), { global: true });
-    // Seeded noise instance for deterministic generation
-    const noiseSeed = Math.floor(Math.random() * 65536);
-    noise = new Noise(noiseSeed);
-    // Inicializar Zoning com o novo campo de ruído distorcido antes da criação das ruas
-    Zoning.init(noiseSeed);
+    // Fluxo local derivado da seed (sem sobrescrever Math.random da página)
+    const rng = options.rng ?? util.seededRNG(seed);
+    // Terreno, heatmap e zoneamento desta geração, com a seed de ruído derivada da seed do mapa
+    const fields = createFields(seed, Math.floor(rng() * 65536), options);
+    const { heatmap, terrain } = fields;
     // alinhar heatmap próximo da origem (centro inicial da cidade)
     heatmap.calibrateTo({ x: 0, y: 0 });
 
     const priorityQ = new util.PriorityQueue<Segment>();
 
-    const rootLen = config.mapGeneration.HIGHWAY_SEGMENT_LENGTH;
-    const rootSegment = new Segment({ x: 0, y: 0 }, { x: rootLen, y: 0 }, 0, { highway: true });
-    const oppositeDirection = segmentFactory.fromExisting(rootSegment);
-    const newEnd = { x: rootSegment.r.start.x - rootLen, y: oppositeDirection.r.end.y };
-    oppositeDirection.r.setEnd(newEnd);
-    oppositeDirection.links.b.push(rootSegment);
-    rootSegment.links.b.push(oppositeDirection);
-    priorityQ.put(rootSegment, rootSegment.t);
-    priorityQ.put(oppositeDirection, oppositeDirection.t);
+    // CBD: rodovia leste-oeste na origem; subcentros e satélites: `highways` rodovias em rumos sorteados
+    seedHighway({ x: 0, y: 0 }, 0, options).forEach(s => priorityQ.put(s, s.t));
+    for (const center of cityCenters(options.zoningModel).slice(1)) {
+        if (terrain.isWater(center)) continue;
+        const seeds: Segment[] = [];
+        const heading0 = rng() * 180;
+        for (let k = 0; k < center.highways; k++) seeds.push(...seedHighway(center, heading0 + k * 180 / center.highways, options));
+        // todas as rodovias do centro partem do mesmo nó
+        seeds.forEach(s => { s.links.b = seeds.filter(o => o !== s); });
+        seeds.forEach(s => priorityQ.put(s, s.t));
+    }
 
     const segments: Segment[] = [];
-    const qTree = new Quadtree(config.mapGeneration.QUADTREE_PARAMS, config.mapGeneration.QUADTREE_MAX_OBJECTS, config.mapGeneration.QUADTREE_MAX_LEVELS);
+    const qTree = new Quadtree(mg.QUADTREE_PARAMS, mg.QUADTREE_MAX_OBJECTS, mg.QUADTREE_MAX_LEVELS);
 
-    while (priorityQ.length() > 0 && segments.length < config.mapGeneration.SEGMENT_COUNT_LIMIT) {
+    while (priorityQ.length() > 0 && segments.length < mg.SEGMENT_COUNT_LIMIT) {
         const minSegment = priorityQ.get()!;
 
-        const accepted = localConstraints(minSegment, segments, qTree, debugData);
+        const accepted = localConstraints(minSegment, segments, qTree, debugData, options, fields);
         if (accepted) {
             minSegment.setupBranchLinks?.();
             addSegment(minSegment, segments, qTree);
-            globalGoals.generate(minSegment).forEach(newSegment => {
+            globalGoals.generate(minSegment, options, rng, fields).forEach(newSegment => {
                 newSegment.t += minSegment.t + 1;
-                // Largura consistente por tipo: remover variação por zona
-                newSegment.width = newSegment.q.highway ? highwayWidthM() : roadWidthM();
-                newSegment.collider.updateCollisionProperties({ width: newSegment.width });
                 priorityQ.put(newSegment, newSegment.t);
             });
         }
@@ -684,12 +927,11 @@ export function generate(seed: string | number): MapGenerationResult {
     segments.forEach((segment, i) => segment.id = i);
     console.log(`${segments.length} segments generated.`);
 
-    // Calcular rUnit (R) com base nas extremidades das ruas: R = maxDist/5
-    const c = config.zoningModel.cityCenter;
+    // Calcular rUnit (R) com base nas extremidades das ruas: R = maxDist/5 (distância ao centro mais próximo, na escala do CBD)
     let maxDist = 0;
     for (const s of segments) {
-        const d1 = Math.hypot(s.r.start.x - c.x, s.r.start.y - c.y);
-        const d2 = Math.hypot(s.r.end.x - c.x, s.r.end.y - c.y);
+        const d1 = centerDistance(s.r.start, options.zoningModel, 0);
+        const d2 = centerDistance(s.r.end, options.zoningModel, 0);
         if (d1 > maxDist) maxDist = d1;
         if (d2 > maxDist) maxDist = d2;
     }
@@ -697,5 +939,5 @@ export function generate(seed: string | number): MapGenerationResult {
         heatmap.rUnit = maxDist / 5;
     }
 
-    return { segments, qTree, heatmap, debugData };
+    return { segments, qTree, debugData, ...fields };
 }
\ No newline at end of file
@@ -0,0 +1,155 @@
+import type { Point } from '../generic_modules/math';
+import type Quadtree from '../lib/quadtree';
+import { getCrackPatternById } from '../lib/crackPatterns';
+import { Segment } from './mapgen';
+import type { CityFields } from './mapgen';
+import { Building, BuildingType } from './build';
+import type { Block } from './block_geometry';
+import { footprintM2 } from './trips';
+import { config } from './config';
+
+// Seleção de entidades no mundo (prédio > via > quarteirão) e ficha do inspetor.
+// As coordenadas já chegam no mundo (GameCanvas converte a tela com isoToWorld).
+
+export type PickResult =
+    | { kind: 'building'; building: Building }
+    | { kind: 'segment'; segment: Segment; fraction: number; distanceM: number }
+    | { kind: 'block'; block: Block };
+
+export interface PickContext {
+    qTree: Quadtree | null;
+    segments: Segment[];
+    blocks: Block[];
+    /** índice do segmento em segments (chave idx:N das rachaduras quando não há id) */
+    segmentIndex?: Map<Segment, number>;
+    /** zoneamento e população da geração exibida (sem eles as linhas ficam com '-') */
+    fields?: CityFields | null;
+}
+
+export interface InspectorField {
+    label: string;
+    value: string;
+}
+
+export interface InspectorInfo {
+    title: string;
+    kind: PickResult['kind'];
+    fields: InspectorField[];
+}
+
+const insidePolygon = (p: Point, poly: Point[]) => {
+    let inside = false;
+    for (let i = 0, j = poly.length - 1; i < poly.length; j = i++) {
+        const a = poly[i], b = poly[j];
+        if ((a.y > p.y) !== (b.y > p.y) && p.x < (b.x - a.x) * (p.y - a.y) / (b.y - a.y) + a.x) inside = !inside;
+    }
+    return inside;
+};
+
+const projectOnto = (p: Point, s: Segment) => {
+    const ax = s.r.start.x, ay = s.r.start.y;
+    const vx = s.r.end.x - ax, vy = s.r.end.y - ay;
+    const L2 = vx * vx + vy * vy;
+    const t = L2 > 1e-9 ? Math.max(0, Math.min(1, ((p.x - ax) * vx + (p.y - ay) * vy) / L2)) : 0;
+    return { fraction: t, distance: Math.hypot(ax + vx * t - p.x, ay + vy * t - p.y) };
+};
+
+/**
+ * Entidade sob o ponto: prédio que o contém, senão via cuja faixa (largura + toleranceM) o cobre,
+ * senão quarteirão (face no eixo das vias) que o contém. null se não houver nada.
+ */
+export function pickAt(p: Point, ctx: PickContext, toleranceM: number = 0): PickResult | null {
+    const R = Math.max(1, config.picking.queryRadiusM);
+    const nearby: unknown[] = ctx.qTree ? ctx.qTree.retrieve({ x: p.x - R, y: p.y - R, width: 2 * R, height: 2 * R }).map(m => m.o) : ctx.segments;
+
+    const building = nearby.find((o): o is Building => o instanceof Building && o.type !== BuildingType.GREEN && insidePolygon(p, o.corners));
+    if (building) return { kind: 'building', building };
+
+    let best: { segment: Segment; fraction: number; distanceM: number } | null = null;
+    for (const o of nearby) {
+        if (!(o instanceof Segment)) continue;
+        const { fraction, distance } = projectOnto(p, o);
+        // tolerância mínima para vias estreitas continuarem clicáveis
+        const reach = o.width / 2 + toleranceM;
+        if (distance <= reach && (!best || distance < best.distanceM)) best = { segment: o, fraction, distanceM: distance };
+    }
+    if (best) return { kind: 'segment', ...best };
+
+    const block = ctx.blocks.find(b => insidePolygon(p, b.centerline));
+    return block ? { kind: 'block', block } : null;
+}
+
+const fmt = (v: number, digits: number = 1) => (isFinite(v) ? v.toFixed(digits) : '-');
+
+/** Padrão de rachadura atribuído ao segmento (config.render.crackedRoadPatternAssignments) */
+const crackPatternOf = (segment: Segment, ctx: PickContext): string => {
+    const assignments = config.render.crackedRoadPatternAssignments?.segments;
+    if (!assignments) return 'none';
+    const idx = ctx.segmentIndex?.get(segment) ?? ctx.segments.indexOf(segment);
+    const key = segment.id != null ? String(segment.id) : `idx:${idx}`;
+    const id = assignments[key];
+    if (!id) return 'none';
+    return getCrackPatternById(id)?.label ?? id;
+};
+
+/** Ficha do inspetor para a entidade selecionada */
+export function inspect(pick: PickResult, at: Point, ctx: PickContext): InspectorInfo {
+    const population = (q: Point) => ctx.fields ? fmt(ctx.fields.heatmap.populationAt(q.x, q.y), 3) : '-';
+    const zone = (q: Point) => ctx.fields?.zoning.zoneAt(q) ?? '-';
+    switch (pick.kind) {
+        case 'building': {
+            const b = pick.building;
+            const a = b.aspectDegree * Math.PI / 180;
+            return {
+                title: `Building #${b.id}`,
+                kind: pick.kind,
+                fields: [
+                    { label: 'Type', value: String(b.type) },
+                    { label: 'Zone', value: zone(b.center) },
+                    { label: 'Footprint', value: `${fmt(2 * b.diagonal * Math.cos(a))} × ${fmt(2 * b.diagonal * Math.sin(a))} m (${fmt(footprintM2(b), 0)} m²)` },
+                    { label: 'Heading', value: `${fmt(b.dir, 0)}°` },
+                    { label: 'Center', value: `${fmt(b.center.x)}, ${fmt(b.center.y)}` },
+                    { label: 'Population', value: population(b.center) },
+                ],
+            };
+        }
+        case 'segment': {
+            const s = pick.segment;
+            return {
+                title: `Road #${s.id ?? ctx.segments.indexOf(s)}`,
+                kind: pick.kind,
+                fields: [
+                    { label: 'Class', value: s.roadClass },
+                    { label: 'Zone', value: zone(at) },
+                    { label: 'Length', value: `${fmt(s.length())} m` },
+                    { label: 'Width', value: `${fmt(s.width, 2)} m` },
+                    { label: 'Level', value: s.level > 0 ? `bridge (${s.level})` : s.level < 0 ? `tunnel (${s.level})` : 'ground' },
+                    { label: 'One-way', value: s.oneWay ? 'yes' : 'no' },
+                    { label: 'Links', value: `back ${s.links.b.length}, forward ${s.links.f.length}` },
+                    { label: 'Speed', value: `${fmt(s.maxSpeed * 3.6, 0)} km/h (now ${fmt(s.currentSpeed() * 3.6, 0)})` },
+                    { label: 'Capacity', value: `${s.capacity} (${s.users.length} vehicles)` },
+                    { label: 'Population', value: population(at) },
+                    { label: 'Crack pattern', value: crackPatternOf(s, ctx) },
+                ],
+            };
+        }
+        case 'block': {
+            const b = pick.block;
+            const xs = b.centerline.map(p => p.x), ys = b.centerline.map(p => p.y);
+            const cx = xs.reduce((s, v) => s + v, 0) / Math.max(1, xs.length);
+            const cy = ys.reduce((s, v) => s + v, 0) / Math.max(1, ys.length);
+            return {
+                title: `Block #${b.id}`,
+                kind: pick.kind,
+                fields: [
+                    { label: 'Zone', value: b.zone },
+                    { label: 'Area', value: `${fmt(b.area, 0)} m²` },
+                    { label: 'Extent', value: `${fmt(Math.max(...xs) - Math.min(...xs), 0)} × ${fmt(Math.max(...ys) - Math.min(...ys), 0)} m` },
+                    { label: 'Frontage', value: `${fmt(b.frontageM, 0)} m` },
+                    { label: 'Bounding roads', value: String(b.segments.length) },
+                    { label: 'Population', value: population({ x: cx, y: cy }) },
+                ],
+            };
+        }
+    }
+}
@@ -0,0 +1,258 @@
+import * as math from '../generic_modules/math';
+import type { Point } from '../generic_modules/math';
+import type Quadtree from '../lib/quadtree';
+import { CollisionObject, CollisionObjectType } from '../generic_modules/collision';
+import { Segment, RoadClass, addSegment } from './mapgen';
+import { Building, BuildingType } from './build';
+import { config } from './config';
+
+// Edição manual da malha: desenhar, apagar, dividir trechos e arrastar nós (interseções).
+// As funções alteram a lista de segmentos e o quadtree no lugar e refazem links.b/links.f
+// pela geometria nos nós afetados (b = vias que tocam r.start, f = vias que tocam r.end).
+
+export type RoadEditTool = typeof config.editor.tool;
+
+export type RoadEdit =
+    | { kind: 'draw'; start: Point; end: Point; roadClass?: RoadClass }
+    | { kind: 'delete'; segment: Segment }
+    // mergeM: raio (m) para fundir o nó solto com outro (o editor passa nodePickRadiusPx no zoom atual)
+    | { kind: 'moveNode'; from: Point; to: Point; mergeM?: number }
+    | { kind: 'split'; segment: Segment; point: Point };
+
+export interface RoadEditResult {
+    kind: RoadEdit['kind'];
+    added: Segment[];
+    removed: Segment[];
+    /** trechos que continuam na malha com geometria alterada */
+    changed: Segment[];
+}
+
+export interface SnapResult {
+    point: Point;
+    /** encaixou em um nó existente */
+    node: boolean;
+    /** via cujo interior recebeu o ponto (sem nó ali) */
+    segment?: Segment;
+}
+
+const SEARCH_PAD_M = 1;
+/** raio padrão de fusão de nós no arraste: só quando o nó é solto praticamente sobre outro */
+const NODE_MERGE_M = 3;
+/** tolerância para considerar um ponto já encaixado sobre uma via */
+const ON_SEGMENT_M = 0.01;
+
+// o quadtree pode guardar limites antigos (maiores) de um trecho; apagados ficam marcados aqui
+const removedSegments = new WeakSet<Segment>();
+
+const segmentsNear = (p: Point, radiusM: number, segments: Segment[], qTree: Quadtree | null): Segment[] => {
+    if (!qTree) return segments;
+    const R = radiusM + SEARCH_PAD_M;
+    const found = new Set<Segment>();
+    for (const m of qTree.retrieve({ x: p.x - R, y: p.y - R, width: 2 * R, height: 2 * R })) {
+        if (m.o instanceof Segment && !removedSegments.has(m.o)) found.add(m.o);
+    }
+    return Array.from(found);
+};
+
+/** Vias com uma ponta em p */
+const touching = (p: Point, segments: Segment[], qTree: Quadtree | null): Segment[] =>
+    segmentsNear(p, 0, segments, qTree).filter(s => math.equalV(s.r.start, p) || math.equalV(s.r.end, p));
+
+/** Nó (ponta de via) mais próximo de p a até radiusM */
+export function nodeNear(p: Point, radiusM: number, segments: Segment[], qTree: Quadtree | null): Point | null {
+    let best: Point | null = null;
+    let bestD = radiusM;
+    for (const s of segmentsNear(p, radiusM, segments, qTree)) {
+        for (const q of [s.r.start, s.r.end]) {
+            const d = math.length(p, q);
+            if (d <= bestD) { bestD = d; best = q; }
+        }
+    }
+    return best;
+}
+
+/** Encaixe pela regra do gerador: nó a até snapM, senão ponto mais próximo de uma via a até snapM */
+export function snapPoint(p: Point, segments: Segment[], qTree: Quadtree | null, snapM: number = config.mapGeneration.ROAD_SNAP_DISTANCE, exclude?: Segment[]): SnapResult {
+    const candidates = segmentsNear(p, snapM, segments, qTree).filter(s => !exclude || !exclude.includes(s));
+    const node = nodeNear(p, snapM, candidates, null);
+    if (node) return { point: { x: node.x, y: node.y }, node: true };
+    let best: SnapResult | null = null;
+    let bestD = snapM;
+    for (const s of candidates) {
+        const { distance2, pointOnLine, lineProj2, length2 } = math.distanceToLine(p, s.r.start, s.r.end);
+        if (lineProj2 < 0 || lineProj2 > length2) continue;
+        const d = Math.sqrt(distance2);
+        if (d <= bestD) { bestD = d; best = { point: { x: pointOnLine.x, y: pointOnLine.y }, node: false, segment: s }; }
+    }
+    return best ?? { point: { x: p.x, y: p.y }, node: false };
+}
+
+/** Refaz os links das vias que tocam os pontos dados (e, por consequência, dos seus vizinhos ali) */
+function relinkAt(points: Point[], segments: Segment[], qTree: Quadtree | null): void {
+    const affected = new Set<Segment>();
+    points.forEach(p => touching(p, segments, qTree).forEach(s => affected.add(s)));
+    affected.forEach(s => {
+        s.links.b = touching(s.r.start, segments, qTree).filter(o => o !== s);
+        s.links.f = touching(s.r.end, segments, qTree).filter(o => o !== s);
+    });
+}
+
+function removeSegment(segment: Segment, segments: Segment[], qTree: Quadtree | null): void {
+    const i = segments.indexOf(segment);
+    if (i !== -1) segments.splice(i, 1);
+    qTree?.remove(segment.collider.limits(), segment);
+    removedSegments.add(segment);
+    segment.links.b = [];
+    segment.links.f = [];
+}
+
+const nextId = (segments: Segment[]) => segments.reduce((max, s) => Math.max(max, s.id ?? -1), -1) + 1;
+
+/** Divide `segment` em point (interior); devolve a parte nova */
+function splitAt(segment: Segment, point: Point, segments: Segment[], qTree: Quadtree): Segment | null {
+    const { lineProj2, length2 } = math.distanceToLine(point, segment.r.start, segment.r.end);
+    if (lineProj2 <= 0 || lineProj2 >= length2 || math.equalV(point, segment.r.start) || math.equalV(point, segment.r.end)) return null;
+    const before = segments.length;
+    segment.split({ x: point.x, y: point.y }, null, segments, qTree);
+    const part = segments.length > before ? segments[segments.length - 1] : null;
+    if (part) part.id = nextId(segments);
+    return part;
+}
+
+/** Cruzamentos de a→b com vias no solo, a partir de a: nó existente (a até 1 m) ou ponto onde dividir a via */
+function crossingsAlong(a: Point, b: Point, qTree: Quadtree): Array<{ point: Point; t: number; segment?: Segment }> {
+    const box = {
+        x: Math.min(a.x, b.x) - SEARCH_PAD_M,
+        y: Math.min(a.y, b.y) - SEARCH_PAD_M,
+        width: Math.abs(b.x - a.x) + 2 * SEARCH_PAD_M,
+        height: Math.abs(b.y - a.y) + 2 * SEARCH_PAD_M,
+    };
+    const candidates = new Set<Segment>();
+    for (const m of qTree.retrieve(box)) {
+        if (m.o instanceof Segment && !removedSegments.has(m.o) && m.o.level === 0) candidates.add(m.o);
+    }
+    const found: Array<{ point: Point; t: number; segment?: Segment }> = [];
+    candidates.forEach(other => {
+        const hit = math.doLineSegmentsIntersect(a, b, other.r.start, other.r.end, false);
+        if (!hit || math.length(hit, a) < 1 || math.length(hit, b) < 1) return;
+        const node = [other.r.start, other.r.end].find(p => math.length(p, hit) < 1);
+        found.push(node ? { point: { x: node.x, y: node.y }, t: hit.t } : { point: { x: hit.x, y: hit.y }, t: hit.t, segment: other });
+    });
+    found.sort((p, q) => p.t - q.t);
+    return found.filter((c, i) => i === 0 || math.length(c.point, found[i - 1].point) >= 1);
+}
+
+/**
+ * Aplica a edição à malha (segments e qTree alterados no lugar). null quando a edição não faz nada
+ * (via de comprimento zero, duplicada ou ponto fora do trecho).
+ */
+export function applyRoadEdit(edit: RoadEdit, segments: Segment[], qTree: Quadtree, snapM: number = config.mapGeneration.ROAD_SNAP_DISTANCE): RoadEditResult | null {
+    const result: RoadEditResult = { kind: edit.kind, added: [], removed: [], changed: [] };
+    switch (edit.kind) {
+        case 'draw': {
+            const a = snapPoint(edit.start, segments, qTree, snapM);
+            const b = snapPoint(edit.end, segments, qTree, snapM);
+            if (math.length(a.point, b.point) < 1) return null;
+            const duplicate = touching(a.point, segments, qTree).some(s =>
+                math.equalV(s.r.start, b.point) || math.equalV(s.r.end, b.point));
+            if (duplicate) return null;
+            // ponta sobre o interior de uma via: dividir a via ali (refeito a cada ponta, a 1ª divisão muda os trechos)
+            for (const p of [a.point, b.point]) {
+                const host = snapPoint(p, segments, qTree, ON_SEGMENT_M);
+                if (host.node || !host.segment) continue;
+                const part = splitAt(host.segment, p, segments, qTree);
+                if (!part) continue;
+                result.added.push(part);
+                result.changed.push(host.segment);
+            }
+            // cruzamentos no meio com vias no solo viram interseções: as duas vias são divididas ali
+            // (pontes e túneis passam por cima/baixo sem ligação)
+            const crossings = crossingsAlong(a.point, b.point, qTree);
+            for (const c of crossings) {
+                if (!c.segment) continue;
+                const part = splitAt(c.segment, c.point, segments, qTree);
+                if (!part) continue;
+                result.added.push(part);
+                result.changed.push(c.segment);
+            }
+            const roadClass = edit.roadClass ?? (config.editor.drawClass as RoadClass);
+            const nodes = [a.point, ...crossings.map(c => c.point), b.point];
+            for (let i = 1; i < nodes.length; i++) {
+                const segment = new Segment(nodes[i - 1], nodes[i], 0, { roadClass, highway: roadClass === RoadClass.MOTORWAY });
+                segment.id = nextId(segments);
+                addSegment(segment, segments, qTree);
+                result.added.push(segment);
+            }
+            relinkAt(nodes, segments, qTree);
+            return result;
+        }
+        case 'delete': {
+            if (!segments.includes(edit.segment)) return null;
+            const ends = [edit.segment.r.start, edit.segment.r.end];
+            removeSegment(edit.segment, segments, qTree);
+            result.removed.push(edit.segment);
+            relinkAt(ends, segments, qTree);
+            return result;
+        }
+        case 'split': {
+            if (!segments.includes(edit.segment)) return null;
+            const part = splitAt(edit.segment, edit.point, segments, qTree);
+            if (!part) return null;
+            result.added.push(part);
+            result.changed.push(edit.segment);
+            relinkAt([edit.point, part.r.start, part.r.end, edit.segment.r.start, edit.segment.r.end], segments, qTree);
+            return result;
+        }
+        case 'moveNode': {
+            const attached = touching(edit.from, segments, qTree);
+            if (!attached.length) return null;
+            const from = { x: edit.from.x, y: edit.from.y };
+            const farEnds = attached.map(s => math.equalV(s.r.start, from) ? s.r.end : s.r.start);
+            // soltar sobre outro nó funde os dois, exceto sobre a outra ponta de um trecho do próprio nó
+            // ou quando a fusão duplicaria uma via que já liga o destino a um dos vizinhos
+            const mergeM = edit.mergeM ?? NODE_MERGE_M;
+            if (farEnds.some(p => math.length(p, edit.to) <= mergeM)) return null;
+            const others = segmentsNear(edit.to, mergeM, segments, qTree).filter(s => !attached.includes(s));
+            const target = nodeNear(edit.to, mergeM, others, null);
+            if (target && touching(target, segments, qTree).some(s =>
+                farEnds.some(p => math.equalV(s.r.start, p) || math.equalV(s.r.end, p)))) return null;
+            const to = target ? { x: target.x, y: target.y } : { x: edit.to.x, y: edit.to.y };
+            if (math.equalV(to, edit.from)) return null;
+            for (const s of attached) {
+                qTree.remove(s.collider.limits(), s);
+                if (math.equalV(s.r.start, from)) s.r.setStart({ ...to });
+                if (math.equalV(s.r.end, from)) s.r.setEnd({ ...to });
+                if (s.length() < 1) {
+                    // trecho colapsou sobre o nó de destino
+                    removeSegment(s, segments, null);
+                    result.removed.push(s);
+                    continue;
+                }
+                qTree.insert(s.collider.limits());
+                result.changed.push(s);
+            }
+            relinkAt([to, ...farEnds], segments, qTree);
+            return result;
+        }
+    }
+}
+
+/** Construções (exceto áreas verdes) sobrepostas à faixa das vias dadas (largura inteira) */
+export function buildingsOnRoads(roads: Segment[], qTree: Quadtree | null): Building[] {
+    if (!qTree) return [];
+    const hit = new Set<Building>();
+    for (const s of roads) {
+        const L = s.length();
+        if (L < 1e-6) continue;
+        const nx = -(s.r.end.y - s.r.start.y) / L * s.width / 2, ny = (s.r.end.x - s.r.start.x) / L * s.width / 2;
+        const band = new CollisionObject(null, CollisionObjectType.RECT, { corners: [
+            { x: s.r.start.x + nx, y: s.r.start.y + ny }, { x: s.r.end.x + nx, y: s.r.end.y + ny },
+            { x: s.r.end.x - nx, y: s.r.end.y - ny }, { x: s.r.start.x - nx, y: s.r.start.y - ny },
+        ] });
+        for (const m of qTree.retrieve(band.limits())) {
+            const b = m.o;
+            if (b instanceof Building && b.type !== BuildingType.GREEN && !hit.has(b) && b.collider.collide(band)) hit.add(b);
+        }
+    }
+    return Array.from(hit);
+}
@@ -0,0 +1,228 @@
+import type { Point } from '../generic_modules/math';
+import type { Segment } from './mapgen';
+import { config } from './config';
+
+// Topologia da malha viária: nós nas interseções (extremidades encaixadas em grade de nodeSnapM)
+// e arestas = segmentos. Base comum para quarteirões, ruas sem saída e roteamento.
+
+export interface RoadNode {
+    id: number;
+    key: string;
+    p: Point;
+    /** ids das arestas incidentes */
+    edges: number[];
+}
+
+export interface RoadEdge {
+    id: number;
+    /** nó na extremidade r.start do segmento */
+    a: number;
+    /** nó na extremidade r.end do segmento */
+    b: number;
+    segment: Segment;
+    length: number;
+}
+
+export interface RoadFace {
+    /** nós em ordem de percurso (anti-horário para faces internas) */
+    nodes: number[];
+    edges: number[];
+    polygon: Point[];
+    /** área com sinal: > 0 para faces internas, < 0 para a face externa de cada componente */
+    area: number;
+}
+
+/** Chave estável do nó: encaixa em grade (config.render.nodeSnapM, padrão 1 m, mínimo 0.01 m) */
+export const nodeKey = (p: Point, gridM?: number) => {
+    const snap = Math.max(0.01, gridM ?? ((config as any).render.nodeSnapM ?? 1.0));
+    return `${Math.round(p.x / snap)}:${Math.round(p.y / snap)}`;
+};
+
+export class RoadGraph {
+    readonly nodes: RoadNode[] = [];
+    readonly edges: RoadEdge[] = [];
+    private byKey = new Map<string, RoadNode>();
+    private bySegment = new Map<Segment, RoadEdge>();
+
+    constructor(private snapM?: number) {}
+
+    /**
+     * Monta o grafo a partir da saída do mapgen. Segmentos de comprimento nulo (mesmo nó nas duas pontas) são ignorados.
+     */
+    static fromSegments(segments: Segment[], snapM?: number): RoadGraph {
+        const g = new RoadGraph(snapM);
+        segments.forEach(s => g.addSegment(s));
+        return g;
+    }
+
+    addSegment(segment: Segment): RoadEdge | undefined {
+        const a = this.nodeFor(segment.r.start);
+        const b = this.nodeFor(segment.r.end);
+        if (a === b) return undefined;
+        const edge: RoadEdge = {
+            id: this.edges.length,
+            a: a.id,
+            b: b.id,
+            segment,
+            length: Math.hypot(segment.r.end.x - segment.r.start.x, segment.r.end.y - segment.r.start.y),
+        };
+        this.edges.push(edge);
+        this.bySegment.set(segment, edge);
+        a.edges.push(edge.id);
+        b.edges.push(edge.id);
+        return edge;
+    }
+
+    private nodeFor(p: Point): RoadNode {
+        const key = nodeKey(p, this.snapM);
+        let node = this.byKey.get(key);
+        if (!node) {
+            node = { id: this.nodes.length, key, p: { x: p.x, y: p.y }, edges: [] };
+            this.nodes.push(node);
+            this.byKey.set(key, node);
+        }
+        return node;
+    }
+
+    nodeAt(p: Point): RoadNode | undefined {
+        return this.byKey.get(nodeKey(p, this.snapM));
+    }
+
+    edgeOf(segment: Segment): RoadEdge | undefined {
+        return this.bySegment.get(segment);
+    }
+
+    /** Nó da outra ponta da aresta */
+    opposite(edgeId: number, nodeId: number): number {
+        const e = this.edges[edgeId];
+        return e.a === nodeId ? e.b : e.a;
+    }
+
+    degree(nodeId: number): number {
+        return this.nodes[nodeId].edges.length;
+    }
+
+    /** Nós vizinhos (sem repetição, mesmo com arestas paralelas) */
+    neighbors(nodeId: number): number[] {
+        const out = new Set<number>();
+        for (const eid of this.nodes[nodeId].edges) out.add(this.opposite(eid, nodeId));
+        return Array.from(out);
+    }
+
+    deadEnds(): RoadNode[] {
+        return this.nodes.filter(n => n.edges.length === 1);
+    }
+
+    /** Componentes conexos como listas de ids de nós, maior primeiro */
+    components(): number[][] {
+        const seen = new Uint8Array(this.nodes.length);
+        const comps: number[][] = [];
+        for (const start of this.nodes) {
+            if (seen[start.id]) continue;
+            const comp: number[] = [];
+            const stack = [start.id];
+            seen[start.id] = 1;
+            while (stack.length) {
+                const n = stack.pop()!;
+                comp.push(n);
+                for (const eid of this.nodes[n].edges) {
+                    const m = this.opposite(eid, n);
+                    if (!seen[m]) { seen[m] = 1; stack.push(m); }
+                }
+            }
+            comps.push(comp);
+        }
+        return comps.sort((x, y) => y.length - x.length);
+    }
+
+    /**
+     * Pontes (arestas cuja remoção desconecta o grafo) via Tarjan iterativo.
+     * Arestas paralelas entre os mesmos nós nunca são pontes.
+     */
+    bridges(): RoadEdge[] {
+        const N = this.nodes.length;
+        const disc = new Int32Array(N).fill(-1);
+        const low = new Int32Array(N);
+        const out: RoadEdge[] = [];
+        let time = 0;
+        for (let root = 0; root < N; root++) {
+            if (disc[root] !== -1) continue;
+            // pilha: [nó, aresta de chegada, índice da próxima aresta a visitar]
+            const stack: Array<[number, number, number]> = [[root, -1, 0]];
+            disc[root] = low[root] = time++;
+            while (stack.length) {
+                const top = stack[stack.length - 1];
+                const [n, viaEdge] = top;
+                const edges = this.nodes[n].edges;
+                if (top[2] < edges.length) {
+                    const eid = edges[top[2]++];
+                    if (eid === viaEdge) continue;
+                    const m = this.opposite(eid, n);
+                    if (disc[m] === -1) {
+                        disc[m] = low[m] = time++;
+                        stack.push([m, eid, 0]);
+                    } else {
+                        low[n] = Math.min(low[n], disc[m]);
+                    }
+                } else {
+                    stack.pop();
+                    if (stack.length) {
+                        const parent = stack[stack.length - 1][0];
+                        low[parent] = Math.min(low[parent], low[n]);
+                        if (low[n] > disc[parent]) out.push(this.edges[viaEdge]);
+                    }
+                }
+            }
+        }
+        return out;
+    }
+
+    /**
+     * Enumera as faces do grafo planar percorrendo semi-arestas (sempre a curva mais à esquerda).
+     * Só entram vias no nível do solo: pontes e túneis cruzam outras vias sem nó e tornariam o grafo não planar.
+     * Por padrão retorna só as faces internas (área > 0); ruas sem saída aparecem como “espinhos” no contorno.
+     */
+    faces(includeOuter: boolean = false): RoadFace[] {
+        // Semi-aresta h = 2*edgeId + (0: a->b, 1: b->a)
+        const from = (h: number) => { const e = this.edges[h >> 1]; return (h & 1) ? e.b : e.a; };
+        const to = (h: number) => { const e = this.edges[h >> 1]; return (h & 1) ? e.a : e.b; };
+        const atGrade = (eid: number) => this.edges[eid].segment.level === 0;
+
+        // Semi-arestas de saída por nó, ordenadas por ângulo (anti-horário)
+        const outgoing: number[][] = this.nodes.map(n => {
+            const hs = n.edges.filter(atGrade).map(eid => (this.edges[eid].a === n.id ? eid * 2 : eid * 2 + 1));
+            const ang = (h: number) => { const q = this.nodes[to(h)].p; return Math.atan2(q.y - n.p.y, q.x - n.p.x); };
+            return hs.sort((x, y) => ang(x) - ang(y));
+        });
+        const slot = new Int32Array(this.edges.length * 2);
+        outgoing.forEach(hs => hs.forEach((h, i) => { slot[h] = i; }));
+
+        const visited = new Uint8Array(this.edges.length * 2);
+        this.edges.forEach(e => { if (!atGrade(e.id)) visited[2 * e.id] = visited[2 * e.id + 1] = 1; });
+        const faces: RoadFace[] = [];
+        for (let h0 = 0; h0 < visited.length; h0++) {
+            if (visited[h0]) continue;
+            const nodes: number[] = [];
+            const edges: number[] = [];
+            let h = h0;
+            while (!visited[h]) {
+                visited[h] = 1;
+                nodes.push(from(h));
+                edges.push(h >> 1);
+                // no nó de chegada, a próxima é a semi-aresta imediatamente horária à de volta
+                const v = to(h);
+                const hs = outgoing[v];
+                const back = h ^ 1;
+                h = hs[(slot[back] - 1 + hs.length) % hs.length];
+            }
+            const polygon = nodes.map(id => this.nodes[id].p);
+            let area = 0;
+            for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+                area += (polygon[j].x * polygon[i].y) - (polygon[i].x * polygon[j].y);
+            }
+            area /= 2;
+            if (includeOuter || area > 0) faces.push({ nodes, edges, polygon, area });
+        }
+        return faces;
+    }
+}
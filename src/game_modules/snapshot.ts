@@ -0,0 +1,201 @@
+import * as _ from 'lodash';
+import Quadtree from '../lib/quadtree';
+import type { Point } from '../generic_modules/math';
+import * as mapgen from './mapgen';
+import { Segment, MapGenerationResult, RoadClass } from './mapgen';
+import type { CityFields, CityLayers } from './mapgen';
+import { Building, BuildingType } from './build';
+import { config, generationOptions } from './config';
+import type { GenerationOptions } from './config';
+import type { ZoningParams, ZoneOverrides, GeoZonePolygon } from './zoning';
+import { populationField, zoneField, encodeImage, decodeImage } from './image_fields';
+import type { ImageSnapshot, ZoneField } from './image_fields';
+
+// Snapshot versionado da cidade: malha (com topologia links.b/f), heatmap, zoneamento,
+// imagens carregadas, construções posicionadas e config de render. Restaurar não regenera nada.
+
+export const SNAPSHOT_VERSION = 1;
+
+export interface SegmentSnapshot {
+    id: number;
+    start: Point;
+    end: Point;
+    t: number;
+    width: number;
+    q: { roadClass?: RoadClass; highway?: boolean; color?: number; severed?: boolean; level?: number; oneWay?: boolean };
+    links: { b: number[]; f: number[] };
+}
+
+export interface BuildingSnapshot {
+    type: BuildingType;
+    center: Point;
+    dir: number;
+    diagonal: number;
+    aspectRatio: number;
+}
+
+export interface CitySnapshot {
+    format: 'citygen-snapshot';
+    version: number;
+    seed: string | number;
+    segments: SegmentSnapshot[];
+    heatmap: { rUnit: number; shiftX: number; shiftY: number; noiseSeed: number };
+    /**
+     * overrides: zonas pintadas à mão; geoZones: polígonos importados (modo 'geo').
+     * Ausentes em snapshots antigos ou sem pintura/importação; os do modo 'voronoi' são regenerados pela seed.
+     */
+    zoning: { seed: number | null; params: ZoningParams; model: GenerationOptions['zoningModel']; overrides?: ZoneOverrides | null; geoZones?: GeoZonePolygon[] | null };
+    /** ausente em snapshots anteriores ao terreno: usa options.terrain com a seed do heatmap */
+    terrain?: { seed: number | null; params: GenerationOptions['terrain'] };
+    /** imagens de população e de zonas carregadas (ausentes em snapshots antigos ou sem imagem) */
+    images?: {
+        population: ImageSnapshot | null;
+        zones: (ImageSnapshot & { colors: ZoneField['source']['colors']; toleranceRGB: number }) | null;
+    };
+    buildings: BuildingSnapshot[] | null;
+    render: Record<string, any>;
+}
+
+export interface RestoredSnapshot extends MapGenerationResult {
+    seed: string | number;
+    /** camadas do usuário guardadas no snapshot (valem também para as próximas gerações) */
+    layers: CityLayers;
+    buildings: Building[] | null;
+    render: Record<string, any>;
+}
+
+/** Cópia JSON-segura (descarta funções/undefined) */
+const plain = <T>(v: T): T => JSON.parse(JSON.stringify(v));
+
+/**
+ * Serializa a malha atual, os campos da geração (e opcionalmente as construções já posicionadas) em um snapshot.
+ */
+export function createSnapshot(seed: string | number, segments: Segment[], buildings: Building[] | null, fields: CityFields): CitySnapshot {
+    const { heatmap, zoning, terrain } = fields;
+    const zoneImage = zoning.getZoneImage();
+    const geoZones = zoning.getModel().mode === 'voronoi' ? null : zoning.getGeoZones();
+    const ids = new Map<Segment, number>();
+    segments.forEach((s, i) => ids.set(s, s.id ?? i));
+    const idsOf = (list: Segment[]) => list.map(l => ids.get(l)).filter((id): id is number => id !== undefined);
+
+    return {
+        format: 'citygen-snapshot',
+        version: SNAPSHOT_VERSION,
+        seed,
+        segments: segments.map(s => ({
+            id: ids.get(s)!,
+            start: { x: s.r.start.x, y: s.r.start.y },
+            end: { x: s.r.end.x, y: s.r.end.y },
+            t: s.t,
+            width: s.width,
+            q: plain(s.q),
+            links: { b: idsOf(s.links.b), f: idsOf(s.links.f) },
+        })),
+        heatmap: {
+            rUnit: heatmap.rUnit,
+            shiftX: heatmap.shiftX,
+            shiftY: heatmap.shiftY,
+            noiseSeed: heatmap.noiseSeed,
+        },
+        zoning: {
+            seed: zoning.getSeed(),
+            params: plain(zoning.getParams()),
+            model: plain(zoning.getModel()),
+            overrides: zoning.getOverrides(),
+            geoZones: geoZones ? plain(geoZones) : null,
+        },
+        terrain: { seed: terrain.getSeed(), params: plain(terrain.getParams()) },
+        images: {
+            population: heatmap.populationImage ? encodeImage(heatmap.populationImage.source) : null,
+            zones: zoneImage ? { ...encodeImage(zoneImage.source), colors: { ...zoneImage.source.colors }, toleranceRGB: zoneImage.source.toleranceRGB } : null,
+        },
+        buildings: buildings ? buildings.map(b => ({
+            type: b.type,
+            center: { x: b.center.x, y: b.center.y },
+            dir: b.dir,
+            diagonal: b.diagonal,
+            aspectRatio: Math.tan(b.aspectDegree * Math.PI / 180),
+        })) : null,
+        render: plain(config.render),
+    };
+}
+
+/**
+ * Lê e valida um snapshot em texto. Lança Error se o formato/versão não for suportado.
+ */
+export function parseSnapshot(text: string): CitySnapshot {
+    const snap = JSON.parse(text);
+    if (!snap || snap.format !== 'citygen-snapshot') {
+        throw new Error('Snapshot inválido: formato desconhecido');
+    }
+    if (typeof snap.version !== 'number' || snap.version > SNAPSHOT_VERSION) {
+        throw new Error(`Snapshot inválido: versão ${snap.version} não suportada (máx. ${SNAPSHOT_VERSION})`);
+    }
+    if (!Array.isArray(snap.segments)) {
+        throw new Error('Snapshot inválido: sem segmentos');
+    }
+    return snap as CitySnapshot;
+}
+
+/**
+ * Reconstrói segmentos, topologia, quadtree, heatmap, zoneamento e imagens a partir de um snapshot.
+ * O modelo de zoneamento e o terreno salvos substituem as seções de `options` numa cópia; o config não é alterado.
+ */
+export function restoreSnapshot(snap: CitySnapshot, base: GenerationOptions = generationOptions()): RestoredSnapshot {
+    const options: GenerationOptions = {
+        ...base,
+        zoningModel: _.cloneDeep(snap.zoning.model),
+        terrain: snap.terrain ? _.cloneDeep(snap.terrain.params) : base.terrain,
+    };
+    const mg = options.mapGeneration;
+    const byId = new Map<number, Segment>();
+    const segments: Segment[] = [];
+    const qTree = new Quadtree(mg.QUADTREE_PARAMS, mg.QUADTREE_MAX_OBJECTS, mg.QUADTREE_MAX_LEVELS);
+
+    for (const s of snap.segments) {
+        const seg = new Segment(s.start, s.end, s.t, { ...s.q }, options);
+        seg.width = s.width;
+        seg.collider.updateCollisionProperties({ width: seg.width });
+        seg.id = s.id;
+        byId.set(s.id, seg);
+        mapgen.addSegment(seg, segments, qTree);
+    }
+    for (const s of snap.segments) {
+        const seg = byId.get(s.id)!;
+        seg.links.b = s.links.b.map(id => byId.get(id)).filter((l): l is Segment => !!l);
+        seg.links.f = s.links.f.map(id => byId.get(id)).filter((l): l is Segment => !!l);
+    }
+
+    const { population, zones } = snap.images ?? { population: null, zones: null };
+    const popSource = population ? decodeImage(population) : null;
+    const zoneSource = zones ? { ...decodeImage(zones), colors: zones.colors, toleranceRGB: zones.toleranceRGB } : null;
+    const layers: CityLayers = {
+        geoZones: snap.zoning.geoZones ?? null,
+        zoneOverrides: snap.zoning.overrides ?? null,
+        populationImage: popSource ? populationField(popSource.pixels, popSource.bounds) : null,
+        zoneImage: zoneSource ? zoneField(zoneSource.pixels, zoneSource.bounds, zoneSource.colors, zoneSource.toleranceRGB) : null,
+    };
+    const noiseSeed = snap.heatmap.noiseSeed;
+    const fields = mapgen.createFields(snap.seed, noiseSeed, { ...options, layers }, snap.zoning.seed ?? noiseSeed, snap.terrain?.seed ?? noiseSeed);
+    fields.zoning.setParams(snap.zoning.params);
+    fields.heatmap.rUnit = snap.heatmap.rUnit;
+    fields.heatmap.shiftX = snap.heatmap.shiftX;
+    fields.heatmap.shiftY = snap.heatmap.shiftY;
+
+    const buildings = snap.buildings ? snap.buildings.map(b => {
+        const building = new Building(b.center, b.dir, b.diagonal, b.type, b.aspectRatio);
+        qTree.insert(building.collider.limits());
+        return building;
+    }) : null;
+
+    return {
+        seed: snap.seed,
+        segments,
+        qTree,
+        ...fields,
+        debugData: {},
+        layers,
+        buildings,
+        render: snap.render,
+    };
+}
@@ -0,0 +1,137 @@
+import { Noise } from 'noisejs';
+import type { Point } from '../generic_modules/math';
+import { config } from './config';
+import type { GenerationOptions } from './config';
+import { sampleWarpedNoise } from '../lib/noiseField';
+
+// Terreno semeado: elevação em metros (< 0 => água), costa, lagos e rios.
+// Cada geração cria a sua instância (MapGenerationResult.terrain), compartilhada por
+// vias, zoneamento, heatmap, construções e renderer.
+
+export type TerrainParams = GenerationOptions['terrain'];
+export type WaterKind = 'sea' | 'lake' | 'river';
+
+export interface TerrainProbe {
+    /** primeiro ponto com água ao longo do trecho (se houver) */
+    water: Point | null;
+    /** maior rampa entre amostras consecutivas (|dh| / distância) */
+    maxGrade: number;
+    /** true se o trecho cruza água ou excede params.maxGrade */
+    blocked: boolean;
+}
+
+export class Terrain {
+    private _noise: Noise;
+    private _riverNoise: Noise;
+    private _seed: number;
+    private _params: TerrainParams;
+    // centro da cidade (área sempre em terra firme) e direção da costa (unitária), sorteada pela seed
+    private _center: Point;
+    private _coastDir: Point;
+
+    constructor(seed: number, params: TerrainParams = config.terrain, center: Point = { x: 0, y: 0 }) {
+        this._seed = seed;
+        this._params = params;
+        this._center = { x: center.x, y: center.y };
+        this._noise = new Noise(seed);
+        this._riverNoise = new Noise((seed + 1) % 65536);
+        const ang = this._noise.simplex2(seed * 0.001 + 0.5, 3.7) * Math.PI;
+        this._coastDir = { x: Math.cos(ang), y: Math.sin(ang) };
+    }
+
+    getSeed(): number { return this._seed; }
+    getParams(): TerrainParams { return this._params; }
+    isEnabled(): boolean { return this._params.enabled; }
+
+    /** Distância normalizada até a linha central de um rio (< 1 => leito) */
+    private _riverDistance(x: number, y: number): number {
+        const rv = this._params.rivers;
+        if (!rv.enabled) return Infinity;
+        const s = rv.noiseScale;
+        const n = Math.abs(this._riverNoise.simplex2(x * s + 31.7, y * s - 7.3));
+        // gradiente típico do simplex ~2 por unidade de ruído => meia largura ≈ widthM/2
+        return n / Math.max(1e-9, rv.widthM * s);
+    }
+
+    /** Elevação em metros; <= 0 é água */
+    elevationAt(x: number, y: number): number {
+        if (!this.isEnabled()) return 1;
+        const p = this._params;
+        const n = sampleWarpedNoise(this._noise, x * p.noiseScale, y * p.noiseScale, p.octaves, p.lacunarity, p.gain);
+        let h = (n - p.seaLevel) * p.reliefM;
+
+        const c = this._center;
+        const dx = x - c.x, dy = y - c.y;
+        const d = Math.hypot(dx, dy);
+        if (p.coast.enabled) {
+            const proj = dx * this._coastDir.x + dy * this._coastDir.y;
+            const t = (proj - (p.coast.distanceM - p.coast.falloffM)) / Math.max(1, p.coast.falloffM);
+            if (t > 0) h -= t * p.reliefM;
+        }
+        h += p.centerLiftM * Math.exp(-Math.pow(d / Math.max(1, p.centerClearRadiusM), 2));
+
+        const rd = this._riverDistance(x, y);
+        if (rd < 3) h -= p.rivers.bankDepthM * (1 - rd / 3);
+        return h;
+    }
+
+    /** Tipo de água no ponto (null => terra firme) */
+    waterAt(pt: Point): WaterKind | null {
+        if (!this.isEnabled()) return null;
+        const c = this._center;
+        if (Math.hypot(pt.x - c.x, pt.y - c.y) < this._params.centerClearRadiusM) return null;
+        if (this.elevationAt(pt.x, pt.y) <= 0) {
+            const proj = (pt.x - c.x) * this._coastDir.x + (pt.y - c.y) * this._coastDir.y;
+            return (this._params.coast.enabled && proj > this._params.coast.distanceM - this._params.coast.falloffM) ? 'sea' : 'lake';
+        }
+        return this._riverDistance(pt.x, pt.y) < 1 ? 'river' : null;
+    }
+
+    isWater(pt: Point): boolean {
+        return this.waterAt(pt) !== null;
+    }
+
+    /** Inclinação do terreno (|gradiente|, adimensional) por diferenças centrais */
+    gradeAt(pt: Point, stepM: number = 5): number {
+        if (!this.isEnabled()) return 0;
+        const hx = this.elevationAt(pt.x + stepM, pt.y) - this.elevationAt(pt.x - stepM, pt.y);
+        const hy = this.elevationAt(pt.x, pt.y + stepM) - this.elevationAt(pt.x, pt.y - stepM);
+        return Math.hypot(hx, hy) / (2 * stepM);
+    }
+
+    /**
+     * Distância (m) a partir de start, na direção unitária dir, até a primeira terra firme depois de água.
+     * null se a água não termina em até maxM (vão grande demais para uma ponte).
+     */
+    shoreAcross(start: Point, dir: Point, maxM: number): number | null {
+        const step = Math.max(1, this._params.sampleStepM);
+        let sawWater = false;
+        for (let d = step; d <= maxM; d += step) {
+            const wet = this.isWater({ x: start.x + dir.x * d, y: start.y + dir.y * d });
+            if (wet) sawWater = true;
+            else if (sawWater) return d;
+        }
+        return null;
+    }
+
+    /** Amostra o trecho a cada sampleStepM procurando água e rampas acima de maxGrade (fora do centro) */
+    probe(start: Point, end: Point): TerrainProbe {
+        if (!this.isEnabled()) return { water: null, maxGrade: 0, blocked: false };
+        const p = this._params;
+        const c = this._center;
+        const len = Math.hypot(end.x - start.x, end.y - start.y);
+        const n = Math.max(1, Math.ceil(len / Math.max(1, p.sampleStepM)));
+        let prevH = this.elevationAt(start.x, start.y);
+        let maxGrade = 0;
+        for (let i = 1; i <= n; i++) {
+            const t = i / n;
+            const q = { x: start.x + (end.x - start.x) * t, y: start.y + (end.y - start.y) * t };
+            if (this.isWater(q)) return { water: q, maxGrade, blocked: true };
+            const h = this.elevationAt(q.x, q.y);
+            // o centro fica livre também de rampas: a raiz da malha precisa sair dali
+            if (Math.hypot(q.x - c.x, q.y - c.y) >= p.centerClearRadiusM) maxGrade = Math.max(maxGrade, Math.abs(h - prevH) / (len / n));
+            prevH = h;
+        }
+        return { water: null, maxGrade, blocked: maxGrade > p.maxGrade };
+    }
+}
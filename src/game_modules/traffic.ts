@@ -0,0 +1,252 @@
+import * as astar from '../generic_modules/astar';
+import type { Point, RNG } from '../generic_modules/math';
+import { Segment } from './mapgen';
+import type { Building } from './build';
+import type Quadtree from '../lib/quadtree';
+import { config } from './config';
+import type { ODMatrix } from './trips';
+
+// Tráfego por agentes: veículos entre construções, rotas por A* (custo = Segment.cost()) e
+// congestionamento via Segment.users, que alimenta currentSpeed().
+
+export type TrafficParams = typeof config.traffic;
+
+export interface Vehicle {
+    id: number;
+    /** trechos da rota, da via de acesso da origem à do destino */
+    path: Segment[];
+    /** índice do trecho atual em path */
+    index: number;
+    /** posição no trecho atual (0 = r.start, 1 = r.end) */
+    fraction: number;
+    /** fração de saída do trecho atual (junção com o próximo ou ponto de acesso do destino) */
+    target: number;
+    destination: Building;
+    destinationFraction: number;
+    color: number;
+    /** parado no fim do trecho aguardando vaga no próximo */
+    waiting: boolean;
+}
+
+export interface TrafficStats {
+    vehicles: number;
+    waiting: number;
+    arrivals: number;
+    /** velocidade média atual (m/s) dos veículos em movimento */
+    meanSpeed: number;
+}
+
+interface Access {
+    segment: Segment;
+    fraction: number;
+}
+
+const dist = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+/** Fração do ponto projetado em s (0..1) e distância até ele */
+const project = (p: Point, s: Segment): { fraction: number; distance: number } => {
+    const ax = s.r.start.x, ay = s.r.start.y;
+    const vx = s.r.end.x - ax, vy = s.r.end.y - ay;
+    const L2 = vx * vx + vy * vy;
+    const t = L2 > 1e-9 ? Math.max(0, Math.min(1, ((p.x - ax) * vx + (p.y - ay) * vy) / L2)) : 0;
+    return { fraction: t, distance: Math.hypot(ax + vx * t - p.x, ay + vy * t - p.y) };
+};
+
+/** Ponta de `from` (0 = r.start, 1 = r.end) encostada em `to` */
+const sharedEnd = (from: Segment, to: Segment): number => {
+    const d0 = Math.min(dist(from.r.start, to.r.start), dist(from.r.start, to.r.end));
+    const d1 = Math.min(dist(from.r.end, to.r.start), dist(from.r.end, to.r.end));
+    return d0 <= d1 ? 0 : 1;
+};
+
+export class TrafficSimulation {
+    readonly vehicles: Vehicle[] = [];
+    /** tempo simulado (s) */
+    time = 0;
+    arrivals = 0;
+    private nextId = 0;
+    private spawnDebt = 0;
+    private access = new Map<Building, Access | null>();
+    // matriz OD opcional: pares sorteados proporcionalmente às viagens (pesos acumulados)
+    private trips: ODMatrix | null = null;
+    private tripCumulative: number[] = [];
+
+    constructor(
+        private segments: Segment[],
+        private buildings: Building[],
+        private params: TrafficParams = config.traffic,
+        private rng: RNG = Math.random,
+        private qTree?: Quadtree
+    ) {}
+
+    /** Passa a sortear origem/destino pela matriz OD (null volta aos pares aleatórios) */
+    setTrips(matrix: ODMatrix | null): void {
+        this.trips = matrix && matrix.entries.length ? matrix : null;
+        let acc = 0;
+        this.tripCumulative = this.trips ? this.trips.entries.map(e => (acc += e.trips)) : [];
+    }
+
+    private pickPair(): [Building, Building] {
+        if (this.trips) {
+            const cum = this.tripCumulative;
+            const r = this.rng() * cum[cum.length - 1];
+            let lo = 0, hi = cum.length - 1;
+            while (lo < hi) {
+                const mid = (lo + hi) >> 1;
+                if (cum[mid] < r) lo = mid + 1; else hi = mid;
+            }
+            const e = this.trips.entries[lo];
+            return [e.origin, e.destination];
+        }
+        const list = this.buildings;
+        return [list[Math.floor(this.rng() * list.length)], list[Math.floor(this.rng() * list.length)]];
+    }
+
+    /** Via mais próxima da construção (em até accessRadiusM), com cache */
+    accessOf(building: Building): Access | null {
+        if (this.access.has(building)) return this.access.get(building)!;
+        const R = this.params.accessRadiusM;
+        const c = building.center;
+        const candidates: Segment[] = this.qTree
+            ? this.qTree.retrieve({ x: c.x - R, y: c.y - R, width: 2 * R, height: 2 * R })
+                .map(m => m.o).filter((o): o is Segment => o instanceof Segment)
+            : this.segments;
+        let best: Access | null = null;
+        let bestD = R;
+        for (const s of candidates) {
+            const { fraction, distance } = project(c, s);
+            if (distance < bestD) { bestD = distance; best = { segment: s, fraction }; }
+        }
+        this.access.set(building, best);
+        return best;
+    }
+
+    /** Cria um veículo entre duas construções sorteadas (ou um par da matriz OD); null se não achar par com rota */
+    spawn(): Vehicle | null {
+        if (this.buildings.length < 2 && !this.trips) return null;
+        for (let attempt = 0; attempt < 8; attempt++) {
+            const [from, to] = this.pickPair();
+            if (from === to || dist(from.center, to.center) < this.params.minTripM) continue;
+            const a = this.accessOf(from), b = this.accessOf(to);
+            if (!a || !b) continue;
+            const path: Segment[] = a.segment === b.segment ? [a.segment]
+                : astar.findPath(new astar.PathLocation(a.segment, a.fraction), new astar.PathLocation(b.segment, b.fraction));
+            if (!path.length) continue;
+            const colors = this.params.colors;
+            const v: Vehicle = {
+                id: this.nextId++,
+                path,
+                index: 0,
+                fraction: a.fraction,
+                target: 0,
+                destination: to,
+                destinationFraction: b.fraction,
+                color: colors[Math.floor(this.rng() * colors.length)],
+                waiting: false,
+            };
+            v.target = this.exitFraction(v);
+            path[0].users.push(v);
+            this.vehicles.push(v);
+            return v;
+        }
+        return null;
+    }
+
+    private exitFraction(v: Vehicle): number {
+        return v.index === v.path.length - 1 ? v.destinationFraction : sharedEnd(v.path[v.index], v.path[v.index + 1]);
+    }
+
+    private leave(v: Vehicle, segment: Segment) {
+        const i = segment.users.indexOf(v);
+        if (i !== -1) segment.users.splice(i, 1);
+    }
+
+    /** Avança a simulação dt segundos (reais; multiplicados por timeScale) */
+    tick(dt: number): void {
+        dt *= this.params.timeScale;
+        if (!(dt > 0)) return;
+        this.time += dt;
+
+        this.spawnDebt = Math.min(this.spawnDebt + this.params.spawnPerSecond * dt, this.params.maxVehicles);
+        while (this.spawnDebt >= 1 && this.vehicles.length < this.params.maxVehicles) {
+            this.spawnDebt -= 1;
+            this.spawn();
+        }
+
+        const arrived: Vehicle[] = [];
+        for (const v of this.vehicles) {
+            let seg = v.path[v.index];
+            let budget = seg.currentSpeed() * dt;
+            v.waiting = false;
+            while (budget > 0) {
+                const len = seg.length();
+                const remaining = Math.abs(v.target - v.fraction) * len;
+                if (budget < remaining) {
+                    v.fraction += Math.sign(v.target - v.fraction) * budget / len;
+                    break;
+                }
+                v.fraction = v.target;
+                budget -= remaining;
+                if (v.index === v.path.length - 1) {
+                    arrived.push(v);
+                    break;
+                }
+                const next = v.path[v.index + 1];
+                if (next.users.length >= next.capacity * this.params.jamOccupancy) {
+                    v.waiting = true;
+                    break;
+                }
+                this.leave(v, seg);
+                next.users.push(v);
+                v.fraction = sharedEnd(next, seg);
+                v.index++;
+                v.target = this.exitFraction(v);
+                // restante do deslocamento na velocidade do novo trecho
+                budget *= next.currentSpeed() / Math.max(1e-6, seg.currentSpeed());
+                seg = next;
+            }
+        }
+        if (arrived.length) {
+            for (const v of arrived) this.leave(v, v.path[v.index]);
+            const done = new Set(arrived);
+            const keep = this.vehicles.filter(v => !done.has(v));
+            this.vehicles.length = 0;
+            this.vehicles.push(...keep);
+            this.arrivals += arrived.length;
+        }
+    }
+
+    /** Posição (mão direita, 1/4 da largura fora do eixo) e rumo (rad) do veículo no mundo */
+    positionOf(v: Vehicle): { p: Point; heading: number; segment: Segment } {
+        const s = v.path[v.index];
+        const forward = v.target >= v.fraction ? 1 : -1;
+        const vx = (s.r.end.x - s.r.start.x) * forward, vy = (s.r.end.y - s.r.start.y) * forward;
+        const L = Math.hypot(vx, vy) || 1;
+        const off = s.width * 0.25;
+        return {
+            p: {
+                x: s.r.start.x + (s.r.end.x - s.r.start.x) * v.fraction + (vy / L) * off,
+                y: s.r.start.y + (s.r.end.y - s.r.start.y) * v.fraction - (vx / L) * off,
+            },
+            heading: Math.atan2(vy, vx),
+            segment: s,
+        };
+    }
+
+    stats(): TrafficStats {
+        let moving = 0, speed = 0, waiting = 0;
+        for (const v of this.vehicles) {
+            if (v.waiting) { waiting++; continue; }
+            moving++;
+            speed += v.path[v.index].currentSpeed();
+        }
+        return { vehicles: this.vehicles.length, waiting, arrivals: this.arrivals, meanSpeed: moving ? speed / moving : 0 };
+    }
+
+    /** Remove todos os veículos e zera Segment.users */
+    clear(): void {
+        this.vehicles.forEach(v => this.leave(v, v.path[v.index]));
+        this.vehicles.length = 0;
+        this.spawnDebt = 0;
+    }
+}
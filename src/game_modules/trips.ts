@@ -0,0 +1,131 @@
+import type { Point } from '../generic_modules/math';
+import { Building } from './build';
+import { config } from './config';
+
+// Geração de viagens: oferta/demanda por construção (moradores, empregos, carga) a partir de
+// config.trips.profiles e matriz origem–destino por modelo gravitacional (impedância exponencial).
+
+export type TripPurpose = 'commute' | 'goods';
+
+/** Item de Building.supply / Building.demand */
+export interface TripQuantity {
+    /** workers: moradores (oferta) e empregos (demanda); goods: produção (oferta) e consumo (demanda) */
+    kind: 'workers' | 'goods';
+    amount: number;
+}
+
+export interface ODEntry {
+    origin: Building;
+    destination: Building;
+    purpose: TripPurpose;
+    /** viagens por dia (carga já convertida em viagens de veículo pela capacidade) */
+    trips: number;
+    distanceM: number;
+}
+
+export interface ODMatrix {
+    entries: ODEntry[];
+    totals: Record<TripPurpose, number>;
+}
+
+export type TripParams = typeof config.trips;
+
+const dist = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+/** Área da projeção do prédio (m²) */
+export const footprintM2 = (b: Building) => {
+    const a = b.aspectDegree * Math.PI / 180;
+    return (2 * b.diagonal * Math.sin(a)) * (2 * b.diagonal * Math.cos(a));
+};
+
+const amountOf = (list: any[], kind: TripQuantity['kind']) =>
+    list.reduce((sum, q: TripQuantity) => sum + (q && q.kind === kind ? q.amount : 0), 0);
+
+/**
+ * Preenche supply/demand de cada construção conforme o perfil do tipo (substitui o conteúdo anterior).
+ */
+export function assignSupplyDemand(buildings: Building[], params: TripParams = config.trips): void {
+    for (const b of buildings) {
+        const prof = params.profiles[b.type] ?? {};
+        const k = footprintM2(b) / 100;
+        b.supply = [];
+        b.demand = [];
+        if (prof.residents) b.supply.push({ kind: 'workers', amount: prof.residents * k * params.commuteShare } as TripQuantity);
+        if (prof.goodsOut) b.supply.push({ kind: 'goods', amount: prof.goodsOut * k } as TripQuantity);
+        if (prof.jobs) b.demand.push({ kind: 'workers', amount: prof.jobs * k } as TripQuantity);
+        if (prof.goodsIn) b.demand.push({ kind: 'goods', amount: prof.goodsIn * k } as TripQuantity);
+    }
+}
+
+/**
+ * Distribui a oferta de cada origem entre os destinos com demanda: T_ij ∝ O_i · D_j · exp(-d_ij / meanTripM).
+ * Mantém só os maxDestinationsPerOrigin destinos mais fortes (renormalizados). Carga abaixo de
+ * gameLogic.DEFAULT_PICKUP_RANGE é retirada a pé (sem viagem) e vira viagens por DEFAULT_CARGO_CAPACITY.
+ */
+function distribute(buildings: Building[], purpose: TripPurpose, params: TripParams): ODEntry[] {
+    const kind: TripQuantity['kind'] = purpose === 'commute' ? 'workers' : 'goods';
+    const origins = buildings.filter(b => amountOf(b.supply, kind) > 0);
+    const dests = buildings.filter(b => amountOf(b.demand, kind) > 0);
+    const demand = dests.map(b => amountOf(b.demand, kind));
+    const mean = Math.max(1, params.meanTripM[purpose]);
+    const K = Math.max(1, params.maxDestinationsPerOrigin);
+    const pickupRange = purpose === 'goods' ? (config.gameLogic.DEFAULT_PICKUP_RANGE ?? 0) : 0;
+    const cargo = purpose === 'goods' ? Math.max(1e-6, config.gameLogic.DEFAULT_CARGO_CAPACITY ?? 1) : 1;
+
+    const out: ODEntry[] = [];
+    for (const o of origins) {
+        const supply = amountOf(o.supply, kind);
+        // top-K por atratividade (inserção ordenada; K é pequeno)
+        const top: Array<{ j: number; w: number; d: number }> = [];
+        for (let j = 0; j < dests.length; j++) {
+            const dj = dests[j];
+            if (dj === o) continue;
+            const d = dist(o.center, dj.center);
+            if (d < pickupRange) continue;
+            const w = demand[j] * Math.exp(-d / mean);
+            if (top.length === K && w <= top[K - 1].w) continue;
+            if (top.length < K) top.push({ j, w, d }); else top[K - 1] = { j, w, d };
+            for (let i = top.length - 1; i > 0 && top[i - 1].w < top[i].w; i--) {
+                const t = top[i]; top[i] = top[i - 1]; top[i - 1] = t;
+            }
+        }
+        const total = top.reduce((s, t) => s + t.w, 0);
+        if (total <= 0) continue;
+        for (const t of top) {
+            const trips = supply * (t.w / total) / cargo;
+            if (trips > 0) out.push({ origin: o, destination: dests[t.j], purpose, trips, distanceM: t.d });
+        }
+    }
+    return out;
+}
+
+/**
+ * Atribui oferta/demanda e gera a matriz OD (viagens/dia) para os motivos pedidos.
+ */
+export function generateTrips(buildings: Building[], purposes: TripPurpose[] = ['commute', 'goods'], params: TripParams = config.trips): ODMatrix {
+    assignSupplyDemand(buildings, params);
+    const totals: Record<TripPurpose, number> = { commute: 0, goods: 0 };
+    const entries: ODEntry[] = [];
+    for (const purpose of purposes) {
+        for (const e of distribute(buildings, purpose, params)) {
+            entries.push(e);
+            totals[purpose] += e.trips;
+        }
+    }
+    return { entries, totals };
+}
+
+/** CSV (uma linha por par OD) para análise externa; coordenadas em metros do mundo */
+export function odToCSV(matrix: ODMatrix): string {
+    const fmt = (v: number, digits: number) => Number(v.toFixed(digits)).toString();
+    const lines = ['origin_id,origin_type,destination_id,destination_type,purpose,trips,distance_m,origin_x,origin_y,destination_x,destination_y'];
+    for (const e of matrix.entries) {
+        lines.push([
+            e.origin.id, e.origin.type, e.destination.id, e.destination.type, e.purpose,
+            fmt(e.trips, 4), fmt(e.distanceM, 1),
+            fmt(e.origin.center.x, 2), fmt(e.origin.center.y, 2),
+            fmt(e.destination.center.x, 2), fmt(e.destination.center.y, 2),
+        ].join(','));
+    }
+    return lines.join('\n') + '\n';
+}
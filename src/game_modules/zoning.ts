@@ -1,9 +1,70 @@
 import { Noise } from 'noisejs';
 import type { Point } from '../generic_modules/math';
-import type { ZoneName } from './mapgen';
-import { heatmap } from './mapgen';
+import type { ZoneName, Heatmap } from './mapgen';
 import { config } from './config';
+import type { GenerationOptions } from './config';
 import { sampleWarpedNoise } from '../lib/noiseField';
+import type { Terrain } from './terrain';
+import Quadtree from '../lib/quadtree';
+import type { ZoneField } from './image_fields';
+import type { GeoJSONFeatureCollection, Position } from './geojson';
+
+const ZONE_NAMES: ZoneName[] = ['downtown', 'residential', 'commercial', 'industrial', 'rural'];
+
+/** Polígono de zona importado: rings[0] = contorno externo, demais = furos */
+export type GeoZonePolygon = {
+  zone: ZoneName | null;
+  properties: Record<string, any>;
+  rings: number[][][];
+  /** ordem no arquivo: em sobreposições vale o polígono que vem depois (desenhado por cima) */
+  order: number;
+};
+
+/** Resumo da importação (UI) */
+export type GeoZoneImport = {
+  polygons: number;
+  /** features ignoradas (geometria que não é Polygon/MultiPolygon ou sem anel válido) */
+  skipped: number;
+  /** polígonos cuja zona não foi reconhecida (usam a zona de fallback) */
+  unknownZone: number;
+  zones: Partial<Record<ZoneName, number>>;
+};
+
+/** Zonas pintadas à mão: células quadradas de cellM metros ([qx, qy, zona], qx = floor(x / cellM)) */
+export type ZoneOverrides = {
+  cellM: number;
+  cells: Array<[number, number, ZoneName]>;
+};
+
+/** Centro urbano ponderado; o CBD (cityCenter) tem weight = radiusScale = 1 */
+export type CityCenter = { x: number; y: number; weight: number; radiusScale: number; highways: number };
+
+type ZoningModel = GenerationOptions['zoningModel'];
+
+/** Centros do modelo: cityCenter e, com polycentric.enabled, subcentros e satélites válidos */
+export function cityCenters(model: ZoningModel): CityCenter[] {
+  const c = model.cityCenter;
+  const centers: CityCenter[] = [{ x: c.x, y: c.y, weight: 1, radiusScale: 1, highways: 1 }];
+  if (!model.polycentric?.enabled) return centers;
+  for (const k of model.polycentric.centers ?? []) {
+    if (!isFinite(k.x) || !isFinite(k.y) || !(k.radiusScale > 0)) continue;
+    centers.push({ x: k.x, y: k.y, weight: Math.max(0, Math.min(1, k.weight)), radiusScale: k.radiusScale, highways: Math.max(0, Math.round(k.highways)) });
+  }
+  return centers;
+}
+
+/**
+ * Distância radial combinada (na escala do CBD): min sobre os centros de d / radiusScale + (1 - weight) * spanM.
+ * spanM é a extensão das bandas do modo (ex.: 4 * rUnit), de modo que weight 0 cai na última banda.
+ */
+export function centerDistance(p: Point | { x: number; y: number }, model: ZoningModel, spanM: number): number {
+  let best = Infinity;
+  for (const c of cityCenters(model)) {
+    const d = Math.hypot(p.x - c.x, p.y - c.y) / c.radiusScale + (1 - c.weight) * spanM;
+    if (d < best) best = d;
+  }
+  return best;
+}
 
 export type ZoningParams = {
   baseScale: number;
@@ -13,10 +74,8 @@ export type ZoningParams = {
   thresholds: { r1: number; r2: number; r3: number; r4: number };
 };
 
-const Zoning = new (class {
-  private _noise: Noise | null = null;
-  private _seed: number | null = null;
-  private _params: ZoningParams = {
+/** Parâmetros do modo 'perlin' (também usados pelo overlay de ruído) */
+export const DEFAULT_ZONING_PARAMS: ZoningParams = {
   // Parâmetros mais "macro" para áreas mais coesas
   baseScale: 1 / 800,   // ruído mais largo => blocos maiores
   octaves: 3,           // menos detalhe fino
@@ -24,12 +83,65 @@ const Zoning = new (class {
   gain: 0.5,
   // Faixas mais separadas para distinguir usos do solo
   thresholds: { r1: 0.30, r2: 0.52, r3: 0.70, r4: 0.88 },
-  };
+};
+
+/**
+ * Zonas de um GeoJSON (Polygon/MultiPolygon, coordenadas em metros do mundo, zona na propriedade
+ * zoneProperty). Coleções exportadas pela própria cidade usam só a camada 'zone'.
+ */
+export function parseGeoZones(
+  fc: Pick<GeoJSONFeatureCollection, 'type' | 'features'>,
+  zoneProperty: string = config.zoningModel.geo?.zoneProperty ?? 'zone'
+): { polygons: GeoZonePolygon[]; summary: GeoZoneImport } {
+  const summary: GeoZoneImport = { polygons: 0, skipped: 0, unknownZone: 0, zones: {} };
+  let features = Array.isArray(fc.features) ? fc.features : [];
+  if (features.some(f => f?.properties?.layer !== undefined)) features = features.filter(f => f?.properties?.layer === 'zone');
+  const polys: GeoZonePolygon[] = [];
+  const validRing = (r: any) => Array.isArray(r) && r.length >= 3 && r.every((c: any) => Array.isArray(c) && isFinite(c[0]) && isFinite(c[1]));
+  for (const f of features) {
+    const g = f?.geometry;
+    const list: Position[][][] = g?.type === 'Polygon' ? [g.coordinates] : g?.type === 'MultiPolygon' ? g.coordinates : [];
+    const props = f?.properties || {};
+    const raw = props[zoneProperty];
+    const zone = ZONE_NAMES.includes(raw) ? (raw as ZoneName) : null;
+    let added = 0;
+    for (const rings of list || []) {
+      if (!Array.isArray(rings) || !validRing(rings[0])) continue;
+      polys.push({ zone, properties: props, rings: rings.filter(validRing), order: polys.length });
+      added++;
+      if (zone) summary.zones[zone] = (summary.zones[zone] ?? 0) + 1;
+      else summary.unknownZone++;
+    }
+    if (!added) summary.skipped++;
+  }
+  summary.polygons = polys.length;
+  return { polygons: polys, summary };
+}
+
+/**
+ * Zoneamento de uma geração (MapGenerationResult.zoning): ruído, modelo, zonas importadas/geradas,
+ * pintura e imagem de zonas. Lê rUnit do heatmap e água/encostas do terreno da mesma geração.
+ */
+export class Zoning {
+  private _noise: Noise;
+  private _seed: number;
+  private _model: GenerationOptions['zoningModel'];
+  private _params: ZoningParams = { ...DEFAULT_ZONING_PARAMS, thresholds: { ...DEFAULT_ZONING_PARAMS.thresholds } };
+  private _terrain: Terrain | null;
+  private _heatmap: Pick<Heatmap, 'rUnit'> | null;
   // Cache simples de zonas por coordenadas quantizadas (no domínio do ruído)
   private _cache: Map<string, ZoneName> = new Map();
   private _cacheMax = 200000; // limite para evitar crescimento indefinido
-  // Geo features opcionais
-  private _geoFeatures: Array<{ type: 'Polygon' | 'MultiPolygon'; properties?: Record<string, any>; coords: number[][][] }> | null = null;
+  // rUnit do heatmap com que o cache foi preenchido (a geração recalcula rUnit ao terminar as vias)
+  private _cacheRUnit = NaN;
+  // Geo features opcionais, indexadas por bbox
+  private _geoFeatures: GeoZonePolygon[] | null = null;
+  private _geoIndex: Quadtree<GeoZonePolygon> | null = null;
+  // Pintura de zonas (pincel do editor): consultada antes de qualquer modo
+  private _overrides: Map<string, ZoneName> = new Map();
+  private _overrideCellM = config.editor.paintCellM;
+  // Zonas desenhadas em PNG (image_fields.zoneField): depois da pintura, antes do modo
+  private _zoneImage: ZoneField | null = null;
 
   private _clearCache() { this._cache.clear(); }
   private _maybeEvict() {
@@ -39,11 +151,26 @@ const Zoning = new (class {
     }
   }
 
-  init(seed: number, params?: Partial<ZoningParams>) {
+  constructor(
+    seed: number,
+    model: GenerationOptions['zoningModel'] = config.zoningModel,
+    terrain: Terrain | null = null,
+    heatmap: Pick<Heatmap, 'rUnit'> | null = null,
+    params?: Partial<ZoningParams>
+  ) {
     this._seed = seed;
+    this._model = model;
     this._noise = new Noise(seed);
+    this._terrain = terrain;
+    this._heatmap = heatmap;
     if (params) this.setParams(params);
-  this._clearCache();
+  }
+
+  /** Troca a seed do ruído (overlay de ruído: reseed) */
+  setSeed(seed: number) {
+    this._seed = seed;
+    this._noise = new Noise(seed);
+    this._clearCache();
   }
 
   setParams(p: Partial<ZoningParams>) {
@@ -65,40 +192,124 @@ const Zoning = new (class {
   }
 
   getParams(): ZoningParams { return this._params; }
-  getNoise(): Noise | null { return this._noise; }
-  getSeed(): number | null { return this._seed; }
-  setGeoJSON(fc: { type: 'FeatureCollection'; features: any[] } | null) {
-    if (!fc) { this._geoFeatures = null; this._clearCache(); return; }
-    const feats: Array<{ type: 'Polygon' | 'MultiPolygon'; properties?: any; coords: number[][][] }> = [];
-    for (const f of fc.features || []) {
-      const g = f.geometry || {};
-      if (g.type === 'Polygon') {
-        feats.push({ type: 'Polygon', properties: f.properties || {}, coords: g.coordinates });
-      } else if (g.type === 'MultiPolygon') {
-        for (const poly of g.coordinates) {
-          feats.push({ type: 'Polygon', properties: f.properties || {}, coords: poly });
-        }
+  getNoise(): Noise { return this._noise; }
+  getSeed(): number { return this._seed; }
+  getModel(): GenerationOptions['zoningModel'] { return this._model; }
+  /** Zonas de polígonos (importados com parseGeoZones ou gerados no modo 'voronoi'); null remove */
+  setGeoZones(polys: GeoZonePolygon[] | null) {
+    this._geoFeatures = null;
+    this._geoIndex = null;
+    this._clearCache();
+    if (!polys || !polys.length) return;
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    const boxes = polys.map(p => {
+      let x0 = Infinity, y0 = Infinity, x1 = -Infinity, y1 = -Infinity;
+      for (const [x, y] of p.rings[0]) { x0 = Math.min(x0, x); y0 = Math.min(y0, y); x1 = Math.max(x1, x); y1 = Math.max(y1, y); }
+      minX = Math.min(minX, x0); minY = Math.min(minY, y0); maxX = Math.max(maxX, x1); maxY = Math.max(maxY, y1);
+      return { x: x0, y: y0, width: x1 - x0, height: y1 - y0, o: p };
+    });
+    this._geoIndex = new Quadtree<GeoZonePolygon>({ x: minX - 1, y: minY - 1, width: maxX - minX + 2, height: maxY - minY + 2 }, 10, 8);
+    boxes.forEach(b => this._geoIndex!.insert(b));
+    this._geoFeatures = polys;
+  }
+
+  hasGeoZones(): boolean { return !!this._geoFeatures; }
+  getGeoZones(): GeoZonePolygon[] | null { return this._geoFeatures; }
+
+  /**
+   * Pinta (zone) ou apaga (null) as células cujo centro fica a até radiusM de center.
+   * Devolve true se alguma célula mudou.
+   */
+  paint(center: Point, radiusM: number, zone: ZoneName | null): boolean {
+    const g = this._overrideCellM;
+    const r = Math.max(0, radiusM);
+    let changed = false;
+    for (let qx = Math.floor((center.x - r) / g); qx <= Math.floor((center.x + r) / g); qx++) {
+      for (let qy = Math.floor((center.y - r) / g); qy <= Math.floor((center.y + r) / g); qy++) {
+        if (Math.hypot((qx + 0.5) * g - center.x, (qy + 0.5) * g - center.y) > r) continue;
+        const key = `${qx}:${qy}`;
+        if (zone) {
+          if (this._overrides.get(key) === zone) continue;
+          this._overrides.set(key, zone);
+        } else if (!this._overrides.delete(key)) continue;
+        changed = true;
       }
     }
-    this._geoFeatures = feats;
+    // pincel menor que uma célula: pinta ao menos a célula sob o centro
+    if (!changed && r < g) {
+      const key = `${Math.floor(center.x / g)}:${Math.floor(center.y / g)}`;
+      if (zone && this._overrides.get(key) !== zone) { this._overrides.set(key, zone); changed = true; }
+      else if (!zone && this._overrides.delete(key)) changed = true;
+    }
+    if (changed) this._clearCache();
+    return changed;
+  }
+
+  /** Zona pintada em p (undefined fora da pintura) */
+  overrideAt(p: Point | { x: number; y: number }): ZoneName | undefined {
+    if (!this._overrides.size) return undefined;
+    const g = this._overrideCellM;
+    return this._overrides.get(`${Math.floor(p.x / g)}:${Math.floor(p.y / g)}`);
+  }
+
+  hasOverrides(): boolean { return this._overrides.size > 0; }
+
+  /** Zonas por cor de uma imagem (null remove); pixels sem zona caem no modo atual */
+  setZoneImage(field: ZoneField | null) {
+    this._zoneImage = field;
     this._clearCache();
   }
 
+  hasZoneImage(): boolean { return !!this._zoneImage; }
+  getZoneImage(): ZoneField | null { return this._zoneImage; }
+
+  /** Pintura atual (snapshot); null se não houver */
+  getOverrides(): ZoneOverrides | null {
+    if (!this._overrides.size) return null;
+    const cells: ZoneOverrides['cells'] = [];
+    this._overrides.forEach((zone, key) => {
+      const [qx, qy] = key.split(':').map(Number);
+      cells.push([qx, qy, zone]);
+    });
+    return { cellM: this._overrideCellM, cells };
+  }
+
+  /** Substitui a pintura (null limpa); células com zona desconhecida são ignoradas */
+  setOverrides(data: ZoneOverrides | null) {
+    this._overrides.clear();
+    this._overrideCellM = data && data.cellM > 0 ? data.cellM : config.editor.paintCellM;
+    for (const [qx, qy, zone] of data?.cells ?? []) {
+      if (ZONE_NAMES.includes(zone)) this._overrides.set(`${qx}:${qy}`, zone);
+    }
+    this._clearCache();
+  }
+
+  /** Zona do polígono importado que contém p (o último em sobreposições); null fora de todos */
+  private _geoZoneAt(p: Point): { zone: ZoneName | null } | null {
+    if (!this._geoIndex) return null;
+    let best: GeoZonePolygon | null = null;
+    for (const m of this._geoIndex.retrieve({ x: p.x, y: p.y, width: 0, height: 0 })) {
+      const f: GeoZonePolygon = m.o;
+      if (best && f.order < best.order) continue;
+      if (!pointInPolygon([p.x, p.y], f.rings[0])) continue;
+      if (f.rings.slice(1).some(hole => pointInPolygon([p.x, p.y], hole))) continue;
+      best = f;
+    }
+    return best;
+  }
+
   private _macroNoise(x: number, y: number): number {
-    const mn = config.zoningModel.macroNoise;
-    if (!this._noise) return 0;
+    const mn = this._model.macroNoise;
     return sampleWarpedNoise(this._noise, x * mn.baseScale, y * mn.baseScale, mn.octaves, mn.lacunarity, mn.gain) * 2 - 1; // [-1,1]
   }
 
   private _scoreProcedural(p: Point): Record<ZoneName, number> {
-    const c = config.zoningModel.cityCenter;
-    const dx = p.x - c.x, dy = p.y - c.y;
-    const d = Math.hypot(dx, dy);
-    const { downtownRadiusM: R0, innerRingRadiusM: R1, outerRingRadiusM: R2 } = config.zoningModel;
+    const { downtownRadiusM: R0, innerRingRadiusM: R1, outerRingRadiusM: R2 } = this._model;
+    const d = centerDistance(p, this._model, R2);
     // Bases radiais com transições suaves
     const s = (x: number) => 1 / (1 + Math.exp(-x));
     const k = 1 / 300; // dureza das bordas
-    const w = config.zoningModel.weights;
+    const w = this._model.weights;
     const n = this._macroNoise(p.x, p.y) * 300; // perturba borda em metros
     // Escores (sem normalizar, apenas relativos)
     const downtown = w.downtown * s((R0 - d + n) * k);
@@ -120,7 +331,16 @@ const Zoning = new (class {
   }
 
   zoneAt(p: Point | { x: number; y: number }): ZoneName {
-    if (!this._noise) return 'residential';
+    const painted = this.overrideAt(p);
+    if (painted) return painted;
+    const drawn = this._zoneImage?.zoneAt(p);
+    if (drawn) return drawn;
+    // bandas do modo 'heatmap' dependem de rUnit: zonas em cache com outro rUnit ficam inválidas
+    const rUnit = this._heatmap?.rUnit ?? 0;
+    if (rUnit !== this._cacheRUnit) {
+      this._clearCache();
+      this._cacheRUnit = rUnit;
+    }
     // Cache em grade world-space mais grossa para procedural (metros)
     const grid = 64; // 64m por célula
     const qx = Math.floor(p.x / grid);
@@ -128,41 +348,42 @@ const Zoning = new (class {
     const key = `${qx}:${qy}`;
     const cached = this._cache.get(key);
     if (cached) return cached;
+    // classificar no centro da célula: o valor em cache não depende de qual ponto a consultou primeiro
+    const c: Point = { x: (qx + 0.5) * grid, y: (qy + 0.5) * grid };
 
     let z: ZoneName;
-  if (config.zoningModel.mode === 'concentric') {
+  if (this._model.mode === 'concentric') {
       // Classificação por anéis concêntricos: downtown -> residential -> industrial -> rural
-      const c = config.zoningModel.cityCenter;
-      const dx = (p as Point).x - c.x;
-      const dy = (p as Point).y - c.y;
-      const d = Math.hypot(dx, dy);
-      const R = config.zoningModel.concentricRadiiM;
+      const R = this._model.concentricRadiiM;
+      const d = centerDistance(c, this._model, R.rural);
       if (d <= R.downtown) z = 'downtown';
       else if (d <= R.residential) z = 'residential';
       else if (d <= R.industrial) z = 'industrial';
       else z = 'rural';
-  } else if (config.zoningModel.mode === 'perlin') {
+  } else if (this._model.mode === 'perlin') {
       const { baseScale, octaves, lacunarity, gain, thresholds } = this._params;
-      const n = sampleWarpedNoise(this._noise, p.x * baseScale, p.y * baseScale, octaves, lacunarity, gain);
+      const n = sampleWarpedNoise(this._noise, c.x * baseScale, c.y * baseScale, octaves, lacunarity, gain);
       if (n < thresholds.r1) z = 'rural';
       else if (n < thresholds.r2) z = 'residential';
       else if (n < thresholds.r3) z = 'commercial';
       else if (n < thresholds.r4) z = 'industrial';
       else z = 'downtown';
-  } else if (config.zoningModel.mode === 'geo' && this._geoFeatures) {
-      // Simplificação: usa propriedade `zone` no GeoJSON; fallback para perlin
-      const hit = this._geoFeatures.find(f => pointInPolygon([p.x, p.y], f.coords[0]));
-      z = (hit?.properties?.zone as ZoneName) || 'residential';
-    } else if (config.zoningModel.mode === 'heatmap') {
+  } else if ((this._model.mode === 'geo' || this._model.mode === 'voronoi') && this._geoFeatures) {
+      const hit = this._geoZoneAt(c);
+      if (hit?.zone) z = hit.zone;
+      else {
+        const fallback = this._model.geo?.fallbackZone ?? 'rural';
+        z = fallback === 'procedural' ? this._classify(this._scoreProcedural(c)) : fallback;
+      }
+    } else if (this._model.mode === 'heatmap') {
     // Mapear por 5 bandas de distância usando R = rUnit
     // R1: [0, R) => downtown
     // R2: [R, 2R) => commercial
     // R3: [2R, 3R) => residential
     // R4: [3R, 4R) => industrial
     // R5: [4R, +inf) => rural
-    const c = config.zoningModel.cityCenter;
-    const R = Math.max(200, (heatmap as any).rUnit || 3000);
-    const d = Math.hypot(p.x - c.x, p.y - c.y);
+    const R = Math.max(200, this._heatmap?.rUnit || 3000);
+    const d = centerDistance(c, this._model, 4 * R);
     if (d < R) z = 'downtown';
     else if (d < 2 * R) z = 'commercial';
     else if (d < 3 * R) z = 'residential';
@@ -170,16 +391,18 @@ const Zoning = new (class {
     else z = 'rural';
     } else {
       // Procedural radial + macro-noise
-      const scores = this._scoreProcedural(p as Point);
+      const scores = this._scoreProcedural(c);
       z = this._classify(scores);
     }
+    // Terreno: água e encostas acima da rampa máxima das vias ficam sem urbanização (rural)
+    const terrain = this._terrain;
+    if (terrain?.isEnabled() && (terrain.isWater(c) || terrain.gradeAt(c) > terrain.getParams().maxGrade)) z = 'rural';
     this._cache.set(key, z);
     this._maybeEvict();
     return z;
   }
-})();
+}
 
-export default Zoning;
 
 // Teste de ponto-em-polígono (ray casting)
 function pointInPolygon(pt: [number, number], poly: number[][]): boolean {
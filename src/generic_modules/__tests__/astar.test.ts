@@ -0,0 +1,136 @@
+import type { Point } from '../math';
+import { Segment, RoadClass } from '../../game_modules/mapgen';
+import type { RoadSpec } from '../../game_modules/mapgen';
+import { config, generationOptions } from '../../game_modules/config';
+import { PathLocation, findRoute, findRoutes, routePolyline } from '../astar';
+
+type Edge = { from: Point; to: Point; roadClass?: RoadClass; oneWay?: boolean };
+
+/** Malha a partir de arestas, com links.b/links.f refeitos pela geometria */
+const network = (edges: Edge[], spec: RoadSpec = config): Segment[] => {
+    const segments = edges.map(e => new Segment(e.from, e.to, 0, { roadClass: e.roadClass ?? RoadClass.LOCAL, oneWay: e.oneWay }, spec));
+    const same = (a: Point, b: Point) => a.x === b.x && a.y === b.y;
+    const at = (p: Point, s: Segment) => segments.filter(o => o !== s && (same(o.r.start, p) || same(o.r.end, p)));
+    segments.forEach(s => {
+        s.links.b = at(s.r.start, s);
+        s.links.f = at(s.r.end, s);
+    });
+    return segments;
+};
+
+/** Grade n x n de vias locais com espaçamento de 100 m */
+const grid = (n: number): Segment[] => {
+    const edges: Edge[] = [];
+    for (let i = 0; i < n; i++) {
+        for (let j = 0; j < n; j++) {
+            if (i + 1 < n) edges.push({ from: { x: 100 * i, y: 100 * j }, to: { x: 100 * (i + 1), y: 100 * j } });
+            if (j + 1 < n) edges.push({ from: { x: 100 * i, y: 100 * j }, to: { x: 100 * i, y: 100 * (j + 1) } });
+        }
+    }
+    return network(edges);
+};
+
+const find = (segments: Segment[], from: Point, to: Point) =>
+    segments.find(s => s.r.start.x === from.x && s.r.start.y === from.y && s.r.end.x === to.x && s.r.end.y === to.y)!;
+
+const noTurns = { ...config.routing.profiles.driving, turnPenaltyS: 0 };
+const localSpeed = config.roadClasses.local.maxSpeedKmh / 3.6;
+
+describe('findRoute', () => {
+    it('finds the shortest path on a grid', () => {
+        const segments = grid(4);
+        const start = new PathLocation(find(segments, { x: 0, y: 0 }, { x: 100, y: 0 }), 0);
+        const end = new PathLocation(find(segments, { x: 200, y: 300 }, { x: 300, y: 300 }), 1);
+        const route = findRoute(start, end, { profile: noTurns });
+        expect(route.found).toBe(true);
+        expect(route.lengthM).toBeCloseTo(600);
+        expect(route.costS).toBeCloseTo(600 / localSpeed);
+        const line = routePolyline(route);
+        expect(line[0]).toEqual({ x: 0, y: 0 });
+        expect(line[line.length - 1]).toEqual({ x: 300, y: 300 });
+    });
+
+    it('stays admissible with the class table of the generation', () => {
+        // pista rápida em desvio x via direta: a heurística com a tabela do config (100 km/h) superestima o desvio
+        const spec = generationOptions({ roadClasses: { motorway: { maxSpeedKmh: 200 }, local: { maxSpeedKmh: 144 } } });
+        const S = { x: 0, y: 0 }, T = { x: 1000, y: 0 }, P = { x: 500, y: 300 };
+        const segments = network([
+            { from: { x: -10, y: 0 }, to: S },
+            { from: S, to: T },
+            { from: S, to: P, roadClass: RoadClass.MOTORWAY },
+            { from: P, to: T, roadClass: RoadClass.MOTORWAY },
+            { from: T, to: { x: 1010, y: 0 } },
+        ], spec);
+        const start = new PathLocation(segments[0], 0), end = new PathLocation(segments[4], 1);
+        const route = findRoute(start, end, { profile: noTurns, roadClasses: spec.roadClasses });
+        expect(route.segments).toEqual([segments[0], segments[2], segments[3], segments[4]]);
+    });
+
+    it('avoids turns when they carry a penalty', () => {
+        // em frente por uma viela lenta x contorno mais rápido com quatro conversões de 90°
+        const segments = network([
+            { from: { x: -100, y: 0 }, to: { x: 0, y: 0 } },
+            { from: { x: 0, y: 0 }, to: { x: 300, y: 0 }, roadClass: RoadClass.ALLEY },
+            { from: { x: 0, y: 0 }, to: { x: 0, y: 100 } },
+            { from: { x: 0, y: 100 }, to: { x: 300, y: 100 } },
+            { from: { x: 300, y: 100 }, to: { x: 300, y: 0 } },
+            { from: { x: 300, y: 0 }, to: { x: 400, y: 0 } },
+        ]);
+        const start = new PathLocation(segments[0], 1), end = new PathLocation(segments[5], 0);
+        expect(findRoute(start, end, { profile: noTurns }).segments).toEqual([segments[0], segments[2], segments[3], segments[4], segments[5]]);
+        expect(findRoute(start, end, { profile: 'driving' }).segments).toEqual([segments[0], segments[1], segments[5]]);
+    });
+
+    it('rejects one-way streets against traffic when driving, not when walking', () => {
+        // a junção em (100, 0) só recebe mãos únicas de chegada
+        const segments = network([
+            { from: { x: 0, y: 0 }, to: { x: 100, y: 0 } },
+            { from: { x: 200, y: 0 }, to: { x: 100, y: 0 }, oneWay: true },
+            { from: { x: 100, y: 100 }, to: { x: 100, y: 0 }, oneWay: true },
+        ]);
+        const start = new PathLocation(segments[0], 0), end = new PathLocation(segments[1], 0.5);
+        const driving = findRoute(start, end, { profile: 'driving' });
+        expect(driving.found).toBe(false);
+        expect(driving.reason).toBe('unreachable');
+        const walking = findRoute(start, end, { profile: 'walking' });
+        expect(walking.found).toBe(true);
+        expect(walking.lengthM).toBeCloseTo(150);
+        expect(walking.costS).toBeCloseTo(150 / config.routing.profiles.walking.speedMps);
+    });
+
+    it('keeps pedestrians off motorways', () => {
+        const segments = network([
+            { from: { x: -100, y: 0 }, to: { x: 0, y: 0 } },
+            { from: { x: 0, y: 0 }, to: { x: 500, y: 0 }, roadClass: RoadClass.MOTORWAY },
+            { from: { x: 0, y: 0 }, to: { x: 0, y: 200 } },
+            { from: { x: 0, y: 200 }, to: { x: 500, y: 200 } },
+            { from: { x: 500, y: 200 }, to: { x: 500, y: 0 } },
+            { from: { x: 500, y: 0 }, to: { x: 600, y: 0 } },
+        ]);
+        const start = new PathLocation(segments[0], 0), end = new PathLocation(segments[5], 1);
+        expect(findRoute(start, end, { profile: 'driving' }).segments).toContain(segments[1]);
+        expect(findRoute(start, end, { profile: 'walking' }).segments).not.toContain(segments[1]);
+    });
+
+    it('reports the expansion limit', () => {
+        const segments = grid(4);
+        const start = new PathLocation(find(segments, { x: 0, y: 0 }, { x: 100, y: 0 }), 0);
+        const end = new PathLocation(find(segments, { x: 200, y: 300 }, { x: 300, y: 300 }), 1);
+        const route = findRoute(start, end, { maxExpansions: 2 });
+        expect(route.found).toBe(false);
+        expect(route.reason).toBe('limit');
+    });
+});
+
+describe('findRoutes', () => {
+    it('returns k distinct alternatives from best to worst', () => {
+        const segments = grid(4);
+        const start = new PathLocation(find(segments, { x: 0, y: 0 }, { x: 100, y: 0 }), 0);
+        const end = new PathLocation(find(segments, { x: 200, y: 300 }, { x: 300, y: 300 }), 1);
+        const routes = findRoutes(start, end, 3, { profile: noTurns });
+        expect(routes.length).toBe(3);
+        expect(routes[0].costS).toBeCloseTo(findRoute(start, end, { profile: noTurns }).costS);
+        routes.slice(1).forEach((r, i) => expect(r.costS).toBeGreaterThanOrEqual(routes[i].costS));
+        expect(new Set(routes.map(r => r.segments.map(s => segments.indexOf(s)).join(','))).size).toBe(3);
+    });
+});
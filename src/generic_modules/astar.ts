@@ -1,65 +1,248 @@
 import * as util from './utility';
-import HashMap from 'hashmap'; // Assuming 'hashmap' package is used.
-import { Segment } from '../game_modules/mapgen'; // This will be created later
+import * as math from './math';
+import type { Point } from './math';
+import type { Segment } from '../game_modules/mapgen';
+import { config } from '../game_modules/config';
+import type { GenerationOptions } from '../game_modules/config';
+
+// Roteador A* sobre Segment (estado = trecho + sentido de percurso), com heurística de tempo
+// (distância euclidiana / maior velocidade possível), penalidade de conversão, mão única,
+// perfis de deslocamento (config.routing.profiles) e alternativas por penalização das vias já usadas.
 
 export class PathLocation {
-    constructor(public o: any, public fraction: number) {}
+    constructor(public o: Segment, public fraction: number) {}
 }
 
-function cost(current: any, next: any, start: PathLocation, end: PathLocation): number {
-    let currentFraction: number | undefined = undefined;
-    let nextFraction: number | undefined = undefined;
-    if (start.o === end.o) {
-        const fraction = Math.abs(start.fraction - end.fraction);
-        return fraction * (current as Segment).cost();
-    } else {
-        if (current === start.o) {
-            currentFraction = start.fraction;
-        }
-        if (next === end.o) {
-            nextFraction = end.fraction;
-        }
-        return (current as Segment).costTo(next, currentFraction) + (next as Segment).costTo(current, nextFraction);
+export type RouteProfile = typeof config.routing.profiles.driving;
+export type RouteProfileName = keyof typeof config.routing.profiles;
+
+/** Sentido de percurso no trecho: 1 = r.start -> r.end, -1 = r.end -> r.start */
+export type TravelDirection = 1 | -1;
+
+export type NoRouteReason = 'unreachable' | 'limit';
+
+export interface Route {
+    found: boolean;
+    /** motivo quando found = false */
+    reason?: NoRouteReason;
+    segments: Segment[];
+    /** sentido de percurso de cada trecho de segments */
+    directions: TravelDirection[];
+    /** custo total (s), com penalidades de conversão */
+    costS: number;
+    lengthM: number;
+    start: PathLocation;
+    end: PathLocation;
+}
+
+export interface RouteOptions {
+    profile?: RouteProfileName | RouteProfile;
+    /** multiplicador de custo por trecho (usado nas alternativas) */
+    penalties?: Map<Segment, number>;
+    maxExpansions?: number;
+    /** tabela de classes usada na geração da malha (limita a velocidade da heurística); padrão config.roadClasses */
+    roadClasses?: GenerationOptions['roadClasses'];
+}
+
+interface SearchNode {
+    segment: Segment;
+    dir: TravelDirection;
+    /** custo (com penalidades de alternativas) até a saída do trecho, ou até end no nó final */
+    g: number;
+    /** custo real correspondente */
+    costS: number;
+    lengthM: number;
+    prev: SearchNode | null;
+    /** nó final: chegou a end.fraction em segment */
+    goal: boolean;
+}
+
+const resolveProfile = (profile: RouteOptions['profile']): RouteProfile =>
+    typeof profile === 'object' ? profile : (config.routing.profiles[profile ?? 'driving'] ?? config.routing.profiles.driving);
+
+/** Velocidade (m/s) do perfil no trecho */
+const speedOn = (segment: Segment, profile: RouteProfile): number => {
+    if (profile.speedMps > 0) return profile.speedMps;
+    return Math.max(1e-3, profile.useTrafficSpeed ? segment.currentSpeed() : segment.maxSpeed);
+};
+
+/** Maior velocidade possível no perfil (mantém a heurística admissível) */
+const topSpeed = (profile: RouteProfile, roadClasses: GenerationOptions['roadClasses']): number => {
+    if (profile.speedMps > 0) return profile.speedMps;
+    return Math.max(1e-3, ...Object.values(roadClasses).map(rc => rc.maxSpeedKmh / 3.6));
+};
+
+const allowed = (segment: Segment, dir: TravelDirection, profile: RouteProfile): boolean =>
+    !(profile.respectOneWay && segment.oneWay && dir === -1);
+
+/** Ponto onde o percurso sai do trecho */
+const exitPoint = (segment: Segment, dir: TravelDirection): Point => (dir === 1 ? segment.r.end : segment.r.start);
+
+/** Penalidade (s) ao passar de `from` (sentido df) para `to` (sentido dt) */
+const turnCost = (from: Segment, df: TravelDirection, to: Segment, dt: TravelDirection, profile: RouteProfile): number => {
+    if (!profile.turnPenaltyS) return 0;
+    const ax = (from.r.end.x - from.r.start.x) * df, ay = (from.r.end.y - from.r.start.y) * df;
+    const bx = (to.r.end.x - to.r.start.x) * dt, by = (to.r.end.y - to.r.start.y) * dt;
+    const la = Math.hypot(ax, ay), lb = Math.hypot(bx, by);
+    if (la < 1e-9 || lb < 1e-9) return 0;
+    const cos = Math.max(-1, Math.min(1, (ax * bx + ay * by) / (la * lb)));
+    const deg = Math.acos(cos) * 180 / Math.PI;
+    if (deg <= profile.straightToleranceDeg) return 0;
+    return profile.turnPenaltyS * deg / 90;
+};
+
+/** Local (trecho + fração) mais próximo de p entre os candidatos; null se nenhum estiver a até maxDistanceM */
+export function locate(p: Point, candidates: Segment[], maxDistanceM: number = Infinity, profile?: RouteProfileName | RouteProfile): PathLocation | null {
+    const prof = profile ? resolveProfile(profile) : null;
+    let best: PathLocation | null = null;
+    let bestD = maxDistanceM;
+    for (const s of candidates) {
+        if (prof && prof.excludedClasses.includes(s.roadClass)) continue;
+        const ax = s.r.start.x, ay = s.r.start.y;
+        const vx = s.r.end.x - ax, vy = s.r.end.y - ay;
+        const L2 = vx * vx + vy * vy;
+        const t = L2 > 1e-9 ? Math.max(0, Math.min(1, ((p.x - ax) * vx + (p.y - ay) * vy) / L2)) : 0;
+        const d = Math.hypot(ax + vx * t - p.x, ay + vy * t - p.y);
+        if (d < bestD) { bestD = d; best = new PathLocation(s, t); }
     }
+    return best;
 }
 
-export function findPath(start: PathLocation, end: PathLocation): any[] {
-    const frontier = new util.PriorityQueue<any>();
-    frontier.put(start.o, 0);
+/**
+ * Rota de menor custo entre dois pontos da malha. Nunca lança: sem caminho => found = false com reason.
+ * Trechos de início/fim são aceitos mesmo se o perfil excluir sua classe (o agente já está neles).
+ */
+export function findRoute(start: PathLocation, end: PathLocation, options: RouteOptions = {}): Route {
+    const profile = resolveProfile(options.profile);
+    const penalties = options.penalties;
+    const maxExpansions = options.maxExpansions ?? config.routing.maxExpansions;
+    const vmax = topSpeed(profile, options.roadClasses ?? config.roadClasses);
+    const goalPoint = math.fractionBetween(end.o.r.start, end.o.r.end, end.fraction);
+    const heuristic = (p: Point) => math.length(p, goalPoint) / vmax;
+    const traverse = (s: Segment, portion: number) => {
+        const costS = portion * s.length() / speedOn(s, profile);
+        return { costS, g: costS * (penalties?.get(s) ?? 1), lengthM: portion * s.length() };
+    };
+
+    const frontier = new util.PriorityQueue<SearchNode>();
+    const best: [Map<Segment, number>, Map<Segment, number>] = [new Map(), new Map()];
+    const slot = (dir: TravelDirection) => best[dir === 1 ? 0 : 1];
 
-    const came_from = new HashMap<any, any>();
-    came_from.set(start.o, null);
+    const push = (segment: Segment, dir: TravelDirection, prev: SearchNode | null, extraCostS: number, portion: number, goal: boolean) => {
+        const t = traverse(segment, portion);
+        const node: SearchNode = {
+            segment, dir, goal, prev,
+            g: (prev ? prev.g : 0) + extraCostS + t.g,
+            costS: (prev ? prev.costS : 0) + extraCostS + t.costS,
+            lengthM: (prev ? prev.lengthM : 0) + t.lengthM,
+        };
+        if (goal) {
+            frontier.put(node, node.g);
+            return;
+        }
+        const known = slot(dir).get(segment);
+        if (known !== undefined && known <= node.g) return;
+        slot(dir).set(segment, node.g);
+        frontier.put(node, node.g + heuristic(exitPoint(segment, dir)));
+    };
 
-    const cost_so_far = new HashMap<any, number>();
-    cost_so_far.set(start.o, 0);
+    // início: parte de start.fraction em qualquer sentido permitido
+    const s0 = start.o;
+    ([1, -1] as TravelDirection[]).forEach(dir => {
+        if (!allowed(s0, dir, profile)) return;
+        if (s0 === end.o) {
+            const forward = end.fraction >= start.fraction;
+            if ((dir === 1) === forward || end.fraction === start.fraction) {
+                push(s0, dir, null, 0, Math.abs(end.fraction - start.fraction), true);
+            }
+        }
+        push(s0, dir, null, 0, dir === 1 ? 1 - start.fraction : start.fraction, false);
+    });
 
+    let expansions = 0;
     while (frontier.length() > 0) {
-        const current = frontier.get();
+        const current = frontier.get()!;
+        if (current.goal) return buildRoute(current, start, end);
+        if (current.g > (slot(current.dir).get(current.segment) ?? Infinity)) continue;
+        if (++expansions > maxExpansions) return noRoute('limit', start, end);
 
-        if (current === end.o) {
-            break;
+        const seg = current.segment;
+        const p = exitPoint(seg, current.dir);
+        let connected = false;
+        for (const next of seg.neighbours()) {
+            const dir: TravelDirection | 0 = math.equalV(next.r.start, p) ? 1 : (math.equalV(next.r.end, p) ? -1 : 0);
+            if (!dir || !allowed(next, dir, profile)) continue;
+            const turn = turnCost(seg, current.dir, next, dir, profile);
+            if (next === end.o) push(next, dir, current, turn, dir === 1 ? end.fraction : 1 - end.fraction, true);
+            if (next !== end.o && profile.excludedClasses.includes(next.roadClass)) continue;
+            connected = true;
+            push(next, dir, current, turn, 1, false);
         }
+        // sem saída utilizável (via sem saída, só contramão ou classes excluídas): retorno no mesmo trecho
+        const back: TravelDirection = current.dir === 1 ? -1 : 1;
+        if (!connected && allowed(seg, back, profile)) {
+            if (seg === end.o) push(seg, back, current, profile.uTurnPenaltyS, back === 1 ? end.fraction : 1 - end.fraction, true);
+            push(seg, back, current, profile.uTurnPenaltyS, 1, false);
+        }
+    }
+    return noRoute('unreachable', start, end);
+}
 
-        for (const next of (current as Segment).neighbours()) {
-            const new_cost = (cost_so_far.get(current) || 0) + cost(current, next, start, end);
-            if (!cost_so_far.has(next) || new_cost < (cost_so_far.get(next) || Infinity)) {
-                cost_so_far.set(next, new_cost);
-                const priority = new_cost; // + heuristic(goal, next)
-                frontier.put(next, priority);
-                came_from.set(next, current);
-            }
+function noRoute(reason: NoRouteReason, start: PathLocation, end: PathLocation): Route {
+    return { found: false, reason, segments: [], directions: [], costS: Infinity, lengthM: 0, start, end };
+}
+
+function buildRoute(goal: SearchNode, start: PathLocation, end: PathLocation): Route {
+    const segments: Segment[] = [];
+    const directions: TravelDirection[] = [];
+    for (let n: SearchNode | null = goal; n; n = n.prev) {
+        // retorno em via sem saída repete o trecho; um único item basta para quem percorre a lista
+        if (segments.length && segments[0] === n.segment) {
+            directions[0] = n.dir;
+            continue;
         }
+        segments.unshift(n.segment);
+        directions.unshift(n.dir);
     }
+    return { found: true, segments, directions, costS: goal.costS, lengthM: goal.lengthM, start, end };
+}
 
-    console.log(`path cost: ${cost_so_far.get(end.o)}`);
-    
-    // reconstruct path
-    let current = end.o;
-    const path = [current];
-    while (current !== start.o) {
-        current = came_from.get(current);
-        path.unshift(current);
+/**
+ * Até k rotas distintas, da melhor para a pior (custo real). A cada rodada as vias da rota anterior ficam
+ * alternativePenalty vezes mais caras; rotas repetidas ou muito sobrepostas às já aceitas são descartadas.
+ * Lista vazia => sem rota.
+ */
+export function findRoutes(start: PathLocation, end: PathLocation, k: number = config.routing.alternatives, options: RouteOptions = {}): Route[] {
+    const penalties = new Map<Segment, number>(options.penalties ?? []);
+    const routes: Route[] = [];
+    for (let round = 0; round < k * 3 && routes.length < k; round++) {
+        const route = findRoute(start, end, { ...options, penalties });
+        if (!route.found) break;
+        route.segments.forEach(s => penalties.set(s, (penalties.get(s) ?? 1) * config.routing.alternativePenalty));
+        const used = new Set(route.segments);
+        const overlaps = routes.some(r => {
+            const shared = r.segments.reduce((sum, s) => sum + (used.has(s) ? s.length() : 0), 0);
+            return shared > config.routing.maxAlternativeOverlap * Math.max(1e-9, route.lengthM);
+        });
+        if (!overlaps) routes.push(route);
     }
+    return routes.sort((a, b) => a.costS - b.costS);
+}
 
-    return path;
-}
\ No newline at end of file
+/** Trechos da rota de carro (lista vazia se não houver caminho) */
+export function findPath(start: PathLocation, end: PathLocation, profile: RouteProfileName | RouteProfile = 'driving'): Segment[] {
+    return findRoute(start, end, { profile }).segments;
+}
+
+/** Pontos da rota no mundo: posição inicial, junções percorridas e posição final */
+export function routePolyline(route: Route): Point[] {
+    if (!route.found || !route.segments.length) return [];
+    const at = (loc: PathLocation) => math.fractionBetween(loc.o.r.start, loc.o.r.end, loc.fraction);
+    const points = [at(route.start)];
+    for (let i = 0; i < route.segments.length - 1; i++) {
+        const s = route.segments[i];
+        points.push(route.directions[i] === 1 ? s.r.end : s.r.start);
+    }
+    points.push(at(route.end));
+    return points.map(p => ({ x: p.x, y: p.y }));
+}
@@ -111,8 +111,11 @@ export function atanDegrees(val: number): number {
     return Math.atan(val) * 180 / Math.PI;
 }
 
-export function randomRange(min: number, max: number): number {
-    return Math.random() * (max - min) + min;
+// Gerador pseudoaleatório injetável (mesma assinatura de Math.random)
+export type RNG = () => number;
+
+export function randomRange(min: number, max: number, rng: RNG = Math.random): number {
+    return rng() * (max - min) + min;
 }
 
 export function multVScalar(v: Point, n: number): Point {
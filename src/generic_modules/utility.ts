@@ -1,4 +1,6 @@
 import * as _ from 'lodash';
+import seedrandom from 'seedrandom';
+import type { RNG } from './math';
 
 export function defaultFor<T>(arg: T | undefined, val: T, deep = false): T {
     const argCopy = deep ? _.cloneDeep(arg) : arg;
@@ -6,6 +8,11 @@ export function defaultFor<T>(arg: T | undefined, val: T, deep = false): T {
     return typeof arg !== 'undefined' ? argCopy as T : valCopy;
 }
 
+// Fluxo pseudoaleatório local derivado da seed (não substitui Math.random global)
+export function seededRNG(seed: string | number): RNG {
+    return seedrandom(seed.toString());
+}
+
 export function joinArrayGeneric<T>(array: T[], joinElement: T): T[] {
     const copy = array.slice(0);
     for (let i = 1; i < copy.length * 2 - 1; i += 2) {
@@ -60,26 +67,52 @@ export function extendedMax<T>(collection: _.List<T> | null | undefined, selecto
     return [maxObj, maxObj_i];
 }
 
+// Heap binário; empates saem na ordem de inserção (seq), como na antiga lista ordenada
 export class PriorityQueue<T> {
-    private list: { item: T; priority: number }[] = [];
+    private heap: { item: T; priority: number; seq: number }[] = [];
+    private seq = 0;
 
-    put(item: T, priority: number): void {
-        const newPair = { item, priority };
+    private less(i: number, j: number): boolean {
+        const a = this.heap[i], b = this.heap[j];
+        return a.priority < b.priority || (a.priority === b.priority && a.seq < b.seq);
+    }
 
-        const index = _.findIndex(this.list, (pair) => pair.priority > newPair.priority);
-        if (index === -1) {
-            this.list.push(newPair);
-        } else {
-            this.list.splice(index, 0, newPair);
+    private swap(i: number, j: number): void {
+        const t = this.heap[i]; this.heap[i] = this.heap[j]; this.heap[j] = t;
+    }
+
+    put(item: T, priority: number): void {
+        this.heap.push({ item, priority, seq: this.seq++ });
+        let i = this.heap.length - 1;
+        while (i > 0) {
+            const parent = (i - 1) >> 1;
+            if (!this.less(i, parent)) break;
+            this.swap(i, parent);
+            i = parent;
         }
     }
 
     get(): T | undefined {
-        const pair = this.list.shift();
-        return pair?.item;
+        if (!this.heap.length) return undefined;
+        const top = this.heap[0];
+        const last = this.heap.pop()!;
+        if (this.heap.length) {
+            this.heap[0] = last;
+            let i = 0;
+            for (;;) {
+                const l = 2 * i + 1, r = l + 1;
+                let m = i;
+                if (l < this.heap.length && this.less(l, m)) m = l;
+                if (r < this.heap.length && this.less(r, m)) m = r;
+                if (m === i) break;
+                this.swap(i, m);
+                i = m;
+            }
+        }
+        return top.item;
     }
 
     length(): number {
-        return this.list.length;
+        return this.heap.length;
     }
 }
\ No newline at end of file
@@ -32,6 +32,11 @@ export default class Quadtree<T = any> {
     return list as Array<{ o: T } & NodeObj>;
   }
 
+  /** Remove as entradas de `o`; bounds deve ser o mesmo usado na inserção ou estar contido nele */
+  remove(bounds: Bounds, o: T): number {
+    return this.qt.remove({ x: bounds.x, y: bounds.y, w: bounds.width, h: bounds.height, o }, 'o');
+  }
+
   clear(): void {
     this.qt.clear();
   }
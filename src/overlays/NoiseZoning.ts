@@ -12,11 +12,12 @@
  */
 import { ZoneName } from '../game_modules/mapgen';
 import { config } from '../game_modules/config';
-import Zoning from '../game_modules/zoning';
+import { DEFAULT_ZONING_PARAMS } from '../game_modules/zoning';
 import { Noise } from 'noisejs';
 import { sampleWarpedNoise } from '../lib/noiseField';
 import MapStore from '../stores/MapStore';
 import * as math from '../generic_modules/math';
+import * as util from '../generic_modules/utility';
 
 
 const bilerp = (v00: number, v10: number, v01: number, v11: number, tx: number, ty: number) => {
@@ -105,11 +106,11 @@ const NoiseZoning: InternalNoiseZoning = {
   _baseCanvas: null,
   _overlayCanvas: null,
   _ctx: null,
-  _seed: Math.floor(Math.random() * 10000),
+  _seed: 0, // sincronizado com Zoning (derivado da seed do mapa) em attach/map-generated
   _noise: null,
   _observer: null,
   _view: { cameraX: 0, cameraY: 0, zoom: 1 },
-  _params: Zoning.getParams(),
+  _params: JSON.parse(JSON.stringify(DEFAULT_ZONING_PARAMS)),
   _pixelCache: null,
   _contourCache: null as null | { key: string; contours: number[][][] },
   _showIntersectionOutline: false,
@@ -159,11 +160,11 @@ const NoiseZoning: InternalNoiseZoning = {
     }
     this._overlayCanvas = overlay;
     this._ctx = overlay.getContext('2d');
-    // Sincronizar com Zoning do jogo, se existir
-    const zSeed = Zoning.getSeed();
-    if (zSeed != null) {
-      this._seed = zSeed;
-      this._params = Zoning.getParams();
+    // Sincronizar com o zoneamento do mapa atual, se existir
+    const zoning = MapStore.getZoning();
+    if (zoning) {
+      this._seed = zoning.getSeed();
+      this._params = zoning.getParams();
     }
   this._noise = new Noise(this._seed);
   // inicializar threshold padrão
@@ -189,9 +190,11 @@ const NoiseZoning: InternalNoiseZoning = {
           try {
             const detail = (ev as CustomEvent<{ seed?: number }>).detail;
             if (detail && typeof detail.seed === 'number') {
-              this._seed = detail.seed;
+              // Usar a seed de ruído do zoneamento (derivada da seed do mapa) para casar overlay e zonas
+              const zoning = MapStore.getZoning();
+              this._seed = zoning?.getSeed() ?? detail.seed;
               this._noise = new Noise(this._seed);
-              try { this._params = Zoning.getParams(); } catch (e) {}
+              if (zoning) this._params = zoning.getParams();
 
               // Invalidate caches and prepare a temporary canvas if needed.
               this._pixelCache = null;
@@ -287,10 +290,11 @@ const NoiseZoning: InternalNoiseZoning = {
   },
 
   reseed() {
-    this._seed = Math.floor(Math.random() * 10000);
+    // Próxima seed derivada da atual: a sequência de reseeds é reproduzível a partir do mapa
+    this._seed = Math.floor(util.seededRNG(`${this._seed}:reseed`)() * 10000);
     this._noise = new Noise(this._seed);
-    // Propagar para Zoning para manter consistência com as casas
-    Zoning.init(this._seed, this._params);
+    // Propagar para o zoneamento do mapa atual para manter consistência com as casas
+    MapStore.getZoning()?.setSeed(this._seed);
     this._pixelCache = null;
     if (this.enabled) this.redraw();
   },
@@ -950,8 +954,8 @@ const NoiseZoning: InternalNoiseZoning = {
       gain: p.gain ?? cur.gain,
       thresholds: { r1, r2, r3, r4 },
     };
-  // Propagar para Zoning para manter consistência com a geração
-  Zoning.setParams(this._params);
+  // Propagar para o zoneamento do mapa atual para manter consistência com a geração
+  MapStore.getZoning()?.setParams(this._params);
   this._pixelCache = null;
   if (this.enabled) this.redraw();
   },
@@ -3,16 +3,28 @@ import AppDispatcher from '../dispatcher/AppDispatcher';
 import { ActionTypes, Payload } from '../dispatcher/constants';
 import * as mapgen from '../game_modules/mapgen';
 import { autoSetConcentric } from '../game_modules/auto_zoning';
+import { restoreSnapshot } from '../game_modules/snapshot';
+import { applyRoadEdit, RoadEditResult } from '../game_modules/road_editor';
+import { config, generationOptions } from '../game_modules/config';
+import type { Building } from '../game_modules/build';
 import type Quadtree from '../lib/quadtree';
+import * as _ from 'lodash';
 
 const CHANGE_EVENT = 'change';
+// edição manual da malha: os ouvintes atualizam só o que a edição tocou (sem regenerar o mapa)
+const EDIT_EVENT = 'edit';
 
 let _segments: mapgen.Segment[] = [];
 const _segmentsById: { [id: number]: mapgen.Segment } = {};
 let _qTree: Quadtree | undefined = undefined;
-let _heatmap: typeof mapgen.heatmap | undefined = undefined;
+// zoneamento, heatmap e terreno do mapa atual (pertencem à geração/snapshot carregado)
+let _fields: mapgen.CityFields | undefined = undefined;
+// camadas do usuário aplicadas a cada nova geração
+let _layers: mapgen.CityLayers = {};
 let _debugData: any | undefined = undefined;
-let _targetZoom = 1.0 * window.devicePixelRatio;
+let _seed: string | number = 0;
+let _buildings: Building[] | null = null;
+let _targetZoom = 1.0 * (typeof window !== 'undefined' ? window.devicePixelRatio : 1);
 
 class MapStore extends EventEmitter {
     get(id: number): mapgen.Segment | undefined {
@@ -27,14 +39,39 @@ class MapStore extends EventEmitter {
         return _qTree;
     }
 
-    getHeatmap(): typeof mapgen.heatmap | undefined {
-        return _heatmap;
+    getHeatmap(): mapgen.Heatmap | undefined {
+        return _fields?.heatmap;
+    }
+
+    getZoning(): mapgen.CityFields['zoning'] | undefined {
+        return _fields?.zoning;
+    }
+
+    getTerrain(): mapgen.CityFields['terrain'] | undefined {
+        return _fields?.terrain;
+    }
+
+    getFields(): mapgen.CityFields | undefined {
+        return _fields;
+    }
+
+    getLayers(): mapgen.CityLayers {
+        return _layers;
     }
 
     getDebugData(): any | undefined {
         return _debugData;
     }
 
+    getSeed(): string | number {
+        return _seed;
+    }
+
+    /** Construções vindas de um snapshot carregado (null = posicionar a partir da malha) */
+    getBuildings(): Building[] | null {
+        return _buildings;
+    }
+
     getTargetZoom(): number {
         return _targetZoom;
     }
@@ -50,40 +87,81 @@ class MapStore extends EventEmitter {
     removeChangeListener(callback: () => void): void {
         this.removeListener(CHANGE_EVENT, callback);
     }
+
+    emitEdit(result: RoadEditResult): void {
+        this.emit(EDIT_EVENT, result);
+    }
+
+    addEditListener(callback: (result: RoadEditResult) => void): void {
+        this.on(EDIT_EVENT, callback);
+    }
+
+    removeEditListener(callback: (result: RoadEditResult) => void): void {
+        this.removeListener(EDIT_EVENT, callback);
+    }
 }
 
 const store = new MapStore();
 
+function setMap(
+    result: mapgen.MapGenerationResult,
+    seed: string | number,
+    buildings: Building[] | null
+): void {
+    const { segments, qTree, debugData, zoning, heatmap, terrain } = result;
+    _segments = segments;
+    _qTree = qTree;
+    _fields = { zoning, heatmap, terrain };
+    _debugData = debugData;
+    _seed = seed;
+    _buildings = buildings;
+
+    Object.keys(_segmentsById).forEach(key => delete _segmentsById[Number(key)]);
+    for (const segment of segments) {
+        if (segment.id !== undefined) {
+            _segmentsById[segment.id] = segment;
+        }
+    }
+    store.emitChange();
+
+    // Notify overlays and other consumers that a new map was generated, include the seed
+    try {
+        if (typeof window !== 'undefined' && typeof window.dispatchEvent === 'function') {
+            const evt = new CustomEvent('map-generated', { detail: { seed } });
+            window.dispatchEvent(evt);
+        }
+    } catch (e) {}
+}
+
 AppDispatcher.register((payload: Payload) => {
     const { action } = payload;
 
     switch (action.actionType) {
         case ActionTypes.MAP_GENERATE: {
-            const { segments, qTree, heatmap, debugData } = mapgen.generate(action.seed);
-            _segments = segments;
-            _qTree = qTree;
-            _heatmap = heatmap;
-            _debugData = debugData;
-
-            Object.keys(_segmentsById).forEach(key => delete _segmentsById[Number(key)]);
-            for (const segment of segments) {
-                if (segment.id !== undefined) {
-                    _segmentsById[segment.id] = segment;
-                }
-            }
-            store.emitChange();
-
-            // Notify overlays and other consumers that a new map was generated, include the seed
-            try {
-                if (typeof window !== 'undefined' && typeof window.dispatchEvent === 'function') {
-                    const evt = new CustomEvent('map-generated', { detail: { seed: action.seed } });
-                    window.dispatchEvent(evt);
-                }
-            } catch (e) {}
+            setMap(mapgen.generate(action.seed, { ...generationOptions(), layers: _layers }), action.seed, null);
 
             // Auto zonas desativado: não recalcular raios concêntricos nem regenerar.
             break;
         }
+        case ActionTypes.MAP_LOAD_SNAPSHOT: {
+            const restored = restoreSnapshot(action.snapshot);
+            _.merge(config.render, restored.render);
+            _layers = { ..._layers, ...restored.layers };
+            setMap(restored, restored.seed, restored.buildings);
+            break;
+        }
+        case ActionTypes.MAP_SET_LAYERS:
+            _layers = { ..._layers, ...action.layers };
+            break;
+        case ActionTypes.MAP_EDIT_ROAD: {
+            if (!_qTree) break;
+            const result = applyRoadEdit(action.edit, _segments, _qTree);
+            if (!result) break;
+            result.removed.forEach(s => { if (s.id !== undefined) delete _segmentsById[s.id]; });
+            result.added.forEach(s => { if (s.id !== undefined) _segmentsById[s.id] = s; });
+            store.emitEdit(result);
+            break;
+        }
         case ActionTypes.MAP_FACTOR_TARGET_ZOOM:
             _targetZoom *= action.factor;
             // Note: The original store didn't emit a change here, which might be intentional
@@ -1,9 +1,15 @@
 // Gerador de zonas aleatórias (conversão do script MATLAB)
-// Produz um FeatureCollection GeoJSON com polígonos convexos rotulados por tipo
+// Produz um FeatureCollection GeoJSON com polígonos convexos rotulados por tipo.
+// generateZoneTessellation cobre todo o retângulo (células de Voronoi relaxadas por Lloyd), sem vãos.
 
-export type ZoneType = 'Comercial' | 'Industrial' | 'Residencial' | 'Rural';
+import type { RNG } from '../generic_modules/math';
+import type { GeoJSONFeature, GeoJSONFeatureCollection, Position } from '../game_modules/geojson';
+
+export type ZoneType = 'Centro' | 'Comercial' | 'Industrial' | 'Residencial' | 'Rural';
 
 export type ZoneSimParams = {
+  // zonas de centro (downtown): sementes fixas perto de `center`
+  numCentro?: number;
   numComercial: number;
   numIndustrial: number;
   numResidencial: number;
@@ -13,6 +19,9 @@ export type ZoneSimParams = {
   scaleMax: number; // área alvo máxima (unidades^2)
   // separação mínima aproximada entre centros (multiplicador dos raios efetivos)
   minSepFactor?: number;
+  // centro da cidade (sementes do centro) e passos de relaxação de Lloyd da tesselação
+  center?: Point;
+  lloydIterations?: number;
 };
 
 export const defaultZoneSimParams: ZoneSimParams = {
@@ -28,7 +37,7 @@ export const defaultZoneSimParams: ZoneSimParams = {
 
 type Point = { x: number; y: number };
 
-function randIn(min: number, max: number) { return min + Math.random() * (max - min); }
+function randIn(rng: RNG, min: number, max: number) { return min + rng() * (max - min); }
 
 function polygonArea(points: Point[]): number {
   let a = 0;
@@ -80,10 +89,10 @@ function convexHull(pts: Point[]): Point[] {
   return lower.concat(upper);
 }
 
-function randomConvexPolygon(cx: number, cy: number, areaTarget: number): Point[] {
-  const n = Math.floor(randIn(6, 10.999));
-  const theta = Array.from({ length: n }, () => Math.random() * Math.PI * 2).sort((a, b) => a - b);
-  const r = Array.from({ length: n }, () => 0.5 + Math.random());
+function randomConvexPolygon(rng: RNG, cx: number, cy: number, areaTarget: number): Point[] {
+  const n = Math.floor(randIn(rng, 6, 10.999));
+  const theta = Array.from({ length: n }, () => rng() * Math.PI * 2).sort((a, b) => a - b);
+  const r = Array.from({ length: n }, () => 0.5 + rng());
   const pts: Point[] = theta.map((t, i) => ({ x: cx + Math.cos(t) * r[i], y: cy + Math.sin(t) * r[i] }));
   let hull = convexHull(pts);
   // escalar até área alvo
@@ -93,10 +102,11 @@ function randomConvexPolygon(cx: number, cy: number, areaTarget: number): Point[
   return hull;
 }
 
-export function generateRandomZones(params: ZoneSimParams = defaultZoneSimParams) {
+/** Polígonos convexos soltos (podem sobrar vãos entre eles); rng semeado reproduz o resultado */
+export function generateRandomZones(params: ZoneSimParams = defaultZoneSimParams, rng: RNG = Math.random) {
   const { xmin, xmax, ymin, ymax } = params.bounds;
-  const tipos: ZoneType[] = ['Comercial', 'Industrial', 'Residencial', 'Rural'];
-  const nums = [params.numComercial, params.numIndustrial, params.numResidencial, params.numRural];
+  const tipos: ZoneType[] = ['Centro', 'Comercial', 'Industrial', 'Residencial', 'Rural'];
+  const nums = [params.numCentro ?? 0, params.numComercial, params.numIndustrial, params.numResidencial, params.numRural];
   const placed: { c: Point; r: number }[] = [];
   const minSepK = params.minSepFactor ?? 0.6;
 
@@ -107,9 +117,9 @@ export function generateRandomZones(params: ZoneSimParams = defaultZoneSimParams
       let hull: Point[] = [];
       let cx = 0, cy = 0; let areaT = 0; let tries = 0;
       while (tries++ < 200) {
-        cx = randIn(xmin, xmax);
-        cy = randIn(ymin, ymax);
-        areaT = randIn(params.scaleMin, params.scaleMax);
+        cx = randIn(rng, xmin, xmax);
+        cy = randIn(rng, ymin, ymax);
+        areaT = randIn(rng, params.scaleMin, params.scaleMax);
         const rEff = Math.sqrt(areaT / Math.PI);
         // evitar sobreposição pesada por distância entre centros
         const ok = placed.every(p => {
@@ -118,7 +128,7 @@ export function generateRandomZones(params: ZoneSimParams = defaultZoneSimParams
           return d >= minSepK * (rEff + p.r);
         });
         if (!ok) continue;
-        hull = randomConvexPolygon(cx, cy, areaT);
+        hull = randomConvexPolygon(rng, cx, cy, areaT);
         placed.push({ c: { x: cx, y: cy }, r: rEff });
         break;
       }
@@ -138,9 +148,99 @@ export function generateRandomZones(params: ZoneSimParams = defaultZoneSimParams
 
 function tipoToInternal(t: ZoneType): 'downtown' | 'commercial' | 'residential' | 'industrial' | 'rural' {
   switch (t) {
+    case 'Centro': return 'downtown';
     case 'Comercial': return 'commercial';
     case 'Industrial': return 'industrial';
     case 'Residencial': return 'residential';
     case 'Rural': return 'rural';
   }
 }
+
+// Mantém de poly só o lado mais próximo de a do que de b (semiplano da bissetriz)
+function clipToBisector(poly: Point[], a: Point, b: Point): Point[] {
+  const nx = b.x - a.x, ny = b.y - a.y;
+  const c = (nx * (a.x + b.x) + ny * (a.y + b.y)) / 2;
+  const side = (p: Point) => nx * p.x + ny * p.y - c; // <= 0: lado de a
+  const out: Point[] = [];
+  for (let i = 0; i < poly.length; i++) {
+    const p = poly[i], q = poly[(i + 1) % poly.length];
+    const sp = side(p), sq = side(q);
+    if (sp <= 0) out.push(p);
+    if ((sp < 0 && sq > 0) || (sp > 0 && sq < 0)) {
+      const t = sp / (sp - sq);
+      out.push({ x: p.x + (q.x - p.x) * t, y: p.y + (q.y - p.y) * t });
+    }
+  }
+  return out;
+}
+
+function voronoiCells(sites: Point[], bounds: ZoneSimParams['bounds']): Point[][] {
+  const { xmin, xmax, ymin, ymax } = bounds;
+  const box: Point[] = [{ x: xmin, y: ymin }, { x: xmax, y: ymin }, { x: xmax, y: ymax }, { x: xmin, y: ymax }];
+  return sites.map((s, i) => {
+    let cell = box;
+    for (let j = 0; j < sites.length && cell.length; j++) {
+      if (j !== i) cell = clipToBisector(cell, s, sites[j]);
+    }
+    return cell;
+  });
+}
+
+/**
+ * Tesselação completa de params.bounds: uma célula de Voronoi por semente, relaxada por Lloyd
+ * (sementes vão ao centroide da própria célula). As sementes do centro ficam fixas em torno de
+ * params.center para o downtown não migrar; as demais recebem os tipos na ordem comercial,
+ * residencial, industrial, rural pela distância ao centro com ruído (rural raramente encosta no
+ * centro e sufoca o crescimento das vias). Mesmo rng => mesmas zonas.
+ */
+export function generateZoneTessellation(params: ZoneSimParams = defaultZoneSimParams, rng: RNG = Math.random): Pick<GeoJSONFeatureCollection, 'type' | 'features'> {
+  const { xmin, xmax, ymin, ymax } = params.bounds;
+  const center = params.center ?? { x: (xmin + xmax) / 2, y: (ymin + ymax) / 2 };
+  const tipos: ZoneType[] = ['Centro', 'Comercial', 'Industrial', 'Residencial', 'Rural'];
+  const nums = [params.numCentro ?? 1, params.numComercial, params.numIndustrial, params.numResidencial, params.numRural];
+  // raio do núcleo: metade do raio de uma célula média
+  const coreR = 0.5 * Math.sqrt((xmax - xmin) * (ymax - ymin) / Math.max(1, nums.reduce((a, b) => a + b, 0)) / Math.PI);
+
+  const sites: Array<{ p: Point; tipo: ZoneType; pinned: boolean }> = [];
+  tipos.forEach((tipo, t) => {
+    for (let i = 0; i < nums[t]; i++) {
+      if (tipo === 'Centro') {
+        const ang = rng() * Math.PI * 2, r = coreR * Math.sqrt(rng());
+        sites.push({ p: { x: center.x + Math.cos(ang) * r, y: center.y + Math.sin(ang) * r }, tipo, pinned: true });
+      } else {
+        sites.push({ p: { x: randIn(rng, xmin, xmax), y: randIn(rng, ymin, ymax) }, tipo, pinned: false });
+      }
+    }
+  });
+  if (!sites.length) return { type: 'FeatureCollection', features: [] };
+
+  let cells = voronoiCells(sites.map(s => s.p), params.bounds);
+  for (let it = 0; it < (params.lloydIterations ?? 3); it++) {
+    sites.forEach((s, i) => {
+      if (!s.pinned && cells[i].length >= 3) s.p = centroid(cells[i]);
+    });
+    cells = voronoiCells(sites.map(s => s.p), params.bounds);
+  }
+
+  // tipos (exceto centro) redistribuídos pela distância ruidosa ao centro
+  const free = sites.filter(s => !s.pinned);
+  const order = free
+    .map(s => ({ s, key: Math.hypot(s.p.x - center.x, s.p.y - center.y) * (0.6 + 0.8 * rng()) }))
+    .sort((a, b) => a.key - b.key);
+  const labels = free.map(s => s.tipo).sort((a, b) => tipos.indexOf(a) - tipos.indexOf(b));
+  order.forEach((o, i) => { o.s.tipo = labels[i]; });
+
+  const features: GeoJSONFeature[] = [];
+  sites.forEach((s, i) => {
+    const cell = cells[i];
+    if (cell.length < 3) return;
+    const coords = cell.map((p): Position => [p.x, p.y]);
+    coords.push([cell[0].x, cell[0].y]);
+    features.push({
+      type: 'Feature',
+      properties: { zone: tipoToInternal(s.tipo), tipo: s.tipo },
+      geometry: { type: 'Polygon', coordinates: [coords] },
+    });
+  });
+  return { type: 'FeatureCollection', features };
+}